@@ -0,0 +1,293 @@
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+  View,
+} from 'react-native';
+import { router } from 'expo-router';
+import { useIsFocused } from '@react-navigation/native';
+import { ThemedView } from '@/components/ThemedView';
+import { ThemedText } from '@/components/ThemedText';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { Colors } from '@/constants/Colors';
+import authService from '@/services/authService';
+import supabaseService from '@/services/supabaseService';
+import { Condition, ConditionStatus } from '@/types/health';
+
+// Condition dates are calendar dates; parsed as local so they do not shift a day
+function formatDate(isoDate: string): string {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString();
+}
+
+export default function ConditionsScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const isFocused = useIsFocused();
+  const [conditions, setConditions] = useState<Condition[]>([]);
+  const [documentNames, setDocumentNames] = useState<{ [documentId: string]: string }>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Documents saved while on another tab add conditions, so the list is read on every visit
+  useEffect(() => {
+    if (isFocused) {
+      loadConditions();
+    }
+  }, [isFocused]);
+
+  const loadConditions = async () => {
+    try {
+      const user = await authService.getCurrentUser();
+      if (!user) return;
+
+      const [stored, documents] = await Promise.all([
+        supabaseService.getConditions(user.id),
+        supabaseService.getHealthDocuments(user.id),
+      ]);
+      setConditions(stored ?? []);
+      setDocumentNames(Object.fromEntries(documents.map(doc => [doc.id, doc.fileName])));
+    } catch (error) {
+      console.error('Error loading conditions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadConditions();
+    setRefreshing(false);
+  };
+
+  const setStatus = async (condition: Condition, status: ConditionStatus) => {
+    const updated = await supabaseService.updateConditionStatus(condition.id, status);
+    if (!updated) {
+      Alert.alert('Update Failed', 'The condition could not be updated. Please try again.');
+      return;
+    }
+    setConditions(current => current.map(existing => (existing.id === updated.id ? updated : existing)));
+  };
+
+  const confirmResolve = (condition: Condition) => {
+    Alert.alert(
+      'Mark as Resolved?',
+      `"${condition.name}" will move to resolved conditions. A later document that names it again makes it active.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Resolve', onPress: () => setStatus(condition, 'resolved') },
+      ]
+    );
+  };
+
+  const confirmDelete = (condition: Condition) => {
+    Alert.alert(
+      'Remove Condition?',
+      `"${condition.name}" will be removed from the list. Documents that name it add it again when they are processed.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            if (!(await supabaseService.deleteCondition(condition.id))) {
+              Alert.alert('Remove Failed', 'The condition could not be removed. Please try again.');
+              return;
+            }
+            setConditions(current => current.filter(existing => existing.id !== condition.id));
+          },
+        },
+      ]
+    );
+  };
+
+  const openSourceDocument = (condition: Condition) => {
+    if (!condition.documentId) return;
+    router.push({ pathname: '/documents', params: { documentId: condition.documentId } });
+  };
+
+  const renderCondition = (condition: Condition) => {
+    const sourceName = condition.documentId ? documentNames[condition.documentId] : undefined;
+
+    return (
+      <ThemedView key={condition.id} style={styles.conditionCard}>
+        <View style={styles.conditionHeader}>
+          <ThemedText style={styles.conditionName}>{condition.name}</ThemedText>
+          <View style={styles.actions}>
+            <TouchableOpacity
+              onPress={() => (condition.status === 'active' ? confirmResolve(condition) : setStatus(condition, 'active'))}
+            >
+              <ThemedText style={[styles.actionText, { color: colors.tint }]}>
+                {condition.status === 'active' ? 'Resolve' : 'Reopen'}
+              </ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => confirmDelete(condition)}>
+              <ThemedText style={[styles.actionText, styles.deleteText]}>Remove</ThemedText>
+            </TouchableOpacity>
+          </View>
+        </View>
+        <ThemedText style={styles.code}>
+          {condition.icd10Code
+            ? `ICD-10 ${condition.icd10Code}${condition.icd10Display && condition.icd10Display !== condition.name ? ` · ${condition.icd10Display}` : ''}`
+            : 'No ICD-10 code found'}
+        </ThemedText>
+        <ThemedText style={styles.detail}>
+          {condition.onsetDate ? `Onset ${formatDate(condition.onsetDate)}` : 'Onset unknown'}
+          {condition.status === 'resolved' && condition.resolvedDate ? ` · resolved ${formatDate(condition.resolvedDate)}` : ''}
+        </ThemedText>
+        {condition.notes && (
+          <ThemedText style={styles.detail}>{condition.notes}</ThemedText>
+        )}
+        {condition.documentId && (
+          <TouchableOpacity onPress={() => openSourceDocument(condition)}>
+            <ThemedText style={[styles.source, { color: colors.tint }]}>
+              From {sourceName ? `"${sourceName}"` : 'a document'}
+              {condition.lastSeenDate ? ` of ${formatDate(condition.lastSeenDate)}` : ''}
+            </ThemedText>
+          </TouchableOpacity>
+        )}
+      </ThemedView>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <ThemedView style={styles.container}>
+        <ActivityIndicator size="large" />
+      </ThemedView>
+    );
+  }
+
+  const active = conditions.filter(condition => condition.status === 'active');
+  const resolved = conditions.filter(condition => condition.status === 'resolved');
+
+  return (
+    <ScrollView
+      style={styles.container}
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+      }
+    >
+      <ThemedView style={styles.header}>
+        <ThemedText type="title">Conditions</ThemedText>
+        <ThemedText style={styles.subtitle}>
+          Your problem list, built from the diagnoses on your documents
+        </ThemedText>
+      </ThemedView>
+
+      <ThemedView style={styles.section}>
+        <ThemedText type="subtitle" style={styles.sectionTitle}>
+          Active ({active.length})
+        </ThemedText>
+
+        {active.length === 0 ? (
+          <ThemedView style={styles.emptyState}>
+            <IconSymbol name="stethoscope" size={48} color={colors.text + '40'} />
+            <ThemedText style={styles.emptyText}>
+              No active conditions
+            </ThemedText>
+            <ThemedText style={styles.emptySubtext}>
+              Diagnoses on letters and reports you upload appear here
+            </ThemedText>
+          </ThemedView>
+        ) : (
+          active.map(renderCondition)
+        )}
+      </ThemedView>
+
+      {resolved.length > 0 && (
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle" style={styles.sectionTitle}>
+            Resolved ({resolved.length})
+          </ThemedText>
+          {resolved.map(renderCondition)}
+        </ThemedView>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    padding: 24,
+    paddingTop: 60,
+  },
+  subtitle: {
+    opacity: 0.6,
+    marginTop: 4,
+  },
+  section: {
+    paddingHorizontal: 24,
+    paddingBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 16,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 16,
+    opacity: 0.8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    marginTop: 8,
+    opacity: 0.6,
+    textAlign: 'center',
+  },
+  conditionCard: {
+    padding: 16,
+    backgroundColor: 'rgba(128, 128, 128, 0.1)',
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  conditionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: 12,
+    marginBottom: 4,
+  },
+  conditionName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  deleteText: {
+    color: '#FF3B30',
+  },
+  code: {
+    fontSize: 14,
+    marginBottom: 2,
+  },
+  detail: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  source: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+});
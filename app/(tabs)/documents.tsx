@@ -10,6 +10,9 @@ import {
 } from 'react-native';
 import * as DocumentPicker from 'expo-document-picker';
 import * as FileSystem from 'expo-file-system';
+import * as WebBrowser from 'expo-web-browser';
+import { router, useLocalSearchParams } from 'expo-router';
+import { useIsFocused } from '@react-navigation/native';
 import { ThemedView } from '@/components/ThemedView';
 import { ThemedText } from '@/components/ThemedText';
 import { IconSymbol } from '@/components/ui/IconSymbol';
@@ -17,26 +20,113 @@ import { useColorScheme } from '@/hooks/useColorScheme';
 import { Colors } from '@/constants/Colors';
 import authService from '@/services/authService';
 import supabaseService from '@/services/supabaseService';
+import documentFileService from '@/services/documentFileService';
+import extractionQueueService from '@/services/extractionQueueService';
 import geminiService from '@/services/geminiService';
+import redactionService from '@/services/redactionService';
 import { HealthDocument } from '@/types/health';
+import { Redaction } from '@/types/redaction';
+import {
+  DocumentPickerResult,
+  ExtractedMetricRow,
+  ExtractionDiffEntry,
+  ExtractionJob,
+  GeminiPDFResponse,
+  UploadProgress,
+} from '@/types/document';
 import { ExtractedDataView } from '@/components/ExtractedDataView';
-import { processAndSaveHealthData } from '@/utils/healthDataProcessor';
+import { ExtractedDataReview } from '@/components/ExtractedDataReview';
+import { ExtractionDiffView } from '@/components/ExtractionDiffView';
+import { UploadProgressView } from '@/components/UploadProgressView';
+import { buildReviewRows, saveExtractedConditions, saveExtractedMedications, saveReviewedMetrics } from '@/utils/healthDataProcessor';
+import { diffNormalizedHealthData } from '@/utils/extractionDiff';
+import { confirmWithinBudget } from '@/utils/budgetAlerts';
+import { EXTRACTION_CALLS_PER_DOCUMENT, SUPPORTED_DOCUMENT_TYPES } from '@/utils/constants';
+import { isPromptOutdated } from '@/utils/promptRegistry';
+import { stageProgress, UPLOAD_STAGE_LABELS } from '@/utils/uploadProgress';
+
+// A stored document processed again, compared with its stored extraction before anything is replaced
+interface PendingDiff {
+  job: ExtractionJob & { result: GeminiPDFResponse };
+  document: HealthDocument;
+  entries: ExtractionDiffEntry[];
+}
+
+// Null when the job has no result or the document it re-extracts has since been deleted
+function compareReextraction(job: ExtractionJob, documents: HealthDocument[]): PendingDiff | null {
+  const document = documents.find(doc => doc.id === job.replaces?.id);
+  if (!job.result || !document) return null;
+  return {
+    job: { ...job, result: job.result },
+    document,
+    entries: diffNormalizedHealthData(document.normalizedData, job.result.normalizedData),
+  };
+}
 
 export default function DocumentsScreen() {
   const colorScheme = useColorScheme();
+  // Set when another screen links to the document a metric was read from
+  const { documentId } = useLocalSearchParams<{ documentId?: string }>();
   const [documents, setDocuments] = useState<HealthDocument[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isUploading, setIsUploading] = useState(false);
+  const [jobs, setJobs] = useState<ExtractionJob[]>([]);
+  const isFocused = useIsFocused();
   const [refreshing, setRefreshing] = useState(false);
   const [hasApiKey, setHasApiKey] = useState(false);
+  // The model extraction now runs on; documents extracted with another are outdated
+  const [extractionModel, setExtractionModel] = useState<string | null>(null);
   const [showExtractedData, setShowExtractedData] = useState(false);
   const [currentExtractedData, setCurrentExtractedData] = useState<any>(null);
   const [currentFileName, setCurrentFileName] = useState<string>('');
+  const [currentRedactions, setCurrentRedactions] = useState<Redaction[]>([]);
+  // A finished extraction job whose result is being reviewed
+  const [pendingReview, setPendingReview] = useState<(ExtractionJob & { result: GeminiPDFResponse }) | null>(null);
+  const [reviewRows, setReviewRows] = useState<ExtractedMetricRow[]>([]);
+  const [isSavingReview, setIsSavingReview] = useState(false);
+  const [pendingDiff, setPendingDiff] = useState<PendingDiff | null>(null);
+  const [isSavingDiff, setIsSavingDiff] = useState(false);
+  // Progress of storing a reviewed document, shown in the review while it saves
+  const [saveProgress, setSaveProgress] = useState<UploadProgress | null>(null);
 
   useEffect(() => {
     loadDocuments();
+    extractionQueueService.load();
+    return extractionQueueService.subscribe(setJobs);
   }, []);
 
+  // Nothing is saved until the user has reviewed the extracted metrics
+  useEffect(() => {
+    if (pendingReview || pendingDiff || isLoading || !isFocused) return;
+
+    const ready = jobs.find(job => job.status === 'ready' && job.result);
+    if (!ready) return;
+
+    if (!ready.reprocess) {
+      openReview(ready);
+      return;
+    }
+    const diff = compareReextraction(ready, documents);
+    if (diff) {
+      setPendingDiff(diff);
+    } else {
+      console.log(`🗑️ ${ready.fileName} was deleted before its re-extraction was reviewed`);
+      extractionQueueService.remove(ready.id);
+    }
+  }, [jobs, isFocused, pendingReview, pendingDiff, isLoading, documents]);
+
+  useEffect(() => {
+    if (!documentId || isLoading) return;
+
+    const doc = documents.find(existing => existing.id === documentId);
+    if (doc) {
+      viewExtraction(doc);
+    } else {
+      Alert.alert('Not Found', 'The source document is no longer available.');
+    }
+    router.setParams({ documentId: undefined });
+  }, [documentId, isLoading, documents]);
+
   const loadDocuments = async () => {
     try {
       const user = await authService.getCurrentUser();
@@ -44,15 +134,16 @@ export default function DocumentsScreen() {
 
       const apiKeyExists = await authService.hasGeminiApiKey();
       setHasApiKey(apiKeyExists);
+      setExtractionModel(await geminiService.getCurrentModel('extraction'));
 
-      // For now, since we're not saving documents to the database,
-      // we'll keep the existing local documents and only load any existing ones
+      // Documents that could not be saved to the database only exist locally,
+      // so they are kept alongside the ones loaded from the database
       try {
         const docs = await supabaseService.getHealthDocuments(user.id);
-        // Only replace if we got actual documents from the database
-        if (docs.length > 0) {
-          setDocuments(docs);
-        }
+        setDocuments(current => [
+          ...current.filter(doc => doc.id.startsWith('local-')),
+          ...docs,
+        ].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()));
       } catch (error) {
         console.log('📋 No documents in database yet, keeping local documents');
       }
@@ -81,13 +172,44 @@ export default function DocumentsScreen() {
 
     try {
       const result = await DocumentPicker.getDocumentAsync({
-        type: 'application/pdf',
+        type: SUPPORTED_DOCUMENT_TYPES,
         copyToCacheDirectory: true,
+        multiple: true,
       });
 
-      if (!result.canceled && result.assets[0]) {
-        const asset = result.assets[0];
-        await uploadDocument(asset.uri, asset.name);
+      if (!result.canceled && result.assets.length > 0) {
+        const files: DocumentPickerResult[] = result.assets.map(asset => ({
+          uri: asset.uri,
+          name: asset.name,
+          size: asset.size,
+          mimeType: asset.mimeType,
+        }));
+
+        // Either one PDF, or one or more photos that make up a single document
+        const pdfCount = files.filter(file => documentFileService.isPDF(file)).length;
+        if (pdfCount > 1 || (pdfCount === 1 && files.length > 1)) {
+          Alert.alert(
+            'Unsupported Selection',
+            'Select a single PDF, or one or more photos of the pages of a single document.'
+          );
+          return;
+        }
+
+        const fileName = files.length > 1
+          ? `${files[0].name} (+${files.length - 1} pages)`
+          : files[0].name;
+
+        const contentHash = await documentFileService.hashFiles(files);
+        if (jobs.some(job => job.contentHash === contentHash)) {
+          Alert.alert('Already Queued', 'This document is already waiting to be processed.');
+          return;
+        }
+        const existing = await findProcessedDocument(contentHash);
+        if (existing) {
+          promptDuplicate(existing, files, fileName, contentHash);
+          return;
+        }
+        await uploadDocument(files, fileName, contentHash);
       }
     } catch (error) {
       console.error('Error picking document:', error);
@@ -95,80 +217,447 @@ export default function DocumentsScreen() {
     }
   };
 
-  const uploadDocument = async (uri: string, fileName: string) => {
+  const findProcessedDocument = async (contentHash: string): Promise<HealthDocument | null> => {
+    const local = documents.find(doc => doc.contentHash === contentHash);
+    if (local) return local;
+
+    const user = await authService.getCurrentUser();
+    if (!user) return null;
+    return supabaseService.findHealthDocumentByHash(user.id, contentHash);
+  };
+
+  const promptDuplicate = (
+    existing: HealthDocument,
+    files: DocumentPickerResult[],
+    fileName: string,
+    contentHash: string
+  ) => {
+    console.log(`🔁 Document already processed as "${existing.fileName}" (${contentHash.slice(0, 12)})`);
+    Alert.alert(
+      'Already Uploaded',
+      `This document was processed on ${formatDate(existing.createdAt)} as "${existing.fileName}".`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'View Extraction',
+          onPress: () => viewExtraction(existing),
+        },
+        {
+          text: 'Re-extract & Replace',
+          style: 'destructive',
+          onPress: () => uploadDocument(files, fileName, contentHash, existing),
+        },
+      ]
+    );
+  };
+
+  const uploadDocument = async (
+    files: DocumentPickerResult[],
+    fileName: string,
+    contentHash: string,
+    replaces?: HealthDocument
+  ) => {
+    setIsUploading(true);
+    try {
+      for (const file of files) {
+        const fileInfo = await FileSystem.getInfoAsync(file.uri);
+        if (!fileInfo.exists) {
+          throw new Error(`File not found: ${file.name}`);
+        }
+      }
+      if (!(await confirmWithinBudget('extraction', await documentFileService.countExtractionCalls(files)))) return;
+
+      // Extraction runs in the background queue; the review opens when it is ready
+      await extractionQueueService.enqueue(
+        files,
+        fileName,
+        contentHash,
+        replaces && { id: replaces.id, filePaths: replaces.filePaths }
+      );
+    } catch (error) {
+      console.error('❌ Error queueing document:', error);
+      Alert.alert(
+        'Upload Failed',
+        error instanceof Error && error.message ? error.message : 'Failed to upload document. Please try again.'
+      );
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const openReadyJob = (job: ExtractionJob) => {
+    if (!job.reprocess) {
+      openReview(job);
+      return;
+    }
+    const diff = compareReextraction(job, documents);
+    if (diff) {
+      setPendingDiff(diff);
+    }
+  };
+
+  const openReview = (job: ExtractionJob) => {
+    if (!job.result) return;
+    setReviewRows(buildReviewRows(job.result.normalizedData, { uploadedAt: job.createdAt }));
+    setPendingReview({ ...job, result: job.result });
+  };
+
+  // Only documents whose original file was stored can be processed again
+  const canReprocess = (doc: HealthDocument) =>
+    !doc.id.startsWith('local-') &&
+    !!doc.filePaths?.length &&
+    !jobs.some(job => job.replaces?.id === doc.id);
+
+  const queueReprocessing = async (doc: HealthDocument) => {
+    const filePaths = doc.filePaths ?? [];
+    const urls = await supabaseService.getDocumentSignedUrls(filePaths);
+    if (!urls || urls.length !== filePaths.length) {
+      throw new Error(`The stored file for "${doc.fileName}" could not be opened.`);
+    }
+
+    const files = await documentFileService.downloadFiles(urls, filePaths);
+    const contentHash = doc.contentHash ?? await documentFileService.hashFiles(files);
+    await extractionQueueService.enqueue(files, doc.fileName, contentHash, { id: doc.id, filePaths }, true);
+    // The queue keeps its own copies
+    await Promise.all(files.map(file => FileSystem.deleteAsync(file.uri, { idempotent: true })));
+  };
+
+  const reprocessDocuments = async (docs: HealthDocument[]) => {
+    if (!hasApiKey) {
+      Alert.alert('API Key Required', 'Please add your Gemini API key in Settings to process documents.');
+      return;
+    }
+    if (!(await confirmWithinBudget('extraction', docs.length * EXTRACTION_CALLS_PER_DOCUMENT))) return;
+
     setIsUploading(true);
+    let failed = 0;
+    try {
+      for (const doc of docs) {
+        try {
+          await queueReprocessing(doc);
+        } catch (error) {
+          console.error(`❌ Error queueing re-extraction of ${doc.fileName}:`, error);
+          failed++;
+        }
+      }
+    } finally {
+      setIsUploading(false);
+    }
+
+    if (failed > 0) {
+      Alert.alert(
+        'Re-extraction Failed',
+        `${failed} of ${docs.length} ${docs.length === 1 ? 'document' : 'documents'} could not be downloaded. Please try again.`
+      );
+    }
+  };
+
+  const reprocessOutdated = () => {
+    const outdated = documents.filter(doc => canReprocess(doc) && isPromptOutdated(doc, extractionModel));
+    Alert.alert(
+      'Re-extract Documents?',
+      `${outdated.length} ${outdated.length === 1 ? 'document was' : 'documents were'} extracted with an older prompt or model. ` +
+        'Each will be processed again, and you can compare the results before anything is replaced.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Re-extract', onPress: () => reprocessDocuments(outdated) },
+      ]
+    );
+  };
+
+  const acceptDiff = async () => {
+    if (!pendingDiff) return;
+
+    setIsSavingDiff(true);
     try {
       const user = await authService.getCurrentUser();
       if (!user) return;
 
-      // Read file as blob
-      const fileInfo = await FileSystem.getInfoAsync(uri);
-      if (!fileInfo.exists) {
-        throw new Error('File not found');
+      const { job, document } = pendingDiff;
+      const uploadedAt = new Date(document.createdAt).toISOString();
+      setSaveProgress(stageProgress('saving'));
+      const rows = buildReviewRows(job.result.normalizedData, { uploadedAt });
+      const saveSuccess = await saveReviewedMetrics(rows, user.id, document.fileName, {
+        documentId: document.id,
+        documentHash: job.contentHash,
+        replaceExisting: true,
+      });
+      if (!saveSuccess) {
+        Alert.alert('Save Failed', 'The new extraction could not be saved. The previous one is unchanged.');
+        return;
       }
-
-      // Process with Gemini first
-      const geminiResponse = await geminiService.processPDF(uri, fileName);
-      if (!geminiResponse) {
-        throw new Error('Failed to process PDF with Gemini');
+      const listOptions = { uploadedAt, documentId: document.id, documentHash: job.contentHash };
+      if (!(await saveExtractedMedications(job.result.normalizedData, user.id, listOptions))) {
+        console.log('⚠️ Medications of the new extraction were not added to the medication list');
+      }
+      if (!(await saveExtractedConditions(job.result.normalizedData, user.id, listOptions))) {
+        console.log('⚠️ Diagnoses of the new extraction were not added to the problem list');
       }
 
-      // Process and save the health data
-      console.log('📄 Processing and saving health data...');
-      
-      const saveSuccess = await processAndSaveHealthData(
-        geminiResponse.normalizedData,
-        user.id,
+      setSaveProgress(stageProgress('saving', 0.8, 'Updating the document'));
+      const extraction = {
+        fileName: document.fileName,
+        fileUrl: document.fileUrl,
+        filePaths: document.filePaths,
+        geminiExtractedText: job.result.extractedText,
+        normalizedData: job.result.normalizedData,
+        ...job.result.provenance,
+      };
+      const savedDoc = await supabaseService.updateHealthDocumentExtraction(document.id, extraction);
+      await redactionService.setRedactions(job.contentHash, job.result.redactions);
+      setDocuments(current => current.map(doc => (doc.id === document.id ? savedDoc ?? { ...doc, ...extraction } : doc)));
+
+      await extractionQueueService.remove(job.id);
+      setPendingDiff(null);
+    } catch (error) {
+      console.error('❌ Error saving re-extraction:', error);
+      Alert.alert('Save Failed', 'Failed to save the new extraction. Please try again.');
+    } finally {
+      setIsSavingDiff(false);
+      setSaveProgress(null);
+    }
+  };
+
+  const discardDiff = () => {
+    if (pendingDiff) {
+      extractionQueueService.remove(pendingDiff.job.id);
+    }
+    setPendingDiff(null);
+  };
+
+  const describeSource = (source: { promptId?: string; promptVersion?: number; model?: string }) =>
+    source.promptId ? `${source.model}, prompt ${source.promptId} v${source.promptVersion}` : undefined;
+
+  const retryJob = (job: ExtractionJob) => {
+    extractionQueueService.retry(job.id);
+  };
+
+  const cancelJob = (job: ExtractionJob) => {
+    Alert.alert(
+      'Cancel Processing?',
+      `"${job.fileName}" will be removed from the queue and nothing from it will be saved.`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        { text: 'Cancel Processing', style: 'destructive', onPress: () => extractionQueueService.remove(job.id) },
+      ]
+    );
+  };
+
+  const describeJob = (job: ExtractionJob): string => {
+    switch (job.status) {
+      case 'pending':
+        return job.nextAttemptAt
+          ? `Retrying at ${new Date(job.nextAttemptAt).toLocaleTimeString()} after an error (attempt ${job.attempts + 1})`
+          : 'Waiting to be processed';
+      case 'processing':
+        return job.progress
+          ? `${UPLOAD_STAGE_LABELS[job.progress.stage]} (${job.progress.percentage}%)`
+          : 'Extracting…';
+      case 'waiting_for_network':
+        return 'Waiting for an internet connection';
+      case 'ready':
+        return job.reprocess ? 'Ready to compare with the stored extraction' : 'Ready to review';
+      case 'failed':
+        return `Failed: ${job.lastError ?? 'unknown error'}`;
+    }
+  };
+
+  const confirmReview = async () => {
+    if (!pendingReview) return;
+
+    const incomplete = reviewRows.find(row => row.include && (!row.label.trim() || !row.metricType || !row.value.trim()));
+    if (incomplete) {
+      Alert.alert('Incomplete Row', 'Every included row needs a test name, a value and a metric type.');
+      return;
+    }
+
+    setIsSavingReview(true);
+    try {
+      const user = await authService.getCurrentUser();
+      if (!user) return;
+
+      const { id: jobId, fileName, files, contentHash, replaces, result: response, createdAt: uploadedAt } = pendingReview;
+
+      // A re-extracted document has the same contents, so its stored original is kept
+      const filePaths = replaces?.filePaths ?? await storeOriginalFiles(files, user.id);
+      setSaveProgress(stageProgress('saving'));
+      const extraction = {
+        fileUrl: filePaths?.[0] ?? files[0].uri,
+        filePaths: filePaths ?? undefined,
         fileName,
-        geminiResponse.extractedText
-      );
+        geminiExtractedText: response.extractedText,
+        normalizedData: response.normalizedData,
+        ...response.provenance,
+      };
+
+      // A new document is saved first so its metrics can link to it
+      const replacesSaved = replaces && !replaces.id.startsWith('local-') ? replaces : undefined;
+      const createdDoc = replacesSaved
+        ? null
+        : await supabaseService.saveHealthDocument({ userId: user.id, contentHash, ...extraction });
+
+      const linkedDocumentId = replacesSaved?.id ?? createdDoc?.id;
+      const saveSuccess = await saveReviewedMetrics(reviewRows, user.id, fileName, {
+        documentId: linkedDocumentId,
+        documentHash: contentHash,
+        replaceExisting: !!replaces,
+      });
 
       if (saveSuccess) {
-        // Create a local document record for UI display
-        const localDoc: HealthDocument = {
-          id: `local-${Date.now()}`,
+        const listOptions = { uploadedAt, documentId: linkedDocumentId, documentHash: contentHash };
+        const medicationsSaved = await saveExtractedMedications(response.normalizedData, user.id, listOptions);
+        const conditionsSaved = await saveExtractedConditions(response.normalizedData, user.id, listOptions);
+        setSaveProgress(stageProgress('saving', 0.8, 'Updating the document'));
+        const savedDoc = replacesSaved
+          ? await supabaseService.updateHealthDocumentExtraction(replacesSaved.id, extraction)
+          : createdDoc;
+
+        // Fall back to a local document record for UI display
+        const doc: HealthDocument = savedDoc ?? {
+          id: replaces?.id ?? `local-${Date.now()}`,
           userId: user.id,
-          fileUrl: uri,
-          fileName: fileName,
-          geminiExtractedText: geminiResponse.extractedText,
-          normalizedData: geminiResponse.normalizedData,
+          contentHash,
+          ...extraction,
           createdAt: new Date(),
         };
-        
-        // Add to local documents list
-        setDocuments([localDoc, ...documents]);
-        
+        setDocuments(current => [doc, ...current.filter(existing => existing.id !== replaces?.id)]);
+        await redactionService.setRedactions(contentHash, response.redactions);
+
+        await extractionQueueService.remove(jobId);
+        setPendingReview(null);
+        setReviewRows([]);
+
         // Show the extracted data in a nice modal
-        setCurrentExtractedData(geminiResponse.normalizedData);
+        setCurrentExtractedData(response.normalizedData);
         setCurrentFileName(fileName);
+        setCurrentRedactions(response.redactions ?? []);
         setShowExtractedData(true);
-        
-        Alert.alert('Success!', 'Document processed and health metrics saved to database!');
+
+        const savedCount = reviewRows.filter(row => row.include).length;
+        const documentNote = savedDoc
+          ? ''
+          : '\n\nThe document itself could not be stored and will only be listed until the app is closed.';
+        const listsNote = medicationsSaved && conditionsSaved
+          ? ''
+          : '\n\nSome medications or diagnoses on it could not be added to your lists.';
+        Alert.alert('Success!', `${savedCount} confirmed health ${savedCount === 1 ? 'metric' : 'metrics'} saved to database!${documentNote}${listsNote}`);
       } else {
-        Alert.alert('Warning', 'Document was processed but some data may not have been saved to the database.');
-      }
-    } catch (error) {
-      console.error('❌ Error uploading document:', error);
-      if (error instanceof Error) {
-        console.error('🔍 Error message:', error.message);
-        console.error('📋 Error stack:', error.stack);
-        
-        if (error.message.includes('row-level security policy')) {
-          Alert.alert(
-            'Authentication Error', 
-            'Unable to save document. In development mode, the mock user cannot save to the database due to security policies.'
-          );
-        } else {
-          Alert.alert('Upload Failed', error.message || 'Failed to upload document. Please try again.');
+        // A document is only kept together with its metrics
+        if (createdDoc) {
+          await supabaseService.deleteHealthDocument(createdDoc);
         }
-      } else {
-        Alert.alert('Upload Failed', 'Failed to upload document. Please try again.');
+        Alert.alert('Warning', 'Some data may not have been saved to the database. Please try again.');
       }
+    } catch (error) {
+      console.error('❌ Error saving reviewed metrics:', error);
+      Alert.alert('Save Failed', 'Failed to save the reviewed metrics. Please try again.');
     } finally {
-      setIsUploading(false);
+      setIsSavingReview(false);
+      setSaveProgress(null);
     }
   };
 
+  // Uploads the picked files to storage; null when any of them could not be stored
+  const storeOriginalFiles = async (files: DocumentPickerResult[], userId: string): Promise<string[] | null> => {
+    try {
+      const filePaths: string[] = [];
+      for (const [index, file] of files.entries()) {
+        setSaveProgress(stageProgress('uploading', index / files.length, `File ${index + 1} of ${files.length}`));
+        const data = await documentFileService.readFileBytes(file);
+        const filePath = await supabaseService.uploadDocument(
+          data,
+          file.name,
+          userId,
+          documentFileService.getMimeType(file)
+        );
+        if (!filePath) return null;
+        filePaths.push(filePath);
+      }
+      console.log(`🗄️ Stored ${filePaths.length} original ${filePaths.length === 1 ? 'file' : 'files'}`);
+      return filePaths;
+    } catch (error) {
+      console.error('❌ Error storing original document:', error);
+      return null;
+    }
+  };
+
+  const viewExtraction = async (doc: HealthDocument) => {
+    if (!doc.normalizedData) {
+      Alert.alert('No Extraction', 'No extracted data was kept for this document.');
+      return;
+    }
+    setCurrentExtractedData(doc.normalizedData);
+    setCurrentFileName(doc.fileName);
+    setCurrentRedactions(doc.contentHash ? await redactionService.getRedactions(doc.contentHash) : []);
+    setShowExtractedData(true);
+  };
+
+  const viewOriginal = async (doc: HealthDocument) => {
+    if (!doc.filePaths || doc.filePaths.length === 0) return;
+
+    const urls = await supabaseService.getDocumentSignedUrls(doc.filePaths);
+    if (!urls || urls.length === 0) {
+      Alert.alert('Unavailable', 'The original document could not be opened. Please try again.');
+      return;
+    }
+    if (urls.length === 1) {
+      await WebBrowser.openBrowserAsync(urls[0]);
+      return;
+    }
+    Alert.alert('Open Page', `This document has ${urls.length} pages.`, [
+      ...urls.map((url, index) => ({
+        text: `Page ${index + 1}`,
+        onPress: () => { WebBrowser.openBrowserAsync(url); },
+      })),
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  const deleteDocument = (doc: HealthDocument) => {
+    Alert.alert(
+      'Delete Document?',
+      `"${doc.fileName}" and the health metrics read from it will be deleted.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            if (!doc.id.startsWith('local-') && !(await supabaseService.deleteHealthDocument(doc))) {
+              Alert.alert('Delete Failed', 'The document could not be deleted. Please try again.');
+              return;
+            }
+            if (doc.contentHash) {
+              await redactionService.setRedactions(doc.contentHash, undefined);
+            }
+            setDocuments(current => current.filter(existing => existing.id !== doc.id));
+          },
+        },
+      ]
+    );
+  };
+
+  const discardReview = () => {
+    Alert.alert(
+      'Discard Extraction?',
+      'None of the extracted data from this document will be saved.',
+      [
+        { text: 'Keep Reviewing', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => {
+            if (pendingReview) {
+              extractionQueueService.remove(pendingReview.id);
+            }
+            setPendingReview(null);
+            setReviewRows([]);
+          },
+        },
+      ]
+    );
+  };
+
   const formatDate = (date: Date | string) => {
     const d = new Date(date);
     return d.toLocaleDateString('en-US', {
@@ -180,6 +669,9 @@ export default function DocumentsScreen() {
     });
   };
 
+  const outdatedCount = documents.filter(doc => canReprocess(doc) && isPromptOutdated(doc, extractionModel)).length;
+  const processingJob = jobs.find(job => job.status === 'processing');
+
   if (isLoading) {
     return (
       <ThemedView style={styles.container}>
@@ -213,12 +705,21 @@ export default function DocumentsScreen() {
           <>
             <IconSymbol name="doc.badge.plus" size={24} color={Colors[colorScheme ?? 'light'].tint} />
             <ThemedText style={[styles.uploadText, { color: Colors[colorScheme ?? 'light'].tint }]}>
-              Upload PDF Document
+              Upload PDF or Photos
             </ThemedText>
           </>
         )}
       </TouchableOpacity>
 
+      {processingJob?.progress && (
+        <UploadProgressView
+          style={styles.uploadProgress}
+          fileName={processingJob.fileName}
+          progress={processingJob.progress}
+          onCancel={() => cancelJob(processingJob)}
+        />
+      )}
+
       {!hasApiKey && (
         <ThemedView style={styles.warningCard}>
           <IconSymbol name="exclamationmark.triangle.fill" size={20} color="#FFE66D" />
@@ -228,6 +729,56 @@ export default function DocumentsScreen() {
         </ThemedView>
       )}
 
+      {outdatedCount > 0 && (
+        <TouchableOpacity style={styles.reprocessAllButton} onPress={reprocessOutdated} disabled={isUploading}>
+          <ThemedText style={[styles.documentActionText, { color: Colors[colorScheme ?? 'light'].tint }]}>
+            Re-extract {outdatedCount} {outdatedCount === 1 ? 'document' : 'documents'} from an older prompt or model
+          </ThemedText>
+        </TouchableOpacity>
+      )}
+
+      {jobs.length > 0 && (
+        <ThemedView style={styles.jobsList}>
+          {jobs.map(job => (
+            <ThemedView key={job.id} style={styles.jobCard}>
+              {job.status === 'processing' && (
+                <ActivityIndicator size="small" color={Colors[colorScheme ?? 'light'].tint} />
+              )}
+              <ThemedView style={styles.documentInfo}>
+                <ThemedText style={styles.documentName} numberOfLines={1}>
+                  {job.fileName}
+                </ThemedText>
+                <ThemedText
+                  style={[styles.jobStatus, job.status === 'failed' && styles.deleteText]}
+                  numberOfLines={4}
+                >
+                  {describeJob(job)}
+                </ThemedText>
+                <ThemedView style={styles.documentActions}>
+                  {job.status === 'ready' && (
+                    <TouchableOpacity onPress={() => openReadyJob(job)}>
+                      <ThemedText style={[styles.documentActionText, { color: Colors[colorScheme ?? 'light'].tint }]}>
+                        {job.reprocess ? 'Compare' : 'Review'}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  )}
+                  {job.status === 'failed' && (
+                    <TouchableOpacity onPress={() => retryJob(job)}>
+                      <ThemedText style={[styles.documentActionText, { color: Colors[colorScheme ?? 'light'].tint }]}>
+                        Retry
+                      </ThemedText>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity onPress={() => cancelJob(job)}>
+                    <ThemedText style={[styles.documentActionText, styles.deleteText]}>Cancel</ThemedText>
+                  </TouchableOpacity>
+                </ThemedView>
+              </ThemedView>
+            </ThemedView>
+          ))}
+        </ThemedView>
+      )}
+
       <ThemedView style={styles.documentsList}>
         {documents.length === 0 ? (
           <ThemedView style={styles.emptyState}>
@@ -236,12 +787,12 @@ export default function DocumentsScreen() {
               No documents uploaded yet
             </ThemedText>
             <ThemedText style={styles.emptySubtext}>
-              Upload your medical records, lab results, and prescriptions
+              Upload your medical records, lab results, and prescriptions as PDFs or photos
             </ThemedText>
           </ThemedView>
         ) : (
           documents.map((doc) => (
-            <ThemedView key={doc.id} style={styles.documentCard}>
+            <TouchableOpacity key={doc.id} style={styles.documentCard} onPress={() => viewExtraction(doc)}>
               <ThemedView style={styles.documentIcon}>
                 <IconSymbol name="doc.fill" size={32} color={Colors[colorScheme ?? 'light'].tint} />
               </ThemedView>
@@ -252,6 +803,9 @@ export default function DocumentsScreen() {
                 <ThemedText style={styles.documentDate}>
                   {formatDate(doc.createdAt)}
                 </ThemedText>
+                {doc.normalizedData && isPromptOutdated(doc, extractionModel) && (
+                  <ThemedText style={styles.outdatedText}>Extracted with an older prompt or model</ThemedText>
+                )}
                 {doc.normalizedData && (
                   <ThemedView style={styles.documentTags}>
                     {doc.normalizedData.documentType && (
@@ -270,12 +824,87 @@ export default function DocumentsScreen() {
                     )}
                   </ThemedView>
                 )}
+                <ThemedView style={styles.documentActions}>
+                  {doc.filePaths && doc.filePaths.length > 0 && (
+                    <TouchableOpacity onPress={() => viewOriginal(doc)}>
+                      <ThemedText style={[styles.documentActionText, { color: Colors[colorScheme ?? 'light'].tint }]}>
+                        View original
+                      </ThemedText>
+                    </TouchableOpacity>
+                  )}
+                  {canReprocess(doc) && (
+                    <TouchableOpacity onPress={() => reprocessDocuments([doc])} disabled={isUploading}>
+                      <ThemedText style={[styles.documentActionText, { color: Colors[colorScheme ?? 'light'].tint }]}>
+                        Re-extract
+                      </ThemedText>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity onPress={() => deleteDocument(doc)}>
+                    <ThemedText style={[styles.documentActionText, styles.deleteText]}>Delete</ThemedText>
+                  </TouchableOpacity>
+                </ThemedView>
               </ThemedView>
-            </ThemedView>
+            </TouchableOpacity>
           ))
         )}
       </ThemedView>
 
+      {/* Review Modal */}
+      <Modal
+        visible={!!pendingReview}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        <ThemedView style={styles.modalContainer}>
+          <ThemedView style={styles.modalHeader}>
+            <ThemedText type="title">Review Extracted Data</ThemedText>
+          </ThemedView>
+          {pendingReview && saveProgress && (
+            <UploadProgressView style={styles.uploadProgress} fileName={pendingReview.fileName} progress={saveProgress} />
+          )}
+          {pendingReview && (
+            <ExtractedDataReview
+              data={pendingReview.result.normalizedData}
+              fileName={pendingReview.fileName}
+              uploadedAt={pendingReview.createdAt}
+              rows={reviewRows}
+              onChangeRows={setReviewRows}
+              onConfirm={confirmReview}
+              onCancel={discardReview}
+              isSaving={isSavingReview}
+              redactions={pendingReview.result.redactions}
+            />
+          )}
+        </ThemedView>
+      </Modal>
+
+      {/* Re-extraction Diff Modal */}
+      <Modal
+        visible={!!pendingDiff}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        <ThemedView style={styles.modalContainer}>
+          <ThemedView style={styles.modalHeader}>
+            <ThemedText type="title">Compare Extraction</ThemedText>
+          </ThemedView>
+          {pendingDiff && saveProgress && (
+            <UploadProgressView style={styles.uploadProgress} fileName={pendingDiff.document.fileName} progress={saveProgress} />
+          )}
+          {pendingDiff && (
+            <ExtractionDiffView
+              fileName={pendingDiff.document.fileName}
+              entries={pendingDiff.entries}
+              previousSource={describeSource(pendingDiff.document)}
+              nextSource={describeSource(pendingDiff.job.result.provenance) ?? 'current prompt and model'}
+              onAccept={acceptDiff}
+              onDiscard={discardDiff}
+              isSaving={isSavingDiff}
+            />
+          )}
+        </ThemedView>
+      </Modal>
+
       {/* Extracted Data Modal */}
       <Modal
         visible={showExtractedData}
@@ -296,6 +925,7 @@ export default function DocumentsScreen() {
             <ExtractedDataView
               data={currentExtractedData}
               fileName={currentFileName}
+              redactions={currentRedactions}
             />
           )}
         </ThemedView>
@@ -331,6 +961,10 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  uploadProgress: {
+    marginHorizontal: 24,
+    marginTop: 16,
+  },
   warningCard: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -346,6 +980,25 @@ const styles = StyleSheet.create({
     fontSize: 14,
     lineHeight: 20,
   },
+  jobsList: {
+    paddingHorizontal: 24,
+    paddingTop: 24,
+  },
+  jobCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(128, 128, 128, 0.3)',
+    borderStyle: 'dashed',
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  jobStatus: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
   documentsList: {
     padding: 24,
   },
@@ -393,11 +1046,33 @@ const styles = StyleSheet.create({
     fontSize: 12,
     opacity: 0.6,
   },
+  reprocessAllButton: {
+    marginHorizontal: 24,
+    marginTop: 16,
+    alignItems: 'center',
+  },
+  outdatedText: {
+    fontSize: 12,
+    color: '#FF9500',
+    marginTop: 2,
+  },
   documentTags: {
     flexDirection: 'row',
     gap: 8,
     marginTop: 8,
   },
+  documentActions: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 8,
+  },
+  documentActionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  deleteText: {
+    color: '#FF3B30',
+  },
   tag: {
     paddingHorizontal: 8,
     paddingVertical: 4,
@@ -8,15 +8,18 @@ import {
   RefreshControl,
   Platform,
 } from 'react-native';
+import { router } from 'expo-router';
 import { ThemedView } from '@/components/ThemedView';
 import { ThemedText } from '@/components/ThemedText';
 import { IconSymbol } from '@/components/ui/IconSymbol';
+import { RangeFlagBadge } from '@/components/ExtractedDataView';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { Colors } from '@/constants/Colors';
 import authService from '@/services/authService';
 import supabaseService from '@/services/supabaseService';
 import healthKitService from '@/services/healthKitService';
 import { HealthMetric, HealthMetricType } from '@/types/health';
+import { formatLabValue, labValueFromMetric } from '@/utils/labValueParser';
 
 export default function HealthDataScreen() {
   const colorScheme = useColorScheme();
@@ -110,9 +113,12 @@ export default function HealthDataScreen() {
       const allMetrics = await healthKitService.getAllHealthData(startDate, endDate, user.id);
 
       if (allMetrics.length > 0) {
-        const success = await supabaseService.saveHealthMetricsBatch(allMetrics);
-        if (success) {
-          Alert.alert('Success', `Synced ${allMetrics.length} health metrics`);
+        const result = await supabaseService.upsertHealthMetrics(allMetrics);
+        if (result) {
+          Alert.alert(
+            'Success',
+            `Synced ${allMetrics.length} health metrics: ${result.inserted} new, ${result.updated} updated, ${result.unchanged} unchanged`
+          );
           await loadHealthData();
         } else {
           Alert.alert('Error', 'Failed to save health data. Please try again.');
@@ -129,6 +135,11 @@ export default function HealthDataScreen() {
   };
 
   const formatMetricValue = (metric: HealthMetric): string => {
+    // Censored, range, titer and qualitative lab results keep their qualifier
+    if (metric.value === null || (metric.valueKind && metric.valueKind !== 'numeric')) {
+      return formatLabValue(labValueFromMetric(metric), metric.unit);
+    }
+
     switch (metric.metricType) {
       case HealthMetricType.STEPS:
         return `${metric.value.toLocaleString()} steps`;
@@ -147,6 +158,18 @@ export default function HealthDataScreen() {
     }
   };
 
+  // Extracted metrics link back to the document, page and line they were read from
+  const describeSource = (metric: HealthMetric): string => {
+    const label = metric.sourceLabel ? `"${metric.sourceLabel}"` : 'a document';
+    const page = metric.sourcePage ? `, page ${metric.sourcePage}` : '';
+    return `From ${label}${page}`;
+  };
+
+  const openSourceDocument = (metric: HealthMetric) => {
+    if (!metric.documentId) return;
+    router.push({ pathname: '/documents', params: { documentId: metric.documentId } });
+  };
+
   const getMetricIcon = (type: HealthMetricType): string => {
     switch (type) {
       case HealthMetricType.STEPS:
@@ -259,7 +282,14 @@ export default function HealthDataScreen() {
         ) : (
           Object.entries(recentMetrics).map(([type, metrics]) => {
             const latestMetric = metrics[0];
-            const averageValue = metrics.reduce((sum, m) => sum + m.value, 0) / metrics.length;
+            // Only exact values can be averaged
+            const exactValues = metrics
+              .filter(m => !m.valueKind || m.valueKind === 'numeric')
+              .map(m => m.value)
+              .filter((value): value is number => value !== null);
+            const averageValue = exactValues.length > 0
+              ? exactValues.reduce((sum, value) => sum + value, 0) / exactValues.length
+              : null;
             
             return (
               <ThemedView key={type} style={styles.metricCard}>
@@ -274,12 +304,29 @@ export default function HealthDataScreen() {
                   <ThemedText style={styles.metricType}>
                     {type.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}
                   </ThemedText>
-                  <ThemedText style={styles.metricLatest}>
-                    Latest: {formatMetricValue(latestMetric)}
-                  </ThemedText>
-                  <ThemedText style={styles.metricAverage}>
-                    7-day avg: {formatMetricValue({ ...latestMetric, value: averageValue })}
-                  </ThemedText>
+                  <ThemedView style={styles.metricLatestRow}>
+                    <ThemedText style={styles.metricLatest}>
+                      Latest: {formatMetricValue(latestMetric)}
+                    </ThemedText>
+                    <RangeFlagBadge flag={latestMetric.rangeFlag} />
+                  </ThemedView>
+                  {latestMetric.documentId && (
+                    <TouchableOpacity onPress={() => openSourceDocument(latestMetric)}>
+                      <ThemedText style={[styles.metricSource, { color: Colors[colorScheme ?? 'light'].tint }]}>
+                        {describeSource(latestMetric)}
+                      </ThemedText>
+                      {latestMetric.sourceSnippet && (
+                        <ThemedText style={styles.metricSnippet} numberOfLines={1}>
+                          {latestMetric.sourceSnippet}
+                        </ThemedText>
+                      )}
+                    </TouchableOpacity>
+                  )}
+                  {averageValue !== null && (
+                    <ThemedText style={styles.metricAverage}>
+                      7-day avg: {formatMetricValue({ ...latestMetric, value: averageValue, valueKind: 'numeric' })}
+                    </ThemedText>
+                  )}
                 </ThemedView>
                 <ThemedText style={styles.metricCount}>
                   {metrics.length} records
@@ -390,6 +437,11 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginBottom: 4,
   },
+  metricLatestRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
   metricLatest: {
     fontSize: 14,
     marginBottom: 2,
@@ -398,6 +450,15 @@ const styles = StyleSheet.create({
     fontSize: 12,
     opacity: 0.6,
   },
+  metricSource: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  metricSnippet: {
+    fontSize: 11,
+    opacity: 0.5,
+    fontStyle: 'italic',
+  },
   metricCount: {
     fontSize: 12,
     opacity: 0.6,
@@ -9,6 +9,8 @@ import authService from '@/services/authService';
 import supabaseService from '@/services/supabaseService';
 import geminiService from '@/services/geminiService';
 import { DailySummary } from '@/types/health';
+import { isPromptOutdated } from '@/utils/promptRegistry';
+import { confirmWithinBudget } from '@/utils/budgetAlerts';
 
 export default function DashboardScreen() {
   const colorScheme = useColorScheme();
@@ -21,6 +23,8 @@ export default function DashboardScreen() {
     sleep: number;
   }>({ steps: 0, heartRate: 0, sleep: 0 });
   const [hasApiKey, setHasApiKey] = useState(false);
+  // The model summaries now run on; a summary written by another is outdated
+  const [summaryModel, setSummaryModel] = useState<string | null>(null);
 
   useEffect(() => {
     loadDashboardData();
@@ -34,6 +38,7 @@ export default function DashboardScreen() {
       // Check API key status
       const apiKeyExists = await authService.hasGeminiApiKey();
       setHasApiKey(apiKeyExists);
+      setSummaryModel(await geminiService.getCurrentModel('summary'));
 
       // Load latest daily summary
       const summary = await supabaseService.getLatestDailySummary(user.id);
@@ -50,16 +55,16 @@ export default function DashboardScreen() {
       // Calculate aggregates
       const steps = metrics
         .filter(m => m.metricType === 'steps')
-        .reduce((sum, m) => sum + m.value, 0);
+        .reduce((sum, m) => sum + (m.value ?? 0), 0);
       
       const heartRates = metrics.filter(m => m.metricType === 'heart_rate');
       const avgHeartRate = heartRates.length > 0
-        ? Math.round(heartRates.reduce((sum, m) => sum + m.value, 0) / heartRates.length)
+        ? Math.round(heartRates.reduce((sum, m) => sum + (m.value ?? 0), 0) / heartRates.length)
         : 0;
       
       const sleep = metrics
         .filter(m => m.metricType === 'sleep_hours')
-        .reduce((sum, m) => sum + m.value, 0);
+        .reduce((sum, m) => sum + (m.value ?? 0), 0);
 
       setTodayMetrics({ steps, heartRate: avgHeartRate, sleep });
     } catch (error) {
@@ -77,6 +82,7 @@ export default function DashboardScreen() {
 
   const generateDailySummary = async () => {
     if (!hasApiKey) return;
+    if (!(await confirmWithinBudget('summary'))) return;
     
     setIsLoading(true);
     try {
@@ -88,15 +94,20 @@ export default function DashboardScreen() {
       const startDate = new Date();
       startDate.setDate(startDate.getDate() - 1);
 
-      const [metrics, documents] = await Promise.all([
+      const [metrics, documents, conditions] = await Promise.all([
         supabaseService.getHealthMetrics(user.id, startDate, endDate),
         supabaseService.getHealthDocuments(user.id),
+        supabaseService.getConditions(user.id),
       ]);
 
       // Generate summary with Gemini
       const summary = await geminiService.generateDailySummary({
         metrics,
         documents: documents.slice(0, 5), // Last 5 documents
+        // The problem list gives the metrics context; resolved conditions are left out
+        conditions: (conditions ?? [])
+          .filter(condition => condition.status === 'active')
+          .map(({ name, icd10Code, icd10Display, onsetDate, status }) => ({ name, icd10Code, icd10Display, onsetDate, status })),
       });
 
       if (summary) {
@@ -106,6 +117,7 @@ export default function DashboardScreen() {
           summaryDate: new Date(),
           summaryText: summary.summaryText,
           keyInsights: summary.keyInsights,
+          ...summary.provenance,
         });
 
         if (savedSummary) {
@@ -194,6 +206,11 @@ export default function DashboardScreen() {
         ) : dailySummary ? (
           <ThemedView style={styles.summaryCard}>
             <ThemedText style={styles.summaryText}>{dailySummary.summaryText}</ThemedText>
+            {isPromptOutdated(dailySummary, summaryModel) && (
+              <ThemedText style={styles.outdatedText}>
+                Written with an older prompt or model. Refresh for an updated summary.
+              </ThemedText>
+            )}
             
             {dailySummary.keyInsights.length > 0 && (
               <ThemedView style={styles.insights}>
@@ -287,6 +304,11 @@ const styles = StyleSheet.create({
   summaryText: {
     lineHeight: 22,
   },
+  outdatedText: {
+    fontSize: 12,
+    color: '#FF9500',
+    marginTop: 8,
+  },
   noApiKey: {
     textAlign: 'center',
     opacity: 0.6,
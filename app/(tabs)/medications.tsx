@@ -0,0 +1,290 @@
+import React, { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+  View,
+} from 'react-native';
+import { router } from 'expo-router';
+import { useIsFocused } from '@react-navigation/native';
+import { ThemedView } from '@/components/ThemedView';
+import { ThemedText } from '@/components/ThemedText';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { Colors } from '@/constants/Colors';
+import authService from '@/services/authService';
+import supabaseService from '@/services/supabaseService';
+import { Medication, MedicationStatus } from '@/types/health';
+
+// Medication dates are calendar dates; parsed as local so they do not shift a day
+function formatDate(isoDate: string): string {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString();
+}
+
+export default function MedicationsScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const isFocused = useIsFocused();
+  const [medications, setMedications] = useState<Medication[]>([]);
+  const [documentNames, setDocumentNames] = useState<{ [documentId: string]: string }>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Documents saved while on another tab add medications, so the list is read on every visit
+  useEffect(() => {
+    if (isFocused) {
+      loadMedications();
+    }
+  }, [isFocused]);
+
+  const loadMedications = async () => {
+    try {
+      const user = await authService.getCurrentUser();
+      if (!user) return;
+
+      const [stored, documents] = await Promise.all([
+        supabaseService.getMedications(user.id),
+        supabaseService.getHealthDocuments(user.id),
+      ]);
+      setMedications(stored ?? []);
+      setDocumentNames(Object.fromEntries(documents.map(doc => [doc.id, doc.fileName])));
+    } catch (error) {
+      console.error('Error loading medications:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadMedications();
+    setRefreshing(false);
+  };
+
+  const setStatus = async (medication: Medication, status: MedicationStatus) => {
+    const updated = await supabaseService.updateMedicationStatus(medication.id, status);
+    if (!updated) {
+      Alert.alert('Update Failed', 'The medication could not be updated. Please try again.');
+      return;
+    }
+    setMedications(current => current.map(existing => (existing.id === updated.id ? updated : existing)));
+  };
+
+  const confirmStop = (medication: Medication) => {
+    Alert.alert(
+      'Stop Medication?',
+      `"${medication.name}" will move to stopped medications. A later document that lists it again makes it active.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Stop', onPress: () => setStatus(medication, 'stopped') },
+      ]
+    );
+  };
+
+  const confirmDelete = (medication: Medication) => {
+    Alert.alert(
+      'Remove Medication?',
+      `"${medication.name}" will be removed from the list. Documents that list it add it again when they are processed.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            if (!(await supabaseService.deleteMedication(medication.id))) {
+              Alert.alert('Remove Failed', 'The medication could not be removed. Please try again.');
+              return;
+            }
+            setMedications(current => current.filter(existing => existing.id !== medication.id));
+          },
+        },
+      ]
+    );
+  };
+
+  const openSourceDocument = (medication: Medication) => {
+    if (!medication.documentId) return;
+    router.push({ pathname: '/documents', params: { documentId: medication.documentId } });
+  };
+
+  const renderMedication = (medication: Medication) => {
+    const schedule = [medication.dosage, medication.frequency].filter(Boolean).join(' · ');
+    const sourceName = medication.documentId ? documentNames[medication.documentId] : undefined;
+
+    return (
+      <ThemedView key={medication.id} style={styles.medicationCard}>
+        <View style={styles.medicationHeader}>
+          <ThemedText style={styles.medicationName}>{medication.name}</ThemedText>
+          <View style={styles.actions}>
+            <TouchableOpacity
+              onPress={() => (medication.status === 'active' ? confirmStop(medication) : setStatus(medication, 'active'))}
+            >
+              <ThemedText style={[styles.actionText, { color: colors.tint }]}>
+                {medication.status === 'active' ? 'Stop' : 'Resume'}
+              </ThemedText>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => confirmDelete(medication)}>
+              <ThemedText style={[styles.actionText, styles.deleteText]}>Remove</ThemedText>
+            </TouchableOpacity>
+          </View>
+        </View>
+        {schedule ? <ThemedText style={styles.schedule}>{schedule}</ThemedText> : null}
+        <ThemedText style={styles.detail}>
+          {medication.startDate ? `Since ${formatDate(medication.startDate)}` : 'Start date unknown'}
+          {medication.status === 'stopped' && medication.stoppedDate ? ` · stopped ${formatDate(medication.stoppedDate)}` : ''}
+        </ThemedText>
+        {medication.provider && (
+          <ThemedText style={styles.detail}>Prescribed by {medication.provider}</ThemedText>
+        )}
+        {medication.documentId && (
+          <TouchableOpacity onPress={() => openSourceDocument(medication)}>
+            <ThemedText style={[styles.source, { color: colors.tint }]}>
+              From {sourceName ? `"${sourceName}"` : 'a document'}
+              {medication.lastSeenDate ? ` of ${formatDate(medication.lastSeenDate)}` : ''}
+            </ThemedText>
+          </TouchableOpacity>
+        )}
+      </ThemedView>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <ThemedView style={styles.container}>
+        <ActivityIndicator size="large" />
+      </ThemedView>
+    );
+  }
+
+  const active = medications.filter(medication => medication.status === 'active');
+  const stopped = medications.filter(medication => medication.status === 'stopped');
+
+  return (
+    <ScrollView
+      style={styles.container}
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+      }
+    >
+      <ThemedView style={styles.header}>
+        <ThemedText type="title">Medications</ThemedText>
+        <ThemedText style={styles.subtitle}>
+          Collected from your documents
+        </ThemedText>
+      </ThemedView>
+
+      <ThemedView style={styles.section}>
+        <ThemedText type="subtitle" style={styles.sectionTitle}>
+          Active ({active.length})
+        </ThemedText>
+
+        {active.length === 0 ? (
+          <ThemedView style={styles.emptyState}>
+            <IconSymbol name="pills.fill" size={48} color={colors.text + '40'} />
+            <ThemedText style={styles.emptyText}>
+              No active medications
+            </ThemedText>
+            <ThemedText style={styles.emptySubtext}>
+              Medications on prescriptions and reports you upload appear here
+            </ThemedText>
+          </ThemedView>
+        ) : (
+          active.map(renderMedication)
+        )}
+      </ThemedView>
+
+      {stopped.length > 0 && (
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle" style={styles.sectionTitle}>
+            Stopped ({stopped.length})
+          </ThemedText>
+          {stopped.map(renderMedication)}
+        </ThemedView>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    padding: 24,
+    paddingTop: 60,
+  },
+  subtitle: {
+    opacity: 0.6,
+    marginTop: 4,
+  },
+  section: {
+    paddingHorizontal: 24,
+    paddingBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginBottom: 16,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 16,
+    opacity: 0.8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    marginTop: 8,
+    opacity: 0.6,
+    textAlign: 'center',
+  },
+  medicationCard: {
+    padding: 16,
+    backgroundColor: 'rgba(128, 128, 128, 0.1)',
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  medicationHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: 12,
+    marginBottom: 4,
+  },
+  medicationName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  deleteText: {
+    color: '#FF3B30',
+  },
+  schedule: {
+    fontSize: 14,
+    marginBottom: 2,
+  },
+  detail: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  source: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+});
@@ -10,15 +10,30 @@ import {
   Platform,
 } from 'react-native';
 import { router } from 'expo-router';
+import { useIsFocused } from '@react-navigation/native';
 import { ThemedView } from '@/components/ThemedView';
 import { ThemedText } from '@/components/ThemedText';
 import { IconSymbol } from '@/components/ui/IconSymbol';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { useThemeColor } from '@/hooks/useThemeColor';
 import { Colors } from '@/constants/Colors';
+import { LLMProviderSettings } from '@/components/LLMProviderSettings';
+import { UsageDashboard } from '@/components/UsageDashboard';
+import { PrivacySettings } from '@/components/PrivacySettings';
 import authService from '@/services/authService';
 import storageService from '@/services/storageService';
 import geminiService from '@/services/geminiService';
+import usageService from '@/services/usageService';
+import { LLM_PROVIDERS } from '@/services/llmProviders';
+import { LLMProviderConfig, LLMProviderId, LLMTask } from '@/types/llm';
+import { UsageBudget, UsageSummary } from '@/types/usage';
+import { RedactionSettings } from '@/types/redaction';
+
+async function fetchProviderConfigs() {
+  const providerIds = Object.keys(LLM_PROVIDERS) as LLMProviderId[];
+  const configs = await Promise.all(providerIds.map(id => storageService.getProviderConfig(id)));
+  return Object.fromEntries(providerIds.map((id, i) => [id, configs[i]]));
+}
 
 export default function SettingsScreen() {
   const colorScheme = useColorScheme();
@@ -30,17 +45,118 @@ export default function SettingsScreen() {
   const [showApiKeyInput, setShowApiKeyInput] = useState(false);
   const [apiKey, setApiKey] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [taskProviders, setTaskProviders] = useState<{ [task in LLMTask]: LLMProviderId }>({
+    extraction: 'gemini',
+    summary: 'gemini',
+  });
+  const [providerConfigs, setProviderConfigs] = useState<{ [id in LLMProviderId]?: LLMProviderConfig | null }>({});
+  const [usageSummary, setUsageSummary] = useState<UsageSummary | null>(null);
+  const [usageBudget, setUsageBudget] = useState<UsageBudget>({});
+  const [redactionSettings, setRedactionSettings] = useState<RedactionSettings>({ enabled: false, customTerms: [] });
+  const isFocused = useIsFocused();
 
   useEffect(() => {
     loadUserData();
   }, []);
 
+  // Usage changes as documents are processed on other tabs
+  useEffect(() => {
+    if (!isFocused) return;
+    usageService.getSummary().then(setUsageSummary);
+    storageService.getUsageBudget().then(setUsageBudget);
+  }, [isFocused]);
+
   const loadUserData = async () => {
     const currentUser = await authService.getCurrentUser();
     setUser(currentUser);
 
-    const apiKeyExists = await authService.hasGeminiApiKey();
-    setHasApiKey(apiKeyExists);
+    // The card below is for Gemini only, whichever provider extraction uses
+    const geminiApiKey = process.env.EXPO_PUBLIC_GEMINI_API_KEY || await storageService.getGeminiApiKey();
+    setHasApiKey(!!geminiApiKey);
+
+    setTaskProviders(await storageService.getTaskProviders());
+    setProviderConfigs(await fetchProviderConfigs());
+    setRedactionSettings(await storageService.getRedactionSettings());
+  };
+
+  const loadProviderConfigs = async () => {
+    setProviderConfigs(await fetchProviderConfigs());
+  };
+
+  const handleSelectTaskProvider = async (task: LLMTask, providerId: LLMProviderId) => {
+    await storageService.setTaskProvider(task, providerId);
+    setTaskProviders(current => ({ ...current, [task]: providerId }));
+
+    const provider = LLM_PROVIDERS[providerId];
+    const isConfigured = providerId === 'gemini' ? hasApiKey : !!providerConfigs[providerId];
+    if (!isConfigured && provider.requiresApiKey) {
+      Alert.alert('Setup needed', `Add an API key for ${provider.label} before using it.`);
+    }
+  };
+
+  const handleSaveProviderConfig = async (providerId: LLMProviderId, config: LLMProviderConfig): Promise<boolean> => {
+    const provider = LLM_PROVIDERS[providerId];
+    if (provider.requiresApiKey && !config.apiKey) {
+      Alert.alert('Error', `Please enter an API key for ${provider.label}`);
+      return false;
+    }
+
+    try {
+      const isValid = await geminiService.testProvider(providerId, config);
+      if (!isValid) {
+        Alert.alert('Connection Failed', `${provider.label} did not respond. Check the base URL, model and API key.`);
+        return false;
+      }
+
+      await storageService.setProviderConfig(providerId, config);
+      await loadProviderConfigs();
+      Alert.alert('Success', `${provider.label} settings saved.`);
+      return true;
+    } catch (error) {
+      console.error('Error saving provider settings:', error);
+      Alert.alert('Connection Failed', `Could not reach ${provider.label}. Check the base URL, model and API key.`);
+      return false;
+    }
+  };
+
+  const handleSaveUsageBudget = async (budget: UsageBudget) => {
+    try {
+      await storageService.setUsageBudget(budget);
+      setUsageBudget(budget);
+      Alert.alert('Success', 'Budget saved.');
+    } catch (error) {
+      console.error('Error saving usage budget:', error);
+      Alert.alert('Error', 'Failed to save budget');
+    }
+  };
+
+  const handleSaveRedactionSettings = async (settings: RedactionSettings) => {
+    try {
+      await storageService.setRedactionSettings(settings);
+      setRedactionSettings(settings);
+    } catch (error) {
+      console.error('Error saving redaction settings:', error);
+      Alert.alert('Error', 'Failed to save privacy settings');
+    }
+  };
+
+  const handleRemoveProviderConfig = (providerId: LLMProviderId) => {
+    const provider = LLM_PROVIDERS[providerId];
+    Alert.alert(
+      'Remove Provider',
+      `Remove the settings for ${provider.label}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            await storageService.removeProviderConfig(providerId);
+            await loadProviderConfigs();
+          },
+        },
+      ]
+    );
   };
 
   const handleSaveApiKey = async () => {
@@ -55,6 +171,7 @@ export default function SettingsScreen() {
       
       if (isValid) {
         await storageService.setGeminiApiKey(apiKey.trim());
+        await loadProviderConfigs();
         setHasApiKey(true);
         setShowApiKeyInput(false);
         setApiKey('');
@@ -81,6 +198,7 @@ export default function SettingsScreen() {
           style: 'destructive',
           onPress: async () => {
             await storageService.removeGeminiApiKey();
+            await loadProviderConfigs();
             setHasApiKey(false);
             Alert.alert('API key removed', 'Your Gemini API key has been removed.');
           },
@@ -221,6 +339,34 @@ export default function SettingsScreen() {
               )}
             </ThemedView>
           )}
+
+          <LLMProviderSettings
+            taskProviders={taskProviders}
+            configs={providerConfigs}
+            onSelectTaskProvider={handleSelectTaskProvider}
+            onSaveConfig={handleSaveProviderConfig}
+            onRemoveConfig={handleRemoveProviderConfig}
+          />
+        </ThemedView>
+
+        {/* Privacy Section */}
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle" style={styles.sectionTitle}>
+            Privacy
+          </ThemedText>
+          <PrivacySettings settings={redactionSettings} onSave={handleSaveRedactionSettings} />
+        </ThemedView>
+
+        {/* AI Usage Section */}
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle" style={styles.sectionTitle}>
+            AI Usage
+          </ThemedText>
+          <UsageDashboard
+            summary={usageSummary}
+            budget={usageBudget}
+            onSaveBudget={handleSaveUsageBudget}
+          />
         </ThemedView>
 
         {/* About Section */}
@@ -239,7 +385,7 @@ export default function SettingsScreen() {
             </ThemedView>
             <ThemedView style={styles.aboutItem}>
               <ThemedText style={styles.aboutLabel}>AI Provider</ThemedText>
-              <ThemedText style={styles.aboutValue}>Google Gemini</ThemedText>
+              <ThemedText style={styles.aboutValue}>{LLM_PROVIDERS[taskProviders.extraction].label}</ThemedText>
             </ThemedView>
           </ThemedView>
         </ThemedView>
@@ -0,0 +1,324 @@
+import React from 'react';
+import { View, ScrollView, StyleSheet, TextInput, TouchableOpacity, Switch, ActivityIndicator } from 'react-native';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { ConfidenceFlag } from '@/components/ExtractedDataView';
+import { RedactionList } from '@/components/RedactionList';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { ExtractedMetricRow } from '@/types/document';
+import { NormalizedHealthData } from '@/types/health';
+import { Redaction } from '@/types/redaction';
+import { normalizeMeasurement } from '@/utils/unitRegistry';
+import { getLoincCodeForMetricType } from '@/utils/loincTerminology';
+import { formatLabValue, parseLabValue } from '@/utils/labValueParser';
+
+interface ExtractedDataReviewProps {
+  data: NormalizedHealthData;
+  fileName: string;
+  // Dates rows the user adds when the document prints no date
+  uploadedAt: string;
+  rows: ExtractedMetricRow[];
+  onChangeRows: (rows: ExtractedMetricRow[]) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+  isSaving: boolean;
+  redactions?: Redaction[];
+}
+
+export function ExtractedDataReview({
+  data,
+  fileName,
+  uploadedAt,
+  rows,
+  onChangeRows,
+  onConfirm,
+  onCancel,
+  isSaving,
+  redactions = [],
+}: ExtractedDataReviewProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const borderColor = useThemeColor({ light: '#E0E0E0', dark: '#404040' }, 'text');
+  const includedCount = rows.filter(row => row.include).length;
+
+  const updateRow = (id: string, changes: Partial<ExtractedMetricRow>) => {
+    onChangeRows(rows.map(row => (row.id === id ? { ...row, ...changes } : row)));
+  };
+
+  // The parts of a compound reading such as blood pressure are saved together or not at all
+  const setIncluded = (target: ExtractedMetricRow, include: boolean) => {
+    onChangeRows(rows.map(row =>
+      row.id === target.id || (target.pairId && row.pairId === target.pairId) ? { ...row, include } : row
+    ));
+  };
+
+  const addRow = () => {
+    onChangeRows([
+      ...rows,
+      {
+        id: `manual-${Date.now()}`,
+        section: 'manual',
+        label: '',
+        value: '',
+        unit: '',
+        metricType: '',
+        loincCode: null,
+        recordedAt: data.date || uploadedAt,
+        include: true,
+      },
+    ]);
+  };
+
+  // How the value will be stored: its parsed form, converted to the metric's canonical unit
+  const storedPreview = (row: ExtractedMetricRow): string | null => {
+    const labValue = parseLabValue(row.value);
+    if (labValue.kind === 'unparseable') return row.value.trim() ? 'Value not recognized' : null;
+    if (labValue.kind === 'qualitative' || labValue.kind === 'titer' || !row.metricType) {
+      return `Saved as ${formatLabValue(labValue, row.unit.trim())}`;
+    }
+
+    const measurement = normalizeMeasurement(row.metricType, labValue.value, row.unit);
+    const converted = labValue.kind === 'range'
+      ? { ...labValue, value: measurement.value, high: normalizeMeasurement(row.metricType, labValue.high, row.unit).value }
+      : { ...labValue, value: measurement.value };
+    return `Saved as ${formatLabValue(converted, measurement.unit)}`;
+  };
+
+  const inputStyle = [styles.input, { color: colors.text, borderColor }];
+
+  return (
+    <View style={styles.container}>
+      <ScrollView style={styles.scroll} keyboardShouldPersistTaps="handled">
+        <ThemedView style={styles.header}>
+          <ThemedText type="subtitle" style={[styles.title, { color: colors.tint }]}>
+            📄 {fileName}
+          </ThemedText>
+          <ThemedText style={styles.hint}>
+            Check each value against the document. Edit values, units or metric types, switch off rows that
+            should not be saved, and add anything that was missed. Nothing is saved until you confirm.
+          </ThemedText>
+        </ThemedView>
+
+        <RedactionList redactions={redactions} />
+
+        {rows.length === 0 && (
+          <ThemedText style={styles.emptyText}>
+            No lab results or vital signs were found in this document.
+          </ThemedText>
+        )}
+
+        {rows.map(row => {
+          const preview = row.include ? storedPreview(row) : null;
+          return (
+          <View
+            key={row.id}
+            style={[styles.rowCard, { borderColor: colors.text + '20' }, !row.include && styles.rowExcluded]}
+          >
+            <View style={styles.rowHeader}>
+              {row.section === 'manual' ? (
+                <TextInput
+                  style={[inputStyle, styles.labelInput]}
+                  placeholder="Test name"
+                  placeholderTextColor={colors.text + '60'}
+                  value={row.label}
+                  onChangeText={label => updateRow(row.id, { label })}
+                />
+              ) : (
+                <ThemedText style={styles.testName}>{row.label}</ThemedText>
+              )}
+              <Switch value={row.include} onValueChange={include => setIncluded(row, include)} />
+            </View>
+
+            <View style={styles.fieldRow}>
+              <View style={styles.field}>
+                <ThemedText style={styles.fieldLabel}>Value</ThemedText>
+                <TextInput
+                  style={inputStyle}
+                  value={row.value}
+                  onChangeText={value => updateRow(row.id, { value })}
+                  editable={row.include}
+                />
+              </View>
+              <View style={styles.field}>
+                <ThemedText style={styles.fieldLabel}>Unit</ThemedText>
+                <TextInput
+                  style={inputStyle}
+                  value={row.unit}
+                  onChangeText={unit => updateRow(row.id, { unit })}
+                  autoCapitalize="none"
+                  editable={row.include}
+                />
+              </View>
+            </View>
+
+            <ThemedText style={styles.fieldLabel}>Metric type</ThemedText>
+            <TextInput
+              style={inputStyle}
+              placeholder="e.g. blood_glucose"
+              placeholderTextColor={colors.text + '60'}
+              value={row.metricType}
+              onChangeText={text => {
+                const metricType = text.trim().toLowerCase();
+                updateRow(row.id, { metricType, loincCode: getLoincCodeForMetricType(metricType) });
+              }}
+              autoCapitalize="none"
+              autoCorrect={false}
+              editable={row.include}
+            />
+
+            <ThemedText style={styles.codeText}>
+              {row.loincCode ? `LOINC ${row.loincCode}` : 'Not a recognized test, check the metric type'}
+            </ThemedText>
+
+            {preview && (
+              <ThemedText style={styles.storedPreview}>{preview}</ThemedText>
+            )}
+
+            <ConfidenceFlag item={row} />
+          </View>
+          );
+        })}
+
+        <TouchableOpacity style={[styles.addButton, { borderColor: colors.tint }]} onPress={addRow}>
+          <ThemedText style={[styles.addButtonText, { color: colors.tint }]}>+ Add a missed result</ThemedText>
+        </TouchableOpacity>
+      </ScrollView>
+
+      <ThemedView style={[styles.footer, { borderTopColor: borderColor }]}>
+        <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onCancel} disabled={isSaving}>
+          <ThemedText style={styles.cancelButtonText}>Discard</ThemedText>
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.button, styles.confirmButton]} onPress={onConfirm} disabled={isSaving}>
+          {isSaving ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <ThemedText style={styles.confirmButtonText}>
+              Save {includedCount} {includedCount === 1 ? 'metric' : 'metrics'}
+            </ThemedText>
+          )}
+        </TouchableOpacity>
+      </ThemedView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scroll: {
+    flex: 1,
+    padding: 16,
+  },
+  header: {
+    marginBottom: 16,
+  },
+  title: {
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 14,
+    lineHeight: 20,
+    opacity: 0.7,
+  },
+  emptyText: {
+    textAlign: 'center',
+    opacity: 0.6,
+    marginVertical: 24,
+  },
+  rowCard: {
+    padding: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderRadius: 8,
+  },
+  rowExcluded: {
+    opacity: 0.5,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    marginBottom: 8,
+  },
+  testName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  labelInput: {
+    flex: 1,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  field: {
+    flex: 1,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 15,
+    marginBottom: 8,
+  },
+  codeText: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginBottom: 4,
+  },
+  storedPreview: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  addButton: {
+    padding: 14,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    alignItems: 'center',
+    marginBottom: 32,
+  },
+  addButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  footer: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 16,
+    paddingBottom: 32,
+    borderTopWidth: 1,
+  },
+  button: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: 'rgba(128, 128, 128, 0.2)',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  confirmButton: {
+    backgroundColor: '#007AFF',
+  },
+  confirmButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
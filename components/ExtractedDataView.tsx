@@ -2,49 +2,59 @@ import React from 'react';
 import { View, ScrollView, StyleSheet } from 'react-native';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
+import { RedactionList } from '@/components/RedactionList';
 import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { ExtractionConfidence, NormalizedHealthData, RangeFlag } from '@/types/health';
+import { Redaction } from '@/types/redaction';
+import { isLowConfidence } from '@/utils/healthDataProcessor';
+import { matchTestName } from '@/utils/loincTerminology';
+import { parseLabValue } from '@/utils/labValueParser';
+import { assessResult, parseReferenceRange } from '@/utils/referenceRangeParser';
 
-interface LabResult {
-  test: string;
-  value: string;
-  unit: string;
-  referenceRange: string;
-  date: string;
+interface ExtractedDataViewProps {
+  data: NormalizedHealthData;
+  fileName: string;
+  // Personal identifiers masked before extraction, from the mapping kept on the device
+  redactions?: Redaction[];
 }
 
-interface Vital {
-  type: string;
-  value: number;
-  unit: string;
-  date: string;
-}
+export function ConfidenceFlag({ item }: { item: ExtractionConfidence }) {
+  if (!isLowConfidence(item)) return null;
 
-interface ExtractedData {
-  documentType?: string;
-  date?: string;
-  provider?: string;
-  labResults?: LabResult[];
-  vitals?: Vital[];
-  diagnoses?: {
-    condition: string;
-    date: string;
-    notes: string;
-  }[];
-  medications?: {
-    name: string;
-    dosage: string;
-    frequency: string;
-  }[];
-  notes?: string;
+  return (
+    <View style={styles.confidenceFlag}>
+      <ThemedText style={styles.confidenceFlagTitle}>
+        ⚠️ Low confidence ({Math.round((item.confidence ?? 0) * 100)}%)
+      </ThemedText>
+      {item.confidenceReasons?.map((reason, index) => (
+        <ThemedText key={index} style={styles.confidenceReason}>
+          • {reason}
+        </ThemedText>
+      ))}
+    </View>
+  );
 }
 
-interface ExtractedDataViewProps {
-  data: ExtractedData;
-  fileName: string;
+const RANGE_FLAG_STYLES: { [flag in RangeFlag]: { label: string; color: string } } = {
+  normal: { label: 'Normal', color: '#34C759' },
+  low: { label: 'Low', color: '#FF9500' },
+  high: { label: 'High', color: '#FF9500' },
+  critical: { label: 'Critical', color: '#FF3B30' },
+};
+
+export function RangeFlagBadge({ flag }: { flag?: RangeFlag | null }) {
+  if (!flag) return null;
+
+  const { label, color } = RANGE_FLAG_STYLES[flag];
+  return (
+    <View style={[styles.rangeFlag, { backgroundColor: color + '20' }]}>
+      <ThemedText style={[styles.rangeFlagText, { color }]}>{label}</ThemedText>
+    </View>
+  );
 }
 
-export function ExtractedDataView({ data, fileName }: ExtractedDataViewProps) {
+export function ExtractedDataView({ data, fileName, redactions = [] }: ExtractedDataViewProps) {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
 
@@ -52,6 +62,19 @@ export function ExtractedDataView({ data, fileName }: ExtractedDataViewProps) {
     return unit ? `${value} ${unit}` : String(value);
   };
 
+  const rangeFlag = (name: string, value: string | number, unit?: string, referenceRange?: string) => {
+    const { metricType } = matchTestName(name);
+    const range = parseReferenceRange(referenceRange, data.patient);
+    return assessResult(metricType, parseLabValue(value), unit ?? '', range).flag;
+  };
+
+  const lowConfidenceCount = [
+    ...(data.labResults ?? []),
+    ...(data.vitals ?? []),
+    ...(data.medications ?? []),
+    ...(data.diagnoses ?? []),
+  ].filter(isLowConfidence).length;
+
   const formatDate = (dateString: string) => {
     try {
       return new Date(dateString).toLocaleDateString('en-US', {
@@ -85,8 +108,15 @@ export function ExtractedDataView({ data, fileName }: ExtractedDataViewProps) {
             Provider: {data.provider}
           </ThemedText>
         )}
+        {lowConfidenceCount > 0 && (
+          <ThemedText style={styles.lowConfidenceSummary}>
+            {lowConfidenceCount} {lowConfidenceCount === 1 ? 'item has' : 'items have'} low confidence and {lowConfidenceCount === 1 ? 'is' : 'are'} not saved automatically. Check them against the original document.
+          </ThemedText>
+        )}
       </ThemedView>
 
+      <RedactionList redactions={redactions} />
+
       {data.labResults && data.labResults.length > 0 && (
         <ThemedView style={styles.section}>
           <ThemedText type="subtitle" style={[styles.sectionTitle, { color: colors.tint }]}>
@@ -94,7 +124,10 @@ export function ExtractedDataView({ data, fileName }: ExtractedDataViewProps) {
           </ThemedText>
           {data.labResults.map((result, index) => (
             <View key={index} style={[styles.resultCard, { borderColor: colors.text + '20' }]}>
-              <ThemedText style={styles.testName}>{result.test}</ThemedText>
+              <View style={styles.resultRow}>
+                <ThemedText style={styles.testName}>{result.test}</ThemedText>
+                <RangeFlagBadge flag={rangeFlag(result.test, result.value, result.unit, result.referenceRange)} />
+              </View>
               <View style={styles.resultRow}>
                 <ThemedText style={[styles.resultValue, { color: colors.tint }]}>
                   {formatValue(result.value, result.unit)}
@@ -110,6 +143,7 @@ export function ExtractedDataView({ data, fileName }: ExtractedDataViewProps) {
                   {formatDate(result.date)}
                 </ThemedText>
               )}
+              <ConfidenceFlag item={result} />
             </View>
           ))}
         </ThemedView>
@@ -122,7 +156,10 @@ export function ExtractedDataView({ data, fileName }: ExtractedDataViewProps) {
           </ThemedText>
           {data.vitals.map((vital, index) => (
             <View key={index} style={[styles.resultCard, { borderColor: colors.text + '20' }]}>
-              <ThemedText style={styles.testName}>{vital.type}</ThemedText>
+              <View style={styles.resultRow}>
+                <ThemedText style={styles.testName}>{vital.type}</ThemedText>
+                <RangeFlagBadge flag={rangeFlag(vital.type, vital.value, vital.unit)} />
+              </View>
               <ThemedText style={[styles.resultValue, { color: colors.tint }]}>
                 {formatValue(vital.value, vital.unit)}
               </ThemedText>
@@ -131,6 +168,7 @@ export function ExtractedDataView({ data, fileName }: ExtractedDataViewProps) {
                   {formatDate(vital.date)}
                 </ThemedText>
               )}
+              <ConfidenceFlag item={vital} />
             </View>
           ))}
         </ThemedView>
@@ -144,12 +182,17 @@ export function ExtractedDataView({ data, fileName }: ExtractedDataViewProps) {
           {data.medications.map((med, index) => (
             <View key={index} style={[styles.resultCard, { borderColor: colors.text + '20' }]}>
               <ThemedText style={styles.testName}>{med.name}</ThemedText>
-              <ThemedText style={styles.dosage}>
-                Dosage: {med.dosage}
-              </ThemedText>
-              <ThemedText style={styles.frequency}>
-                Frequency: {med.frequency}
-              </ThemedText>
+              {med.dosage && (
+                <ThemedText style={styles.dosage}>
+                  Dosage: {med.dosage}
+                </ThemedText>
+              )}
+              {med.frequency && (
+                <ThemedText style={styles.frequency}>
+                  Frequency: {med.frequency}
+                </ThemedText>
+              )}
+              <ConfidenceFlag item={med} />
             </View>
           ))}
         </ThemedView>
@@ -171,6 +214,100 @@ export function ExtractedDataView({ data, fileName }: ExtractedDataViewProps) {
                   {formatDate(diagnosis.date)}
                 </ThemedText>
               )}
+              <ConfidenceFlag item={diagnosis} />
+            </View>
+          ))}
+        </ThemedView>
+      )}
+
+      {data.imaging && data.imaging.length > 0 && (
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle" style={[styles.sectionTitle, { color: colors.tint }]}>
+            🩻 Imaging
+          </ThemedText>
+          {data.imaging.map((study, index) => (
+            <View key={index} style={[styles.resultCard, { borderColor: colors.text + '20' }]}>
+              <ThemedText style={styles.testName}>{study.study}</ThemedText>
+              {(study.modality || study.bodyPart) && (
+                <ThemedText style={styles.dosage}>
+                  {[study.modality, study.bodyPart].filter(Boolean).join(' · ')}
+                </ThemedText>
+              )}
+              {study.findings && (
+                <ThemedText style={styles.notes}>Findings: {study.findings}</ThemedText>
+              )}
+              {study.impression && (
+                <ThemedText style={styles.impression}>Impression: {study.impression}</ThemedText>
+              )}
+              {study.date && (
+                <ThemedText style={styles.resultDate}>
+                  {formatDate(study.date)}
+                </ThemedText>
+              )}
+              <ConfidenceFlag item={study} />
+            </View>
+          ))}
+        </ThemedView>
+      )}
+
+      {data.vaccinations && data.vaccinations.length > 0 && (
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle" style={[styles.sectionTitle, { color: colors.tint }]}>
+            💉 Vaccinations
+          </ThemedText>
+          {data.vaccinations.map((dose, index) => (
+            <View key={index} style={[styles.resultCard, { borderColor: colors.text + '20' }]}>
+              <ThemedText style={styles.testName}>
+                {dose.vaccine}{dose.doseNumber !== undefined ? ` (dose ${dose.doseNumber})` : ''}
+              </ThemedText>
+              {dose.lotNumber && (
+                <ThemedText style={styles.dosage}>
+                  Lot: {dose.lotNumber}
+                </ThemedText>
+              )}
+              {(dose.manufacturer || dose.site) && (
+                <ThemedText style={styles.frequency}>
+                  {[dose.manufacturer, dose.site].filter(Boolean).join(' · ')}
+                </ThemedText>
+              )}
+              {dose.date && (
+                <ThemedText style={styles.resultDate}>
+                  {formatDate(dose.date)}
+                </ThemedText>
+              )}
+              <ConfidenceFlag item={dose} />
+            </View>
+          ))}
+        </ThemedView>
+      )}
+
+      {data.charges && data.charges.length > 0 && (
+        <ThemedView style={styles.section}>
+          <ThemedText type="subtitle" style={[styles.sectionTitle, { color: colors.tint }]}>
+            🧾 Charges
+          </ThemedText>
+          {data.charges.map((charge, index) => (
+            <View key={index} style={[styles.resultCard, { borderColor: colors.text + '20' }]}>
+              <View style={styles.resultRow}>
+                <ThemedText style={styles.testName}>{charge.description}</ThemedText>
+                {charge.code && (
+                  <ThemedText style={styles.referenceRange}>{charge.code}</ThemedText>
+                )}
+              </View>
+              <ThemedText style={[styles.resultValue, { color: colors.tint }]}>
+                {formatValue(charge.amount.toFixed(2), charge.currency)}
+              </ThemedText>
+              {charge.patientAmount !== undefined && (
+                <ThemedText style={styles.frequency}>
+                  You owe: {formatValue(charge.patientAmount.toFixed(2), charge.currency)}
+                </ThemedText>
+              )}
+              {charge.date && (
+                <ThemedText style={styles.resultDate}>
+                  {formatDate(charge.date)}
+                </ThemedText>
+              )}
+              <ConfidenceFlag item={charge} />
             </View>
           ))}
         </ThemedView>
@@ -270,4 +407,39 @@ const styles = StyleSheet.create({
     lineHeight: 20,
     opacity: 0.8,
   },
+  impression: {
+    fontSize: 14,
+    lineHeight: 20,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  lowConfidenceSummary: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginTop: 8,
+    color: '#E0A800',
+  },
+  confidenceFlag: {
+    marginTop: 8,
+    padding: 8,
+    borderRadius: 6,
+    backgroundColor: '#FFE66D20',
+  },
+  confidenceFlagTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  rangeFlag: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  rangeFlagText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  confidenceReason: {
+    fontSize: 12,
+    opacity: 0.8,
+  },
 });
\ No newline at end of file
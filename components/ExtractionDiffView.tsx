@@ -0,0 +1,218 @@
+import React from 'react';
+import { View, ScrollView, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { ExtractionDiffEntry } from '@/types/document';
+
+interface ExtractionDiffViewProps {
+  fileName: string;
+  entries: ExtractionDiffEntry[];
+  // Prompt version and model of the stored and the new extraction, when known
+  previousSource?: string;
+  nextSource: string;
+  onAccept: () => void;
+  onDiscard: () => void;
+  isSaving: boolean;
+}
+
+const SECTION_TITLES: { [section in ExtractionDiffEntry['section']]: string } = {
+  document: 'Document',
+  labResults: 'Lab Results',
+  vitals: 'Vital Signs',
+  medications: 'Medications',
+  diagnoses: 'Diagnoses',
+  imaging: 'Imaging',
+  vaccinations: 'Vaccinations',
+  charges: 'Charges',
+};
+
+const FIELD_LABELS: { [field: string]: string } = {
+  value: 'Value',
+  unit: 'Unit',
+  referenceRange: 'Reference range',
+  date: 'Date',
+  dosage: 'Dosage',
+  frequency: 'Frequency',
+  notes: 'Notes',
+  modality: 'Modality',
+  bodyPart: 'Body part',
+  findings: 'Findings',
+  impression: 'Impression',
+  doseNumber: 'Dose',
+  lotNumber: 'Lot number',
+  manufacturer: 'Manufacturer',
+  site: 'Site',
+  code: 'Code',
+  amount: 'Amount',
+  currency: 'Currency',
+  patientAmount: 'Patient owes',
+};
+
+const CHANGE_COLORS: { [change in ExtractionDiffEntry['change']]: string } = {
+  added: '#4ECDC4',
+  removed: '#FF6B6B',
+  changed: '#FF9500',
+};
+
+function describeEntry(entry: ExtractionDiffEntry): string {
+  switch (entry.change) {
+    case 'added':
+      return `Added${entry.after ? `: ${entry.after}` : ''}`;
+    case 'removed':
+      return `Removed${entry.before ? `: ${entry.before}` : ''}`;
+    case 'changed': {
+      const field = entry.section === 'document' ? '' : `${FIELD_LABELS[entry.field ?? ''] ?? entry.field}: `;
+      return `${field}${entry.before || '(none)'} → ${entry.after || '(none)'}`;
+    }
+  }
+}
+
+export function ExtractionDiffView({
+  fileName,
+  entries,
+  previousSource,
+  nextSource,
+  onAccept,
+  onDiscard,
+  isSaving,
+}: ExtractionDiffViewProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const borderColor = useThemeColor({ light: '#E0E0E0', dark: '#404040' }, 'text');
+  const sections = (Object.keys(SECTION_TITLES) as ExtractionDiffEntry['section'][])
+    .map(section => ({ section, items: entries.filter(entry => entry.section === section) }))
+    .filter(group => group.items.length > 0);
+
+  return (
+    <View style={styles.container}>
+      <ScrollView style={styles.scroll}>
+        <ThemedView style={styles.header}>
+          <ThemedText type="subtitle" style={styles.title}>{fileName}</ThemedText>
+          <ThemedText style={styles.hint}>
+            Previously: {previousSource ?? 'unknown prompt and model'}
+          </ThemedText>
+          <ThemedText style={styles.hint}>Now: {nextSource}</ThemedText>
+          <ThemedText style={styles.hint}>
+            The metrics read from this document are only replaced if you accept the new extraction.
+          </ThemedText>
+        </ThemedView>
+
+        {sections.length === 0 && (
+          <ThemedText style={styles.emptyText}>
+            The new extraction found the same data as before.
+          </ThemedText>
+        )}
+
+        {sections.map(({ section, items }) => (
+          <View key={section} style={styles.section}>
+            <ThemedText type="defaultSemiBold" style={styles.sectionTitle}>
+              {SECTION_TITLES[section]}
+            </ThemedText>
+            {items.map((entry, index) => (
+              <View
+                key={`${entry.label}-${entry.field ?? entry.change}-${index}`}
+                style={[styles.entry, { borderColor: colors.text + '20', borderLeftColor: CHANGE_COLORS[entry.change] }]}
+              >
+                <ThemedText style={styles.entryLabel}>{entry.label}</ThemedText>
+                <ThemedText style={[styles.entryChange, { color: CHANGE_COLORS[entry.change] }]}>
+                  {describeEntry(entry)}
+                </ThemedText>
+              </View>
+            ))}
+          </View>
+        ))}
+      </ScrollView>
+
+      <ThemedView style={[styles.footer, { borderTopColor: borderColor }]}>
+        <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onDiscard} disabled={isSaving}>
+          <ThemedText style={styles.cancelButtonText}>Keep Previous</ThemedText>
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.button, styles.confirmButton]} onPress={onAccept} disabled={isSaving}>
+          {isSaving ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <ThemedText style={styles.confirmButtonText}>Accept New</ThemedText>
+          )}
+        </TouchableOpacity>
+      </ThemedView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scroll: {
+    flex: 1,
+    padding: 16,
+  },
+  header: {
+    marginBottom: 16,
+  },
+  title: {
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 14,
+    lineHeight: 20,
+    opacity: 0.7,
+  },
+  emptyText: {
+    textAlign: 'center',
+    opacity: 0.6,
+    marginVertical: 24,
+  },
+  section: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    marginBottom: 8,
+  },
+  entry: {
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderLeftWidth: 4,
+    borderRadius: 8,
+  },
+  entryLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  entryChange: {
+    fontSize: 14,
+    marginTop: 2,
+  },
+  footer: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 16,
+    paddingBottom: 32,
+    borderTopWidth: 1,
+  },
+  button: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: 'rgba(128, 128, 128, 0.2)',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  confirmButton: {
+    backgroundColor: '#007AFF',
+  },
+  confirmButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
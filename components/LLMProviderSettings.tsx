@@ -0,0 +1,264 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, TextInput, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { LLM_PROVIDERS } from '@/services/llmProviders';
+import { LLMProviderConfig, LLMProviderId, LLMTask } from '@/types/llm';
+import { LLM_DEFAULT_BASE_URLS, LLM_DEFAULT_MODELS } from '@/utils/constants';
+
+type EndpointProviderId = keyof typeof LLM_DEFAULT_BASE_URLS;
+
+const TASK_LABELS: { [task in LLMTask]: string } = {
+  extraction: 'Document extraction',
+  summary: 'Daily summaries',
+};
+
+const PROVIDER_IDS = Object.keys(LLM_PROVIDERS) as LLMProviderId[];
+
+// Gemini is set up through the API key card and fixtures need no setup
+const CONFIGURABLE_PROVIDERS: EndpointProviderId[] = ['openai', 'local'];
+
+interface LLMProviderSettingsProps {
+  taskProviders: { [task in LLMTask]: LLMProviderId };
+  configs: { [id in LLMProviderId]?: LLMProviderConfig | null };
+  onSelectTaskProvider: (task: LLMTask, providerId: LLMProviderId) => void;
+  // Resolves to false when the connection test failed and nothing was saved
+  onSaveConfig: (providerId: LLMProviderId, config: LLMProviderConfig) => Promise<boolean>;
+  onRemoveConfig: (providerId: LLMProviderId) => void;
+}
+
+function ProviderConfigForm({
+  providerId,
+  config,
+  onSave,
+  onRemove,
+}: {
+  providerId: EndpointProviderId;
+  config: LLMProviderConfig | null | undefined;
+  onSave: (config: LLMProviderConfig) => Promise<boolean>;
+  onRemove: () => void;
+}) {
+  const textColor = useThemeColor({}, 'text');
+  const borderColor = useThemeColor({ light: '#E0E0E0', dark: '#404040' }, 'text');
+  const provider = LLM_PROVIDERS[providerId];
+  const [baseUrl, setBaseUrl] = useState(config?.baseUrl ?? '');
+  const [model, setModel] = useState(config?.model ?? '');
+  const [apiKey, setApiKey] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setBaseUrl(config?.baseUrl ?? '');
+    setModel(config?.model ?? '');
+  }, [config]);
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await onSave({
+        baseUrl: baseUrl.trim() || undefined,
+        model: model.trim() || LLM_DEFAULT_MODELS[providerId],
+        // Leaving the key empty keeps the one already saved
+        apiKey: apiKey.trim() || config?.apiKey,
+      });
+      if (saved) setApiKey('');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputStyle = [styles.input, { backgroundColor: borderColor + '10', color: textColor, borderColor }];
+
+  return (
+    <ThemedView style={styles.card}>
+      <ThemedText style={styles.providerName}>{provider.label}</ThemedText>
+      <ThemedText style={styles.status}>
+        {config ? `Configured: ${config.model}` : 'Not configured'}
+      </ThemedText>
+
+      <ThemedText style={styles.inputLabel}>Base URL</ThemedText>
+      <TextInput
+        style={inputStyle}
+        placeholder={LLM_DEFAULT_BASE_URLS[providerId]}
+        placeholderTextColor={textColor + '60'}
+        value={baseUrl}
+        onChangeText={setBaseUrl}
+        autoCapitalize="none"
+        autoCorrect={false}
+        keyboardType="url"
+        editable={!isSaving}
+      />
+
+      <ThemedText style={styles.inputLabel}>Model</ThemedText>
+      <TextInput
+        style={inputStyle}
+        placeholder={LLM_DEFAULT_MODELS[providerId]}
+        placeholderTextColor={textColor + '60'}
+        value={model}
+        onChangeText={setModel}
+        autoCapitalize="none"
+        autoCorrect={false}
+        editable={!isSaving}
+      />
+
+      <ThemedText style={styles.inputLabel}>
+        API key{provider.requiresApiKey ? '' : ' (optional)'}
+      </ThemedText>
+      <TextInput
+        style={inputStyle}
+        placeholder={config?.apiKey ? 'Saved; enter a new key to replace it' : 'Paste your API key here'}
+        placeholderTextColor={textColor + '60'}
+        value={apiKey}
+        onChangeText={setApiKey}
+        autoCapitalize="none"
+        autoCorrect={false}
+        secureTextEntry
+        editable={!isSaving}
+      />
+
+      <View style={styles.buttonRow}>
+        {config && (
+          <TouchableOpacity style={[styles.button, styles.secondaryButton]} onPress={onRemove} disabled={isSaving}>
+            <ThemedText style={styles.secondaryButtonText}>Remove</ThemedText>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity style={[styles.button, styles.primaryButton]} onPress={save} disabled={isSaving}>
+          {isSaving ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <ThemedText style={styles.primaryButtonText}>Test & Save</ThemedText>
+          )}
+        </TouchableOpacity>
+      </View>
+    </ThemedView>
+  );
+}
+
+export function LLMProviderSettings({
+  taskProviders,
+  configs,
+  onSelectTaskProvider,
+  onSaveConfig,
+  onRemoveConfig,
+}: LLMProviderSettingsProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  return (
+    <View style={styles.container}>
+      <ThemedView style={styles.card}>
+        {(Object.keys(TASK_LABELS) as LLMTask[]).map(task => (
+          <View key={task} style={styles.taskRow}>
+            <ThemedText style={styles.inputLabel}>{TASK_LABELS[task]}</ThemedText>
+            <View style={styles.chips}>
+              {PROVIDER_IDS.map(providerId => {
+                const selected = taskProviders[task] === providerId;
+                return (
+                  <TouchableOpacity
+                    key={providerId}
+                    style={[styles.chip, { borderColor: colors.tint }, selected && { backgroundColor: colors.tint }]}
+                    onPress={() => onSelectTaskProvider(task, providerId)}
+                  >
+                    <ThemedText style={[styles.chipText, { color: selected ? 'white' : colors.tint }]}>
+                      {LLM_PROVIDERS[providerId].label}
+                    </ThemedText>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        ))}
+      </ThemedView>
+
+      {CONFIGURABLE_PROVIDERS.map(providerId => (
+        <ProviderConfigForm
+          key={providerId}
+          providerId={providerId}
+          config={configs[providerId]}
+          onSave={config => onSaveConfig(providerId, config)}
+          onRemove={() => onRemoveConfig(providerId)}
+        />
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 16,
+    marginTop: 16,
+  },
+  card: {
+    backgroundColor: 'rgba(128, 128, 128, 0.1)',
+    borderRadius: 12,
+    padding: 16,
+  },
+  taskRow: {
+    marginBottom: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  providerName: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  status: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginBottom: 12,
+  },
+  inputLabel: {
+    fontSize: 14,
+    marginBottom: 8,
+    opacity: 0.8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  button: {
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    flex: 1,
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: '#FF6B6B',
+  },
+  secondaryButtonText: {
+    color: '#FF6B6B',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
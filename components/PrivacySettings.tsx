@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, TextInput, TouchableOpacity, Switch } from 'react-native';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { RedactionSettings } from '@/types/redaction';
+
+interface PrivacySettingsProps {
+  settings: RedactionSettings;
+  onSave: (settings: RedactionSettings) => Promise<void>;
+}
+
+export function PrivacySettings({ settings, onSave }: PrivacySettingsProps) {
+  const textColor = useThemeColor({}, 'text');
+  const borderColor = useThemeColor({ light: '#E0E0E0', dark: '#404040' }, 'text');
+  const [customTerms, setCustomTerms] = useState('');
+
+  useEffect(() => {
+    setCustomTerms(settings.customTerms.join('\n'));
+  }, [settings]);
+
+  const saveTerms = () => {
+    const terms = customTerms.split('\n').map(term => term.trim()).filter(Boolean);
+    onSave({ ...settings, customTerms: terms });
+  };
+
+  return (
+    <ThemedView style={styles.card}>
+      <View style={styles.switchRow}>
+        <ThemedText style={styles.label}>Redact personal data</ThemedText>
+        <Switch value={settings.enabled} onValueChange={enabled => onSave({ ...settings, enabled })} />
+      </View>
+      <ThemedText style={styles.hint}>
+        When on, the text of each PDF is read on this device and names, ID and insurance numbers, addresses and
+        contact details are replaced with placeholders. Only the redacted text is sent to the AI provider, and
+        the original values are kept on this device. Photos and scanned PDFs have no text to read and cannot be
+        processed while this is on.
+      </ThemedText>
+
+      {settings.enabled && (
+        <>
+          <ThemedText style={styles.inputLabel}>Always redact (one per line)</ThemedText>
+          <TextInput
+            style={[styles.input, { backgroundColor: borderColor + '10', color: textColor, borderColor }]}
+            placeholder="e.g. your name as printed on reports"
+            placeholderTextColor={textColor + '60'}
+            value={customTerms}
+            onChangeText={setCustomTerms}
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <TouchableOpacity style={[styles.button, styles.primaryButton]} onPress={saveTerms}>
+            <ThemedText style={styles.primaryButtonText}>Save Terms</ThemedText>
+          </TouchableOpacity>
+        </>
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: 'rgba(128, 128, 128, 0.1)',
+    borderRadius: 12,
+    padding: 16,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 13,
+    opacity: 0.7,
+    lineHeight: 18,
+  },
+  inputLabel: {
+    fontSize: 14,
+    marginTop: 16,
+    marginBottom: 8,
+    opacity: 0.8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    minHeight: 80,
+    textAlignVertical: 'top',
+    marginBottom: 12,
+  },
+  button: {
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { PersonalDataKind, Redaction } from '@/types/redaction';
+
+interface RedactionListProps {
+  redactions: Redaction[];
+}
+
+const KIND_LABELS: { [kind in PersonalDataKind]: string } = {
+  name: 'Name',
+  date_of_birth: 'Date of birth',
+  national_id: 'National ID',
+  record_number: 'Record number',
+  insurance_number: 'Insurance number',
+  address: 'Address',
+  phone: 'Phone',
+  email: 'E-mail',
+  iban: 'Bank account',
+  custom: 'Your term',
+};
+
+// What was masked before the document went to the AI provider; values stay hidden until asked for
+export function RedactionList({ redactions }: RedactionListProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const [showValues, setShowValues] = useState(false);
+
+  if (redactions.length === 0) return null;
+
+  return (
+    <ThemedView style={styles.card}>
+      <View style={styles.header}>
+        <ThemedText type="defaultSemiBold">🕶️ Redacted before sending</ThemedText>
+        <TouchableOpacity onPress={() => setShowValues(!showValues)}>
+          <ThemedText style={[styles.toggleText, { color: colors.tint }]}>
+            {showValues ? 'Hide values' : 'Show values'}
+          </ThemedText>
+        </TouchableOpacity>
+      </View>
+      <ThemedText style={styles.hint}>
+        Only the placeholders were sent to the AI provider. The original values are kept on this device only.
+      </ThemedText>
+      {redactions.map(redaction => (
+        <View key={redaction.placeholder} style={styles.row}>
+          <ThemedText style={styles.kind}>{KIND_LABELS[redaction.kind]}</ThemedText>
+          <ThemedText style={styles.placeholder}>
+            {showValues ? `${redaction.placeholder} = ${redaction.value}` : redaction.placeholder}
+            {redaction.occurrences > 1 ? ` (${redaction.occurrences}×)` : ''}
+          </ThemedText>
+        </View>
+      ))}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: 'rgba(128, 128, 128, 0.1)',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  toggleText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 13,
+    opacity: 0.7,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+    paddingVertical: 4,
+  },
+  kind: {
+    fontSize: 14,
+    opacity: 0.8,
+  },
+  placeholder: {
+    flexShrink: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    textAlign: 'right',
+  },
+});
@@ -0,0 +1,93 @@
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity, ActivityIndicator, StyleProp, ViewStyle } from 'react-native';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { UploadProgress } from '@/types/document';
+import { UPLOAD_STAGE_LABELS } from '@/utils/uploadProgress';
+
+interface UploadProgressViewProps {
+  fileName: string;
+  progress: UploadProgress;
+  // Left out for steps that cannot be stopped part way, such as saving
+  onCancel?: () => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+export function UploadProgressView({ fileName, progress, onCancel, style }: UploadProgressViewProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const barColor = progress.status === 'error' ? '#FF6B6B' : colors.tint;
+
+  return (
+    <ThemedView style={[styles.card, style]}>
+      <View style={styles.header}>
+        <ActivityIndicator size="small" color={colors.tint} />
+        <View style={styles.info}>
+          <ThemedText style={styles.fileName} numberOfLines={1}>
+            {fileName}
+          </ThemedText>
+          <ThemedText style={styles.stage}>
+            {UPLOAD_STAGE_LABELS[progress.stage]} · {progress.percentage}%
+          </ThemedText>
+          {progress.message && (
+            <ThemedText style={styles.message} numberOfLines={2}>
+              {progress.message}
+            </ThemedText>
+          )}
+        </View>
+        {onCancel && (
+          <TouchableOpacity onPress={onCancel}>
+            <ThemedText style={styles.cancelText}>Cancel</ThemedText>
+          </TouchableOpacity>
+        )}
+      </View>
+      <View style={[styles.bar, { backgroundColor: colors.text + '20' }]}>
+        <View style={[styles.barFill, { width: `${progress.percentage}%`, backgroundColor: barColor }]} />
+      </View>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: 'rgba(128, 128, 128, 0.1)',
+    borderRadius: 12,
+    padding: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 12,
+  },
+  info: {
+    flex: 1,
+  },
+  fileName: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  stage: {
+    fontSize: 14,
+    opacity: 0.8,
+  },
+  message: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  cancelText: {
+    color: '#FF6B6B',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  bar: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: 6,
+  },
+});
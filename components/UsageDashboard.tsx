@@ -0,0 +1,273 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, TextInput, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { UsageBudget, UsageSummary, UsageTotals } from '@/types/usage';
+
+interface UsageDashboardProps {
+  summary: UsageSummary | null;
+  budget: UsageBudget;
+  onSaveBudget: (budget: UsageBudget) => Promise<void>;
+}
+
+const TASK_LABELS = {
+  extraction: 'Document extraction',
+  summary: 'Daily summaries',
+} as const;
+
+function formatCost(totals: UsageTotals): string {
+  const cost = `$${totals.costUsd.toFixed(totals.costUsd < 1 ? 3 : 2)}`;
+  return totals.unpricedCalls > 0 ? `${cost} + ${totals.unpricedCalls} unpriced` : cost;
+}
+
+function formatTokens(totals: UsageTotals): string {
+  const tokens = totals.inputTokens + totals.outputTokens;
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k tokens` : `${tokens} tokens`;
+}
+
+function formatDay(date: string): string {
+  // Parsed as a local date; new Date('YYYY-MM-DD') would read it as UTC
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+function parseLimit(text: string): number | undefined | null {
+  if (!text.trim()) return undefined;
+  const value = Number(text.replace(',', '.'));
+  return Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+export function UsageDashboard({ summary, budget, onSaveBudget }: UsageDashboardProps) {
+  const textColor = useThemeColor({}, 'text');
+  const borderColor = useThemeColor({ light: '#E0E0E0', dark: '#404040' }, 'text');
+  const [softLimit, setSoftLimit] = useState('');
+  const [hardLimit, setHardLimit] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setSoftLimit(budget.softLimitUsd?.toString() ?? '');
+    setHardLimit(budget.hardLimitUsd?.toString() ?? '');
+  }, [budget]);
+
+  const save = async () => {
+    const softLimitUsd = parseLimit(softLimit);
+    const hardLimitUsd = parseLimit(hardLimit);
+    if (softLimitUsd === null || hardLimitUsd === null) {
+      setError('Enter budgets as amounts in dollars, or leave them empty.');
+      return;
+    }
+    if (softLimitUsd !== undefined && hardLimitUsd !== undefined && softLimitUsd > hardLimitUsd) {
+      setError('The warning budget should not be above the hard limit.');
+      return;
+    }
+
+    setError(null);
+    setIsSaving(true);
+    try {
+      await onSaveBudget({ softLimitUsd, hardLimitUsd });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputStyle = [styles.input, { backgroundColor: borderColor + '10', color: textColor, borderColor }];
+  const spentRatio = summary && budget.hardLimitUsd ? Math.min(summary.month.costUsd / budget.hardLimitUsd, 1) : null;
+
+  return (
+    <ThemedView style={styles.card}>
+      {summary ? (
+        <>
+          <View style={styles.totalsRow}>
+            <View style={styles.total}>
+              <ThemedText style={styles.totalLabel}>Today</ThemedText>
+              <ThemedText style={styles.totalValue}>{formatCost(summary.today)}</ThemedText>
+              <ThemedText style={styles.totalDetail}>
+                {summary.today.calls} calls · {formatTokens(summary.today)}
+              </ThemedText>
+            </View>
+            <View style={styles.total}>
+              <ThemedText style={styles.totalLabel}>This month</ThemedText>
+              <ThemedText style={styles.totalValue}>{formatCost(summary.month)}</ThemedText>
+              <ThemedText style={styles.totalDetail}>
+                {summary.month.calls} calls · {formatTokens(summary.month)}
+              </ThemedText>
+            </View>
+          </View>
+
+          {spentRatio !== null && (
+            <View style={[styles.budgetBar, { backgroundColor: borderColor }]}>
+              <View
+                style={[
+                  styles.budgetFill,
+                  { width: `${spentRatio * 100}%`, backgroundColor: spentRatio >= 1 ? '#FF6B6B' : '#4ECDC4' },
+                ]}
+              />
+            </View>
+          )}
+
+          {(Object.keys(TASK_LABELS) as (keyof typeof TASK_LABELS)[]).map(task => (
+            <View key={task} style={styles.row}>
+              <ThemedText style={styles.rowLabel}>{TASK_LABELS[task]}</ThemedText>
+              <ThemedText style={styles.rowValue}>
+                {formatCost(summary.monthByTask[task])} · {summary.monthByTask[task].calls} calls
+              </ThemedText>
+            </View>
+          ))}
+
+          <ThemedText style={styles.sectionLabel}>Last 7 days</ThemedText>
+          {summary.days.map(({ date, totals }) => (
+            <View key={date} style={styles.row}>
+              <ThemedText style={styles.rowLabel}>{formatDay(date)}</ThemedText>
+              <ThemedText style={styles.rowValue}>
+                {totals.calls > 0 ? `${formatCost(totals)} · ${formatTokens(totals)}` : '—'}
+              </ThemedText>
+            </View>
+          ))}
+        </>
+      ) : (
+        <ActivityIndicator size="small" />
+      )}
+
+      <ThemedText style={styles.sectionLabel}>Monthly budget (USD)</ThemedText>
+      <View style={styles.fieldRow}>
+        <View style={styles.field}>
+          <ThemedText style={styles.inputLabel}>Warn above</ThemedText>
+          <TextInput
+            style={inputStyle}
+            placeholder="No warning"
+            placeholderTextColor={textColor + '60'}
+            value={softLimit}
+            onChangeText={setSoftLimit}
+            keyboardType="decimal-pad"
+            editable={!isSaving}
+          />
+        </View>
+        <View style={styles.field}>
+          <ThemedText style={styles.inputLabel}>Block above</ThemedText>
+          <TextInput
+            style={inputStyle}
+            placeholder="No limit"
+            placeholderTextColor={textColor + '60'}
+            value={hardLimit}
+            onChangeText={setHardLimit}
+            keyboardType="decimal-pad"
+            editable={!isSaving}
+          />
+        </View>
+      </View>
+      {error && <ThemedText style={styles.errorText}>{error}</ThemedText>}
+
+      <TouchableOpacity style={[styles.button, styles.primaryButton]} onPress={save} disabled={isSaving}>
+        {isSaving ? (
+          <ActivityIndicator size="small" color="white" />
+        ) : (
+          <ThemedText style={styles.primaryButtonText}>Save Budget</ThemedText>
+        )}
+      </TouchableOpacity>
+      <ThemedText style={styles.footnote}>
+        Costs are estimated from token counts and list prices. Calls to local models are free, and models without a known price are counted but not priced.
+      </ThemedText>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: 'rgba(128, 128, 128, 0.1)',
+    borderRadius: 12,
+    padding: 16,
+  },
+  totalsRow: {
+    flexDirection: 'row',
+    gap: 16,
+    marginBottom: 12,
+  },
+  total: {
+    flex: 1,
+  },
+  totalLabel: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  totalValue: {
+    fontSize: 22,
+    fontWeight: '600',
+  },
+  totalDetail: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  budgetBar: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+    marginBottom: 12,
+  },
+  budgetFill: {
+    height: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  rowLabel: {
+    fontSize: 14,
+    opacity: 0.8,
+  },
+  rowValue: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  field: {
+    flex: 1,
+  },
+  inputLabel: {
+    fontSize: 14,
+    marginBottom: 8,
+    opacity: 0.8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  errorText: {
+    color: '#FF6B6B',
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  button: {
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  footnote: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginTop: 12,
+    lineHeight: 18,
+  },
+});
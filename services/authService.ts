@@ -1,5 +1,6 @@
 import storageService from './storageService';
 import supabaseService from './supabaseService';
+import { LLM_PROVIDERS } from './llmProviders';
 import { User } from '@/types/health';
 import Constants from 'expo-constants';
 
@@ -147,6 +148,12 @@ class AuthService {
       return true;
     }
     
+    // Documents are usable with whichever provider extraction is set to
+    const { extraction } = await storageService.getTaskProviders();
+    if (extraction !== 'gemini') {
+      return !LLM_PROVIDERS[extraction].requiresApiKey || !!(await storageService.getProviderConfig(extraction));
+    }
+
     const apiKey = await storageService.getGeminiApiKey();
     return !!apiKey;
   }
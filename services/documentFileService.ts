@@ -0,0 +1,220 @@
+import * as Crypto from 'expo-crypto';
+import * as FileSystem from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { PDFDocument } from 'pdf-lib';
+import { DocumentPickerResult } from '@/types/document';
+import { LLMDocumentPart } from '@/types/llm';
+import { extractPDFText } from '@/utils/pdfTextExtractor';
+import {
+  EXTRACTION_CALLS_PER_DOCUMENT,
+  IMAGE_MAX_DIMENSION,
+  PDF_CHUNK_PAGE_COUNT,
+  PDF_INLINE_SIZE_LIMIT,
+  SUPPORTED_IMAGE_TYPES,
+} from '@/utils/constants';
+
+export interface PDFChunk {
+  startPage: number;
+  endPage: number;
+  part: LLMDocumentPart;
+}
+
+const extensionMimeTypes: { [extension: string]: string } = {
+  pdf: 'application/pdf',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  heic: 'image/heic',
+  heif: 'image/heif',
+};
+
+class DocumentFileService {
+  getMimeType(file: DocumentPickerResult): string {
+    if (file.mimeType) {
+      return file.mimeType.toLowerCase();
+    }
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    return extensionMimeTypes[extension] ?? 'application/octet-stream';
+  }
+
+  isPDF(file: DocumentPickerResult): boolean {
+    return this.getMimeType(file) === 'application/pdf';
+  }
+
+  isImage(file: DocumentPickerResult): boolean {
+    return (SUPPORTED_IMAGE_TYPES as readonly string[]).includes(this.getMimeType(file));
+  }
+
+  // Photos are re-encoded as JPEG: decoding applies the EXIF orientation so the
+  // model sees the page upright, converts HEIC, and caps the size of phone photos.
+  private async prepareImage(file: DocumentPickerResult): Promise<LLMDocumentPart> {
+    const image = await ImageManipulator.manipulate(file.uri).renderAsync();
+    const longestSide = Math.max(image.width, image.height);
+
+    const rendered = longestSide > IMAGE_MAX_DIMENSION
+      ? await ImageManipulator.manipulate(file.uri)
+          .resize(image.width >= image.height ? { width: IMAGE_MAX_DIMENSION } : { height: IMAGE_MAX_DIMENSION })
+          .renderAsync()
+      : image;
+
+    const saved = await rendered.saveAsync({ format: SaveFormat.JPEG, compress: 0.85, base64: true });
+    console.log(`🖼️ Prepared image ${file.name}: ${saved.width}x${saved.height}`);
+
+    return {
+      inlineData: {
+        data: saved.base64 ?? '',
+        mimeType: 'image/jpeg',
+      },
+    };
+  }
+
+  // Model calls extracting the document will take, for the budget check before it is queued
+  async countExtractionCalls(files: DocumentPickerResult[]): Promise<number> {
+    if (!files.some(file => this.isPDF(file))) return EXTRACTION_CALLS_PER_DOCUMENT;
+
+    const base64 = await FileSystem.readAsStringAsync(files[0].uri, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+    const pageCount = (await PDFDocument.load(base64, { ignoreEncryption: true })).getPageCount();
+    const chunkCount = Math.max(
+      Math.ceil(pageCount / PDF_CHUNK_PAGE_COUNT),
+      Math.ceil(base64.length / PDF_INLINE_SIZE_LIMIT),
+      1
+    );
+    return EXTRACTION_CALLS_PER_DOCUMENT + chunkCount - 1;
+  }
+
+  /**
+   * Splits a PDF into page ranges small enough to send inline. Small PDFs come
+   * back as a single chunk holding the original file. Page numbers are 1-based.
+   */
+  async splitPDF(file: DocumentPickerResult): Promise<{ pageCount: number; chunks: PDFChunk[] }> {
+    const base64 = await FileSystem.readAsStringAsync(file.uri, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+    const source = await PDFDocument.load(base64, { ignoreEncryption: true });
+    const pageCount = source.getPageCount();
+
+    if (pageCount <= PDF_CHUNK_PAGE_COUNT && base64.length <= PDF_INLINE_SIZE_LIMIT) {
+      return {
+        pageCount,
+        chunks: [{
+          startPage: 1,
+          endPage: pageCount,
+          part: { inlineData: { data: base64, mimeType: 'application/pdf' } },
+        }],
+      };
+    }
+
+    const ranges: Array<[number, number]> = [];
+    for (let start = 1; start <= pageCount; start += PDF_CHUNK_PAGE_COUNT) {
+      ranges.push([start, Math.min(start + PDF_CHUNK_PAGE_COUNT - 1, pageCount)]);
+    }
+
+    const chunks: PDFChunk[] = [];
+    while (ranges.length > 0) {
+      const [startPage, endPage] = ranges.shift()!;
+      const chunkDocument = await PDFDocument.create();
+      const pageIndices = Array.from({ length: endPage - startPage + 1 }, (_, i) => startPage - 1 + i);
+      const pages = await chunkDocument.copyPages(source, pageIndices);
+      pages.forEach(page => chunkDocument.addPage(page));
+      const data = await chunkDocument.saveAsBase64();
+
+      // Scanned pages can be large: halve any range that is still over the limit
+      if (data.length > PDF_INLINE_SIZE_LIMIT && endPage > startPage) {
+        const middle = Math.floor((startPage + endPage) / 2);
+        ranges.unshift([startPage, middle], [middle + 1, endPage]);
+        continue;
+      }
+      // A single page cannot be split further, and the provider would reject it
+      if (data.length > PDF_INLINE_SIZE_LIMIT) {
+        const toMB = (length: number) => (length / (1024 * 1024)).toFixed(1);
+        throw new Error(
+          `Page ${startPage} of ${file.name} is too large to send (${toMB(data.length)} MB, the limit is ${toMB(PDF_INLINE_SIZE_LIMIT)} MB). Scan it at a lower resolution and upload it again.`
+        );
+      }
+
+      chunks.push({ startPage, endPage, part: { inlineData: { data, mimeType: 'application/pdf' } } });
+    }
+
+    console.log(`✂️ Split ${file.name} (${pageCount} pages) into ${chunks.length} chunks`);
+    return { pageCount, chunks };
+  }
+
+  // The text of each page, read on the device; empty for scanned pages
+  async extractPDFText(file: DocumentPickerResult): Promise<string[]> {
+    const base64 = await FileSystem.readAsStringAsync(file.uri, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+    const pages = extractPDFText(await PDFDocument.load(base64, { ignoreEncryption: true }));
+    console.log(`🔤 Read text from ${pages.filter(Boolean).length} of ${pages.length} pages of ${file.name}`);
+    return pages;
+  }
+
+  /**
+   * SHA-256 of the file contents, so the same document is recognized whatever
+   * it is called or wherever it was downloaded from. A set of photos hashes as
+   * the ordered list of its page hashes.
+   */
+  async hashFiles(files: DocumentPickerResult[]): Promise<string> {
+    const hashes: string[] = [];
+    for (const file of files) {
+      const base64 = await FileSystem.readAsStringAsync(file.uri, {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+      hashes.push(await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, base64));
+    }
+
+    if (hashes.length === 1) {
+      return hashes[0];
+    }
+    return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, hashes.join(':'));
+  }
+
+  // Raw file contents, for uploading the original to storage
+  async readFileBytes(file: DocumentPickerResult): Promise<ArrayBuffer> {
+    const base64 = await FileSystem.readAsStringAsync(file.uri, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes.buffer;
+  }
+
+  // Downloads a stored document's files into the cache so they can be processed again.
+  // Stored names carry an upload timestamp prefix, which is dropped.
+  async downloadFiles(urls: string[], filePaths: string[]): Promise<DocumentPickerResult[]> {
+    const files: DocumentPickerResult[] = [];
+    for (let i = 0; i < urls.length; i++) {
+      const name = (filePaths[i]?.split('/').pop() ?? `page-${i + 1}`).replace(/^\d+-/, '');
+      const result = await FileSystem.downloadAsync(urls[i], `${FileSystem.cacheDirectory}${Date.now()}-${i}-${name}`);
+      if (result.status !== 200) {
+        throw new Error(`Could not download ${name} (status ${result.status})`);
+      }
+      files.push({ uri: result.uri, name });
+    }
+    console.log(`⬇️ Downloaded ${files.length} stored ${files.length === 1 ? 'file' : 'files'}`);
+    return files;
+  }
+
+  async toInlinePart(file: DocumentPickerResult): Promise<LLMDocumentPart> {
+    if (this.isImage(file)) {
+      return this.prepareImage(file);
+    }
+
+    const base64 = await FileSystem.readAsStringAsync(file.uri, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+    return {
+      inlineData: {
+        data: base64,
+        mimeType: this.getMimeType(file),
+      },
+    };
+  }
+}
+
+export default new DocumentFileService();
@@ -0,0 +1,264 @@
+import * as FileSystem from 'expo-file-system';
+import * as Network from 'expo-network';
+import geminiService, { NotMedicalDocumentError } from './geminiService';
+import { BudgetExceededError } from './usageService';
+import { DocumentPickerResult, ExtractionJob } from '@/types/document';
+import { EXTRACTION_MAX_ATTEMPTS } from '@/utils/constants';
+import { describeError, getRetryDelay, isRetryableError } from '@/utils/retryPolicy';
+
+const JOBS_DIRECTORY = `${FileSystem.documentDirectory}extraction-jobs/`;
+const JOBS_FILE = `${JOBS_DIRECTORY}jobs.json`;
+
+type JobsListener = (jobs: ExtractionJob[]) => void;
+
+/**
+ * Runs document extractions one at a time from a queue stored on the device.
+ * Jobs survive app restarts, wait while the device is offline, and are retried
+ * with exponential backoff after rate limits, server and network errors. A
+ * successful job keeps its result until the user has reviewed it.
+ */
+class ExtractionQueueService {
+  private jobs: ExtractionJob[] = [];
+  private loaded: Promise<void> | null = null;
+  private listeners = new Set<JobsListener>();
+  private isRunning = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  // Aborts the request of the job being processed when it is cancelled
+  private abortControllers = new Map<string, AbortController>();
+
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readJobs();
+    }
+    return this.loaded;
+  }
+
+  subscribe(listener: JobsListener): () => void {
+    this.listeners.add(listener);
+    listener(this.jobs);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async enqueue(
+    files: DocumentPickerResult[],
+    fileName: string,
+    contentHash: string,
+    replaces?: ExtractionJob['replaces'],
+    reprocess?: boolean
+  ): Promise<ExtractionJob> {
+    await this.load();
+
+    // Picked files live in a cache that the system may clear, so the job keeps its own copies
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    const directory = `${JOBS_DIRECTORY}${id}/`;
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+    const copies: DocumentPickerResult[] = [];
+    for (let i = 0; i < files.length; i++) {
+      const uri = `${directory}${i}-${files[i].name.replace(/[^\w.-]+/g, '_')}`;
+      await FileSystem.copyAsync({ from: files[i].uri, to: uri });
+      copies.push({ ...files[i], uri });
+    }
+
+    const job: ExtractionJob = {
+      id,
+      fileName,
+      files: copies,
+      contentHash,
+      replaces,
+      reprocess,
+      status: 'pending',
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+    };
+    this.jobs = [...this.jobs, job];
+    await this.save();
+    console.log(`📥 Queued extraction of ${fileName}`);
+
+    this.run();
+    return job;
+  }
+
+  async retry(jobId: string): Promise<void> {
+    await this.updateJob(jobId, {
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: undefined,
+      lastError: undefined,
+    });
+    this.run();
+  }
+
+  // Drops a job and its files: when it is cancelled, and once its result has been reviewed.
+  // Cancelling a job that is processing aborts its request.
+  async remove(jobId: string): Promise<void> {
+    this.abortControllers.get(jobId)?.abort();
+    this.jobs = this.jobs.filter(job => job.id !== jobId);
+    await this.save();
+    await FileSystem.deleteAsync(`${JOBS_DIRECTORY}${jobId}/`, { idempotent: true });
+  }
+
+  private async readJobs(): Promise<void> {
+    try {
+      const info = await FileSystem.getInfoAsync(JOBS_FILE);
+      if (info.exists) {
+        const stored: ExtractionJob[] = JSON.parse(await FileSystem.readAsStringAsync(JOBS_FILE));
+        // A job that was processing when the app closed starts over
+        this.jobs = stored.map(job => (job.status === 'processing' ? { ...job, status: 'pending' } : job));
+        console.log(`📋 Loaded ${this.jobs.length} extraction jobs`);
+      }
+    } catch (error) {
+      console.error('Error reading extraction jobs:', error);
+    }
+
+    Network.addNetworkStateListener(state => {
+      if (state.isConnected && state.isInternetReachable !== false) {
+        this.run();
+      }
+    });
+
+    this.notify();
+    this.run();
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await FileSystem.makeDirectoryAsync(JOBS_DIRECTORY, { intermediates: true });
+      const stored = this.jobs.map(({ progress, ...job }) => job);
+      await FileSystem.writeAsStringAsync(JOBS_FILE, JSON.stringify(stored));
+    } catch (error) {
+      console.error('Error saving extraction jobs:', error);
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.jobs));
+  }
+
+  private async updateJob(jobId: string, changes: Partial<ExtractionJob>): Promise<void> {
+    if (!this.jobs.some(job => job.id === jobId)) return;
+    this.jobs = this.jobs.map(job => (job.id === jobId ? { ...job, ...changes } : job));
+    await this.save();
+  }
+
+  private nextDueJob(): ExtractionJob | undefined {
+    const now = Date.now();
+    return this.jobs.find(job =>
+      (job.status === 'pending' || job.status === 'waiting_for_network') &&
+      (!job.nextAttemptAt || new Date(job.nextAttemptAt).getTime() <= now)
+    );
+  }
+
+  private async run(): Promise<void> {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    try {
+      let job = this.nextDueJob();
+      while (job) {
+        const needsNetwork = await geminiService.requiresNetwork('extraction');
+        const network = needsNetwork ? await Network.getNetworkStateAsync() : null;
+        if (network && (!network.isConnected || network.isInternetReachable === false)) {
+          console.log('📴 Offline: extraction jobs will start when the connection is back');
+          this.jobs = this.jobs.map(queued => (queued.status === 'pending' ? { ...queued, status: 'waiting_for_network' } : queued));
+          await this.save();
+          break;
+        }
+
+        await this.process(job);
+        job = this.nextDueJob();
+      }
+    } finally {
+      this.isRunning = false;
+    }
+
+    this.scheduleRetry();
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const retryTimes = this.jobs
+      .filter(job => job.status === 'pending' && job.nextAttemptAt)
+      .map(job => new Date(job.nextAttemptAt!).getTime());
+    if (retryTimes.length === 0) return;
+
+    const delay = Math.max(Math.min(...retryTimes) - Date.now(), 0);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.run();
+    }, delay);
+  }
+
+  private async process(job: ExtractionJob): Promise<void> {
+    const attempts = job.attempts + 1;
+    console.log(`⚙️ Extracting ${job.fileName} (attempt ${attempts} of ${EXTRACTION_MAX_ATTEMPTS})`);
+    await this.updateJob(job.id, { status: 'processing', attempts, nextAttemptAt: undefined });
+    const abortController = new AbortController();
+    this.abortControllers.set(job.id, abortController);
+
+    try {
+      const result = await geminiService.processDocument(job.files, job.fileName, progress => {
+        // Progress is only shown while the job runs, so it is not saved
+        this.jobs = this.jobs.map(queued => (queued.id === job.id ? { ...queued, progress } : queued));
+        this.notify();
+      }, abortController.signal);
+
+      if (!result) {
+        await this.updateJob(job.id, {
+          status: 'failed',
+          progress: undefined,
+          lastError: 'Gemini is not configured. Add your API key in Settings.',
+        });
+      } else if (!result.success) {
+        const details = result.errors
+          .slice(0, 5)
+          .map(issue => `• ${issue.path}: ${issue.message}`)
+          .join('\n');
+        const more = result.errors.length > 5 ? `\n…and ${result.errors.length - 5} more` : '';
+        await this.updateJob(job.id, {
+          status: 'failed',
+          progress: undefined,
+          lastError: `The extracted data could not be validated after ${result.repairAttempts} repair attempts.\n${details}${more}`,
+        });
+      } else {
+        console.log(`✅ Extraction of ${job.fileName} is ready for review`);
+        await this.updateJob(job.id, { status: 'ready', progress: undefined, lastError: undefined, result });
+      }
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        console.log(`🛑 Extraction of ${job.fileName} was cancelled`);
+        return;
+      }
+
+      const lastError = describeError(error);
+      // A spent budget stays spent until the user raises it, and a document that is not
+      // medical stays so, so neither job is retried
+      const isRetryable = !(error instanceof BudgetExceededError)
+        && !(error instanceof NotMedicalDocumentError)
+        && isRetryableError(error);
+      if (isRetryable && attempts < EXTRACTION_MAX_ATTEMPTS) {
+        const delay = getRetryDelay(attempts);
+        console.log(`🔁 Extraction of ${job.fileName} failed (${lastError}); retrying in ${Math.round(delay / 1000)}s`);
+        await this.updateJob(job.id, {
+          status: 'pending',
+          progress: undefined,
+          nextAttemptAt: new Date(Date.now() + delay).toISOString(),
+          lastError,
+        });
+      } else {
+        console.error(`❌ Extraction of ${job.fileName} failed:`, lastError);
+        await this.updateJob(job.id, { status: 'failed', progress: undefined, lastError });
+      }
+    } finally {
+      this.abortControllers.delete(job.id);
+    }
+  }
+}
+
+export default new ExtractionQueueService();
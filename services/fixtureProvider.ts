@@ -0,0 +1,143 @@
+import labReportFixture from '@/fixtures/llm/labReport.json';
+import photoPagesFixture from '@/fixtures/llm/photoPages.json';
+import { NormalizedHealthData } from '@/types/health';
+import { LLMConversation, LLMDocumentPart, LLMProvider, LLMProviderConfig, LLMResponse } from '@/types/llm';
+
+const CHUNK_PAGES_PATTERN = /contains pages (\d+)-(\d+) of a \d+-page document/;
+const PHOTO_COUNT_PATTERN = /provided as (\d+) photo\(s\)/;
+const HEALTH_DATA_MARKER = 'Health Data:\n';
+// Only the classification prompt asks this; it is answered with the fixture's document type
+const CLASSIFICATION_MARKER = 'decide which kind of document it is';
+// A redacted document is sent as text after this line instead of as a file
+const DOCUMENT_TEXT_MARKER = 'Document text:\n';
+// Fixtures do not run a model, so usage is estimated from the text length for the usage screen
+const CHARACTERS_PER_TOKEN = 4;
+
+interface SummaryMetric {
+  metricType: string;
+  value: number | null;
+  unit: string;
+  rangeFlag?: string;
+  sourceLabel?: string;
+}
+
+function toResponse(prompt: string, text: string): LLMResponse {
+  return {
+    text,
+    usage: {
+      inputTokens: Math.ceil(prompt.length / CHARACTERS_PER_TOKEN),
+      outputTokens: Math.ceil(text.length / CHARACTERS_PER_TOKEN),
+    },
+  };
+}
+
+// Keeps the items printed on the given pages, numbered from the first of them
+function selectPages(data: NormalizedHealthData, startPage: number, endPage: number): NormalizedHealthData {
+  const onPages = <T extends { page?: number }>(items?: T[]) =>
+    items
+      ?.filter(item => (item.page ?? 1) >= startPage && (item.page ?? 1) <= endPage)
+      .map(item => ({ ...item, page: (item.page ?? 1) - startPage + 1 }));
+
+  const isFirstPage = startPage === 1;
+  return {
+    documentType: data.documentType,
+    date: data.date,
+    provider: data.provider,
+    patient: data.patient,
+    vitals: onPages(data.vitals),
+    labResults: onPages(data.labResults),
+    imaging: onPages(data.imaging),
+    vaccinations: onPages(data.vaccinations),
+    // Items without a page are reported once, with the first pages
+    medications: isFirstPage ? data.medications : undefined,
+    diagnoses: isFirstPage ? data.diagnoses : undefined,
+    charges: isFirstPage ? data.charges : undefined,
+    notes: isFirstPage ? data.notes : undefined,
+  };
+}
+
+/**
+ * Answers from the fixture files in fixtures/llm instead of a model, so the
+ * upload, extraction and summary flows run without a network or API key.
+ * Photo sets get the handwritten visit note and PDFs the lab report; a PDF
+ * chunk gets only the items on its pages; the classification pass is told the
+ * type of the fixture it would get. Daily summaries are built by rules
+ * from the metrics in the prompt. Responses are always the same for the same input.
+ */
+export class FixtureProvider implements LLMProvider {
+  readonly id = 'fixture';
+  readonly label = 'Offline fixtures';
+  readonly requiresApiKey = false;
+  readonly requiresNetwork = false;
+
+  private extract(prompt: string, documentParts: LLMDocumentPart[]): NormalizedHealthData {
+    const isPhotoSet = documentParts.some(part => part.inlineData.mimeType.startsWith('image/'));
+    if (isPhotoSet) {
+      const photoCount = Number(prompt.match(PHOTO_COUNT_PATTERN)?.[1] ?? documentParts.length);
+      return selectPages(photoPagesFixture as NormalizedHealthData, 1, photoCount);
+    }
+
+    const chunk = prompt.match(CHUNK_PAGES_PATTERN);
+    const labReport = labReportFixture as NormalizedHealthData;
+    return chunk ? selectPages(labReport, Number(chunk[1]), Number(chunk[2])) : labReport;
+  }
+
+  private summarize(prompt: string): string {
+    const markerIndex = prompt.indexOf(HEALTH_DATA_MARKER);
+    const healthData: { metrics?: SummaryMetric[]; documents?: unknown[]; conditions?: unknown[] } =
+      markerIndex >= 0 ? JSON.parse(prompt.slice(markerIndex + HEALTH_DATA_MARKER.length)) : {};
+    const metrics = healthData.metrics ?? [];
+    const documents = healthData.documents ?? [];
+    const conditions = healthData.conditions ?? [];
+
+    const flagged = metrics.filter(metric => metric.rangeFlag && metric.rangeFlag !== 'normal');
+    const metricTypes = new Set(metrics.map(metric => metric.metricType));
+
+    const keyInsights = flagged.map(metric => ({
+      category: metric.sourceLabel ?? metric.metricType,
+      insight: `${metric.sourceLabel ?? metric.metricType} of ${metric.value} ${metric.unit} is ${metric.rangeFlag} for its reference range.`,
+      severity: metric.rangeFlag === 'critical' ? 'high' : 'medium',
+    }));
+    if (metrics.length > 0 && flagged.length === 0) {
+      keyInsights.push({
+        category: 'Overview',
+        insight: 'All readings with a reference range are within it.',
+        severity: 'low',
+      });
+    }
+
+    const conditionsNote = conditions.length > 0 ? ` ${conditions.length} active condition(s) on your problem list.` : '';
+    const summaryText = (metrics.length === 0
+      ? `No health metrics were recorded in the past 24 hours. ${documents.length} recent document(s) on file.`
+      : `You recorded ${metrics.length} reading(s) across ${metricTypes.size} metric type(s) in the past 24 hours, ` +
+        `${flagged.length} of them outside the reference range. ${documents.length} recent document(s) on file.`) +
+      conditionsNote;
+
+    return JSON.stringify({ summaryText, keyInsights });
+  }
+
+  startConversation(_config: LLMProviderConfig): LLMConversation {
+    // Fixtures always pass validation, so a repair request just gets the same answer
+    let lastResponse = '';
+    return {
+      send: async (prompt, documentParts = []) => {
+        if (prompt.includes(CLASSIFICATION_MARKER)) {
+          const { documentType } = this.extract(prompt, documentParts);
+          return toResponse(prompt, JSON.stringify({ documentType, confidence: 1, reason: 'Offline fixture' }));
+        }
+        if (documentParts.length > 0 || prompt.includes(DOCUMENT_TEXT_MARKER)) {
+          lastResponse = JSON.stringify(this.extract(prompt, documentParts));
+        }
+        return toResponse(prompt, lastResponse);
+      },
+    };
+  }
+
+  async generateText(_config: LLMProviderConfig, prompt: string): Promise<LLMResponse> {
+    return toResponse(prompt, this.summarize(prompt));
+  }
+
+  async testConnection(_config: LLMProviderConfig): Promise<boolean> {
+    return true;
+  }
+}
@@ -1,144 +1,441 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import * as FileSystem from 'expo-file-system';
 import storageService from './storageService';
-import { GEMINI_MODEL, GEMINI_PROMPTS } from '@/utils/constants';
-import { NormalizedHealthData } from '@/types/health';
-import { GeminiPDFResponse } from '@/types/document';
+import documentFileService from './documentFileService';
+import usageService from './usageService';
+import { LLM_PROVIDERS } from './llmProviders';
+import { CLASSIFICATION_MIN_CONFIDENCE, GEMINI_MAX_REPAIR_ATTEMPTS, GEMINI_MODEL, LLM_DEFAULT_MODELS } from '@/utils/constants';
+import { getPromptTemplate, promptKey, renderPrompt } from '@/utils/promptRegistry';
+import {
+  formatValidationErrors,
+  validateDocumentClassification,
+  validateNormalizedHealthData,
+  ValidationResult,
+} from '@/utils/healthDataValidator';
+import { mergeNormalizedHealthData, offsetSourcePages } from '@/utils/healthDataMerger';
+import { redactPersonalData } from '@/utils/personalDataRedactor';
+import { overallConfidence, scoreExtraction } from '@/utils/confidenceScorer';
+import { stageProgress, throwIfCancelled } from '@/utils/uploadProgress';
+import {
+  DocumentClassificationResult,
+  DocumentPickerResult,
+  GeminiPDFResponse,
+  GeminiPDFResult,
+  UploadProgress,
+} from '@/types/document';
+import { LLMDocumentPart, LLMProvider, LLMProviderConfig, LLMProviderId, LLMResponse, LLMTask } from '@/types/llm';
+import { BudgetCheck } from '@/types/usage';
+import { Condition } from '@/types/health';
+import { PromptProvenance, PromptTemplate } from '@/types/prompt';
+import { RedactionSettings } from '@/types/redaction';
 
+interface ResolvedProvider {
+  provider: LLMProvider;
+  config: LLMProviderConfig;
+}
+
+// The extraction prompt chosen for a document, with the provenance stored with its output
+interface ExtractionPrompt {
+  basePrompt: string;
+  provenance: PromptProvenance;
+}
+
+type ReportExtractionStage = (stage: 'extracting' | 'validating', message?: string) => void;
+
+// Thrown when the classification pass finds the upload is not a medical document
+export class NotMedicalDocumentError extends Error {
+  constructor(readonly reason?: string) {
+    super(
+      `This does not look like a medical document${reason ? ` (${reason.replace(/\.$/, '')})` : ''}. ` +
+      'Upload a lab report, prescription, imaging report, discharge summary, vaccination record or medical bill.'
+    );
+    this.name = 'NotMedicalDocumentError';
+  }
+}
+
+/**
+ * Runs the app's model tasks on the provider chosen for each task in
+ * settings (see services/llmProviders.ts). Gemini is the default.
+ */
 class GeminiService {
-  private genAI: GoogleGenerativeAI | null = null;
+  // The provider set for a task with its settings, or null when it is not configured
+  private async resolveProvider(task: LLMTask): Promise<ResolvedProvider | null> {
+    const providerId = (await storageService.getTaskProviders())[task];
+    const provider = LLM_PROVIDERS[providerId];
+    const stored = await storageService.getProviderConfig(providerId);
 
-  async initialize(): Promise<boolean> {
-    // Use environment API key if available
-    const apiKey = process.env.EXPO_PUBLIC_GEMINI_API_KEY || await storageService.getGeminiApiKey();
-    
-    if (!apiKey) {
-      console.error('Gemini API key not found or not configured');
-      return false;
+    // An API key from the environment takes precedence, as before providers were configurable
+    const environmentKey = providerId === 'gemini' ? process.env.EXPO_PUBLIC_GEMINI_API_KEY : undefined;
+    const config: LLMProviderConfig = {
+      model: LLM_DEFAULT_MODELS[providerId],
+      ...stored,
+      ...(environmentKey ? { apiKey: environmentKey } : {}),
+    };
+
+    if (provider.requiresApiKey && !config.apiKey) {
+      console.error(`${provider.label} is selected for ${task} but has no API key configured`);
+      return null;
     }
 
-    this.genAI = new GoogleGenerativeAI(apiKey);
-    console.log('Gemini service initialized successfully');
-    return true;
+    console.log(`🤖 Using ${provider.label} (${config.model}) for ${task}`);
+    return { provider, config };
+  }
+
+  // Recorded with stored output so it can be told apart once a prompt or model changes
+  private describeProvenance(template: PromptTemplate, resolved: ResolvedProvider): PromptProvenance {
+    return {
+      promptId: promptKey(template),
+      promptVersion: template.version,
+      model: this.describeModel(resolved),
+    };
+  }
+
+  private describeModel({ provider, config }: ResolvedProvider): string {
+    return `${provider.id}:${config.model}`;
+  }
+
+  // The model a task runs on, as recorded in provenance, or null when the task is not configured
+  async getCurrentModel(task: LLMTask): Promise<string | null> {
+    const resolved = await this.resolveProvider(task);
+    return resolved ? this.describeModel(resolved) : null;
+  }
+
+  private async recordUsage(task: LLMTask, { provider, config }: ResolvedProvider, response: LLMResponse): Promise<void> {
+    if (!response.usage) {
+      console.warn(`⚠️ ${provider.label} did not report token usage for ${task}`);
+      return;
+    }
+    await usageService.record(task, provider.id, config.model, response.usage);
+  }
+
+  // Lets a screen warn about, or stop, calls that would go over the monthly budget
+  async checkBudget(task: LLMTask, calls = 1): Promise<BudgetCheck> {
+    const resolved = await this.resolveProvider(task);
+    if (!resolved) return { status: 'ok' };
+    return usageService.checkBudget(task, resolved.provider.id, resolved.config.model, calls);
   }
 
-  async processPDF(pdfUri: string, _fileName: string): Promise<GeminiPDFResponse | null> {
-    console.log('📄 Starting PDF processing:', { pdfUri, fileName: _fileName });
+  async requiresNetwork(task: LLMTask): Promise<boolean> {
+    const providerId = (await storageService.getTaskProviders())[task];
+    return LLM_PROVIDERS[providerId].requiresNetwork;
+  }
+
+  async processPDF(
+    pdfUri: string,
+    fileName: string,
+    onProgress?: (progress: UploadProgress) => void,
+    signal?: AbortSignal
+  ): Promise<GeminiPDFResult | null> {
+    return this.processDocument([{ uri: pdfUri, name: fileName, mimeType: 'application/pdf' }], fileName, onProgress, signal);
+  }
+
+  /**
+   * Extracts health data from a single PDF or from a set of photographed pages.
+   * A photo set is sent as one request; a large PDF is split into page ranges,
+   * each range is extracted on its own and the partial results are merged.
+   * The document is classified first and extracted with the prompt for its
+   * type; an upload that is not a medical document is rejected before extraction.
+   * Returns null when Gemini is not configured; request failures are thrown
+   * so the caller can tell rate limits and network errors apart and retry.
+   * Aborting the signal cancels the request in flight and throws.
+   */
+  async processDocument(
+    files: DocumentPickerResult[],
+    fileName: string,
+    onProgress?: (progress: UploadProgress) => void,
+    signal?: AbortSignal
+  ): Promise<GeminiPDFResult | null> {
+    console.log('📄 Starting document processing:', { fileName, files: files.length });
     
     try {
-      if (!this.genAI) {
-        console.log('🔧 Initializing Gemini service...');
-        const initialized = await this.initialize();
-        if (!initialized) {
-          console.error('❌ Failed to initialize Gemini service');
-          return null;
+      const model = await this.resolveProvider('extraction');
+      if (!model) {
+        console.error('❌ No model provider configured for extraction');
+        return null;
+      }
+
+      // Part `index` of `count` gets an equal share of the extraction span, and
+      // its response is validated most of the way through that share
+      const reportPart = (index: number, count: number, pages?: string): ReportExtractionStage =>
+        (stage, message) => onProgress?.(
+          stageProgress(stage, (index + (stage === 'validating' ? 0.8 : 0)) / count, message ?? pages)
+        );
+      // Picks the extraction prompt for what the document is, from the parts given
+      const classify = (documentParts: LLMDocumentPart[], documentNote?: string) => {
+        onProgress?.(stageProgress('extracting', 0, 'Identifying the document type'));
+        return this.selectExtractionPrompt(model, documentParts, documentNote, signal);
+      };
+
+      const isPhotoSet = files.some(file => documentFileService.isImage(file));
+      const redaction = await storageService.getRedactionSettings();
+      if (redaction.enabled) {
+        if (isPhotoSet) {
+          throw new Error('Photos cannot be redacted on this device. Upload the document as a PDF, or turn off redaction in Settings.');
         }
+        onProgress?.(stageProgress('reading', 0, 'Reading and redacting the text'));
+        return await this.extractRedacted(model, files[0], redaction, classify, reportPart(0, 1), signal);
       }
 
-      // Read the PDF file as base64
-      console.log('📖 Reading PDF file as base64...');
-      const base64 = await FileSystem.readAsStringAsync(pdfUri, {
-        encoding: FileSystem.EncodingType.Base64,
-      });
-      console.log('✅ PDF file read successfully, size:', base64.length);
+      if (isPhotoSet) {
+        console.log('📖 Reading photographed pages...');
+        const documentParts = [];
+        for (let i = 0; i < files.length; i++) {
+          onProgress?.(stageProgress('reading', i / files.length, `Page ${i + 1} of ${files.length}`));
+          documentParts.push(await documentFileService.toInlinePart(files[i]));
+          throwIfCancelled(signal);
+        }
+        const photoNote = renderPrompt(getPromptTemplate('photo_pages_note'), { pageCount: files.length });
+        const { basePrompt, provenance } = await classify(documentParts, photoNote);
+        return await this.extractWithRepair(model, provenance, `${basePrompt}\n${photoNote}`, documentParts, reportPart(0, 1), signal);
+      }
 
-      const model = this.genAI!.getGenerativeModel({ model: GEMINI_MODEL });
-      console.log('🤖 Created Gemini model instance');
+      console.log('📖 Reading PDF file...');
+      onProgress?.(stageProgress('reading'));
+      const { pageCount, chunks } = await documentFileService.splitPDF(files[0]);
+      throwIfCancelled(signal);
+      // A large PDF is classified by its first chunk
+      const { basePrompt, provenance } = await classify([chunks[0].part]);
+      if (chunks.length === 1) {
+        return await this.extractWithRepair(model, provenance, basePrompt, [chunks[0].part], reportPart(0, 1), signal);
+      }
+
+      const results: GeminiPDFResponse[] = [];
+      for (let i = 0; i < chunks.length; i++) {
+        const { startPage, endPage, part } = chunks[i];
+        console.log(`📑 Extracting pages ${startPage}-${endPage} (chunk ${i + 1}/${chunks.length})...`);
+        const pages = `Pages ${startPage}–${endPage} (part ${i + 1} of ${chunks.length})`;
+
+        const chunkNote = renderPrompt(getPromptTemplate('pdf_chunk_note'), { startPage, endPage, pageCount });
+        const result = await this.extractWithRepair(
+          model,
+          provenance,
+          `${basePrompt}\n${chunkNote}`,
+          [part],
+          reportPart(i, chunks.length, pages),
+          signal
+        );
 
-      // Create the PDF part
-      const pdfPart = {
-        inlineData: {
-          data: base64,
-          mimeType: 'application/pdf',
-        },
+        if (!result.success) {
+          console.error(`❌ Pages ${startPage}-${endPage} could not be extracted`);
+          return {
+            ...result,
+            errors: result.errors.map(issue => ({ ...issue, path: `pages ${startPage}-${endPage}: ${issue.path}` })),
+            repairAttempts: result.repairAttempts + results.reduce((sum, r) => sum + r.repairAttempts, 0),
+          };
+        }
+
+        results.push({ ...result, normalizedData: offsetSourcePages(result.normalizedData, startPage) });
+      }
+
+      const normalizedData = mergeNormalizedHealthData(results.map(result => result.normalizedData));
+      console.log(`🧩 Merged ${chunks.length} chunks: ${normalizedData.labResults?.length ?? 0} lab results`);
+
+      return {
+        success: true,
+        extractedText: results.map(result => result.extractedText).join('\n\n'),
+        normalizedData,
+        confidence: overallConfidence(normalizedData),
+        repairAttempts: results.reduce((sum, result) => sum + result.repairAttempts, 0),
+        provenance,
       };
-      console.log('📦 Created PDF part for Gemini');
+    } catch (error) {
+      if (!signal?.aborted) {
+        console.error('❌ Error processing document with Gemini:', error);
+      }
+      throw error;
+    }
+  }
 
-      // Send to Gemini with extraction prompt
-      console.log('🚀 Sending PDF to Gemini for processing...');
-      const result = await model.generateContent([
-        GEMINI_PROMPTS.EXTRACT_HEALTH_DATA,
-        pdfPart,
-      ]);
+  // Reads the PDF's text on the device, masks personal identifiers and sends only
+  // the masked text. Which values were masked is returned with the result.
+  private async extractRedacted(
+    resolved: ResolvedProvider,
+    file: DocumentPickerResult,
+    settings: RedactionSettings,
+    classify: (documentParts: LLMDocumentPart[], documentNote?: string) => Promise<ExtractionPrompt>,
+    reportStage: ReportExtractionStage,
+    signal?: AbortSignal
+  ): Promise<GeminiPDFResult> {
+    const pages = await documentFileService.extractPDFText(file);
+    throwIfCancelled(signal);
+    if (!pages.some(Boolean)) {
+      throw new Error('This PDF has no text to read, as in a scan. It cannot be redacted on this device; turn off redaction in Settings to send it as is.');
+    }
+    // Sending only the pages with text would drop the results on the others without a word
+    const scannedPages = pages.map((text, i) => (text ? null : i + 1)).filter((page): page is number => page !== null);
+    if (scannedPages.length > 0) {
+      throw new Error(`Pages with no text to read, as in a scan, cannot be redacted on this device (page ${scannedPages.join(', ')} of this PDF). Turn off redaction in Settings to send the document as is.`);
+    }
 
-      const response = result.response;
-      const text = response.text();
-      console.log('✅ Received response from Gemini, length:', text.length);
+    const documentText = pages.map((text, i) => `--- Page ${i + 1} ---\n${text}`).join('\n\n');
+    const { text, redactions } = redactPersonalData(documentText, settings.customTerms);
+    console.log(`🕶️ Redacted ${redactions.length} personal identifiers before sending`);
 
-      // Parse the JSON response
-      let normalizedData: NormalizedHealthData;
-      try {
-        console.log('🔍 Parsing Gemini response...');
-        console.log('📝 Raw response preview:', text.substring(0, 200) + '...');
-        
-        // Extract JSON from the response (Gemini might include markdown formatting)
-        const jsonMatch = text.match(/```json\n?([\s\S]*?)\n?```/) || text.match(/{[\s\S]*}/);
-        const jsonString = jsonMatch ? (jsonMatch[1] || jsonMatch[0]) : text;
-        console.log('📋 Extracted JSON string:', jsonString.substring(0, 200) + '...');
-        
-        normalizedData = JSON.parse(jsonString);
-        console.log('✅ Successfully parsed JSON response');
-        console.log('📊 Normalized data keys:', Object.keys(normalizedData));
-      } catch (parseError) {
-        console.error('❌ Error parsing Gemini response:', parseError);
-        console.error('🔍 Full response that failed to parse:', text);
-        // Return raw text if JSON parsing fails
+    const note = renderPrompt(getPromptTemplate('redacted_text_note'), { documentText: text });
+    const { basePrompt, provenance } = await classify([], note);
+    const result = await this.extractWithRepair(resolved, provenance, `${basePrompt}\n${note}`, [], reportStage, signal);
+    return result.success ? { ...result, redactions } : result;
+  }
+
+  /**
+   * Asks which kind of document this is and returns the extraction prompt
+   * written for that kind. An answer that cannot be read, or one the model is
+   * not confident in, falls back to the generic prompt. A document the model is
+   * confident is not medical is rejected with a NotMedicalDocumentError.
+   */
+  private async selectExtractionPrompt(
+    resolved: ResolvedProvider,
+    documentParts: LLMDocumentPart[],
+    documentNote: string | undefined,
+    signal?: AbortSignal
+  ): Promise<ExtractionPrompt> {
+    const classifyPrompt = renderPrompt(getPromptTemplate('classify_document'));
+    const conversation = resolved.provider.startConversation(resolved.config);
+    console.log('🔎 Classifying the document...');
+    await usageService.assertWithinBudget();
+    const response = await conversation.send(
+      documentNote ? `${classifyPrompt}\n${documentNote}` : classifyPrompt,
+      documentParts,
+      signal
+    );
+    await this.recordUsage('extraction', resolved, response);
+
+    const parsed = this.parseJsonResponse(response.text);
+    const classification: DocumentClassificationResult | null = parsed.ok ? validateDocumentClassification(parsed.value) : null;
+    const isConfident = !!classification && classification.confidence >= CLASSIFICATION_MIN_CONFIDENCE;
+    if (!classification) {
+      console.warn('⚠️ The document could not be classified; using the generic extraction prompt');
+    } else {
+      console.log(`🔎 Classified as ${classification.documentType} (confidence ${classification.confidence})`);
+    }
+
+    if (isConfident && classification.documentType === 'not_medical') {
+      throw new NotMedicalDocumentError(classification.reason);
+    }
+
+    const documentType = isConfident && classification.documentType !== 'not_medical' ? classification.documentType : undefined;
+    const template = getPromptTemplate('extract_health_data', { documentType });
+    return { basePrompt: renderPrompt(template), provenance: this.describeProvenance(template, resolved) };
+  }
+
+  // Sends one extraction request and, while the response fails schema
+  // validation, feeds the errors back in the same chat for a bounded number of repairs
+  private async extractWithRepair(
+    resolved: ResolvedProvider,
+    provenance: PromptProvenance,
+    prompt: string,
+    documentParts: LLMDocumentPart[],
+    reportStage: ReportExtractionStage,
+    signal?: AbortSignal
+  ): Promise<GeminiPDFResult> {
+    // A conversation keeps the document in context for any repair round-trips
+    const conversation = resolved.provider.startConversation(resolved.config);
+
+    console.log(`🚀 Sending document to ${resolved.provider.label} for processing...`);
+    reportStage('extracting');
+    // Every call is checked, as a large PDF can pass the limit part way through
+    await usageService.assertWithinBudget();
+    let response = await conversation.send(prompt, documentParts, signal);
+    await this.recordUsage('extraction', resolved, response);
+    let text = response.text;
+    console.log('✅ Received response, length:', text.length);
+
+    let repairAttempts = 0;
+    const repairedPaths = new Set<string>();
+    while (true) {
+      reportStage('validating');
+      const parsed = this.parseJsonResponse(text);
+      const validation: ValidationResult = parsed.ok
+        ? validateNormalizedHealthData(parsed.value)
+        : { valid: false, errors: [{ path: '$', message: `response is not valid JSON (${parsed.error})` }] };
+
+      if (validation.valid) {
+        console.log('✅ Response matches the health data schema');
+        console.log('📊 Normalized data keys:', Object.keys(validation.data));
+        const normalizedData = scoreExtraction(validation.data, repairedPaths);
         return {
+          success: true,
           extractedText: text,
-          normalizedData: { raw: text },
-          confidence: 0.5,
+          normalizedData,
+          confidence: overallConfidence(normalizedData),
+          repairAttempts,
+          provenance,
         };
       }
 
-      const pdfResponse: GeminiPDFResponse = {
-        extractedText: text,
-        normalizedData,
-        confidence: 0.9,
-      };
-      
-      console.log('🎉 PDF processing completed successfully');
-      console.log('📤 Returning result with confidence:', pdfResponse.confidence);
-      
-      return pdfResponse;
-    } catch (error) {
-      console.error('❌ Error processing PDF with Gemini:', error);
-      return null;
+      validation.errors.forEach(issue => {
+        const itemPath = issue.path.match(/^\w+\[\d+\]/);
+        if (itemPath) repairedPaths.add(itemPath[0]);
+      });
+
+      console.warn(`⚠️ Response failed validation with ${validation.errors.length} errors:`);
+      console.warn(formatValidationErrors(validation.errors));
+
+      if (repairAttempts >= GEMINI_MAX_REPAIR_ATTEMPTS) {
+        console.error('❌ Giving up after', repairAttempts, 'repair attempts');
+        return {
+          success: false,
+          reason: parsed.ok ? 'schema_mismatch' : 'invalid_json',
+          extractedText: text,
+          errors: validation.errors,
+          repairAttempts,
+        };
+      }
+
+      repairAttempts++;
+      console.log(`🔧 Asking the model to repair its response (attempt ${repairAttempts}/${GEMINI_MAX_REPAIR_ATTEMPTS})...`);
+      const repairPrompt = renderPrompt(getPromptTemplate('repair_health_data'), {
+        errors: formatValidationErrors(validation.errors),
+      });
+      reportStage('validating', `Asking the model to fix ${validation.errors.length} problems (attempt ${repairAttempts})`);
+      await usageService.assertWithinBudget();
+      response = await conversation.send(repairPrompt, undefined, signal);
+      await this.recordUsage('extraction', resolved, response);
+      text = response.text;
+    }
+  }
+
+  // Extract JSON from a response (Gemini might include markdown formatting)
+  private parseJsonResponse(text: string): { ok: true; value: unknown } | { ok: false; error: string } {
+    const jsonMatch = text.match(/```json\n?([\s\S]*?)\n?```/) || text.match(/{[\s\S]*}/);
+    const jsonString = jsonMatch ? (jsonMatch[1] || jsonMatch[0]) : text;
+
+    try {
+      return { ok: true, value: JSON.parse(jsonString) };
+    } catch (parseError) {
+      return { ok: false, error: parseError instanceof Error ? parseError.message : String(parseError) };
     }
   }
 
   async generateDailySummary(healthData: {
     metrics: any[],
-    documents: any[]
-  }): Promise<{ summaryText: string; keyInsights: any[] } | null> {
+    documents: any[],
+    conditions?: Pick<Condition, 'name' | 'icd10Code' | 'icd10Display' | 'onsetDate' | 'status'>[]
+  }): Promise<{ summaryText: string; keyInsights: any[]; provenance: PromptProvenance } | null> {
     try {
-      if (!this.genAI) {
-        const initialized = await this.initialize();
-        if (!initialized) {
-          console.error('Failed to initialize Gemini service');
-          return null;
-        }
+      const resolved = await this.resolveProvider('summary');
+      if (!resolved) {
+        console.error('No model provider configured for summaries');
+        return null;
       }
+      await usageService.assertWithinBudget();
 
-      const model = this.genAI!.getGenerativeModel({ model: GEMINI_MODEL });
-
-      const prompt = `${GEMINI_PROMPTS.GENERATE_DAILY_SUMMARY}\n\nHealth Data:\n${JSON.stringify(healthData, null, 2)}`;
-
-      const result = await model.generateContent(prompt);
-      const response = result.response;
-      const text = response.text();
+      const template = getPromptTemplate('daily_summary');
+      const prompt = renderPrompt(template, { healthData: JSON.stringify(healthData, null, 2) });
+      const provenance = this.describeProvenance(template, resolved);
+      const response = await resolved.provider.generateText(resolved.config, prompt);
+      await this.recordUsage('summary', resolved, response);
+      const text = response.text;
 
       // Parse the JSON response
-      try {
-        const jsonMatch = text.match(/```json\n?([\s\S]*?)\n?```/) || text.match(/{[\s\S]*}/);
-        const jsonString = jsonMatch ? (jsonMatch[1] || jsonMatch[0]) : text;
-        return JSON.parse(jsonString);
-      } catch (parseError) {
-        console.error('Error parsing daily summary response:', parseError);
+      const parsed = this.parseJsonResponse(text);
+      if (!parsed.ok) {
+        console.error('Error parsing daily summary response:', parsed.error);
         return {
           summaryText: text,
           keyInsights: [],
+          provenance,
         };
       }
+      return { ...(parsed.value as { summaryText: string; keyInsights: any[] }), provenance };
     } catch (error) {
       console.error('Error generating daily summary:', error);
       return null;
@@ -146,20 +443,11 @@ class GeminiService {
   }
 
   async testApiKey(apiKey: string): Promise<boolean> {
-    try {
-      const genAI = new GoogleGenerativeAI(apiKey);
-      const model = genAI.getGenerativeModel({ model: GEMINI_MODEL });
-      
-      // Simple test prompt
-      const result = await model.generateContent('Hello, respond with "API key is valid"');
-      const response = result.response;
-      const text = response.text();
-      
-      return text.toLowerCase().includes('valid');
-    } catch (error) {
-      console.error('API key test failed:', error);
-      return false;
-    }
+    return LLM_PROVIDERS.gemini.testConnection({ apiKey, model: GEMINI_MODEL });
+  }
+
+  async testProvider(providerId: LLMProviderId, config: LLMProviderConfig): Promise<boolean> {
+    return LLM_PROVIDERS[providerId].testConnection(config);
   }
 }
 
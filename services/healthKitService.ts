@@ -2,6 +2,8 @@ import { Platform } from 'react-native';
 import { HEALTH_PERMISSIONS } from '@/utils/constants';
 import { HealthMetric, HealthMetricType } from '@/types/health';
 
+const HEALTHKIT_SOURCE = 'healthkit';
+
 // Note: react-native-health is iOS only
 let AppleHealthKit: any = null;
 if (Platform.OS === 'ios') {
@@ -55,6 +57,8 @@ class HealthKitService {
           value: sample.value,
           unit: 'count',
           recordedAt: new Date(sample.startDate),
+          // Daily totals have no sample id; the day they start on identifies them
+          source: HEALTHKIT_SOURCE,
           userId: '', // Will be set by the caller
         }));
 
@@ -86,6 +90,8 @@ class HealthKitService {
           value: sample.value,
           unit: 'bpm',
           recordedAt: new Date(sample.startDate),
+          source: HEALTHKIT_SOURCE,
+          sourceSampleId: sample.id,
           userId: '',
         }));
 
@@ -125,6 +131,7 @@ class HealthKitService {
           value: Math.round(hours * 10) / 10, // Round to 1 decimal place
           unit: 'hours',
           recordedAt: new Date(date),
+          source: HEALTHKIT_SOURCE,
           userId: '',
         }));
 
@@ -155,6 +162,8 @@ class HealthKitService {
           value: sample.value,
           unit: 'kg',
           recordedAt: new Date(sample.startDate),
+          source: HEALTHKIT_SOURCE,
+          sourceSampleId: sample.id,
           userId: '',
         }));
 
@@ -0,0 +1,159 @@
+import { EnhancedGenerateContentResponse, GoogleGenerativeAI } from '@google/generative-ai';
+import { FixtureProvider } from './fixtureProvider';
+import { LLM_DEFAULT_BASE_URLS } from '@/utils/constants';
+import {
+  LLMConversation,
+  LLMDocumentPart,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMProviderId,
+  LLMResponse,
+} from '@/types/llm';
+
+// Carries the HTTP status so rate limits and server errors can be retried (see utils/retryPolicy.ts)
+export class LLMRequestError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'LLMRequestError';
+  }
+}
+
+class GeminiProvider implements LLMProvider {
+  readonly id = 'gemini';
+  readonly label = 'Google Gemini';
+  readonly requiresApiKey = true;
+  readonly requiresNetwork = true;
+
+  private getModel(config: LLMProviderConfig) {
+    return new GoogleGenerativeAI(config.apiKey ?? '').getGenerativeModel({ model: config.model });
+  }
+
+  private toResponse(response: EnhancedGenerateContentResponse): LLMResponse {
+    const { usageMetadata } = response;
+    return {
+      text: response.text(),
+      usage: usageMetadata && {
+        inputTokens: usageMetadata.promptTokenCount,
+        outputTokens: usageMetadata.candidatesTokenCount,
+      },
+    };
+  }
+
+  startConversation(config: LLMProviderConfig): LLMConversation {
+    const chat = this.getModel(config).startChat();
+    return {
+      send: async (prompt, documentParts = [], signal) =>
+        this.toResponse((await chat.sendMessage([prompt, ...documentParts], { signal })).response),
+    };
+  }
+
+  async generateText(config: LLMProviderConfig, prompt: string, signal?: AbortSignal): Promise<LLMResponse> {
+    return this.toResponse((await this.getModel(config).generateContent(prompt, { signal })).response);
+  }
+
+  async testConnection(config: LLMProviderConfig): Promise<boolean> {
+    try {
+      const { text } = await this.generateText(config, 'Hello, respond with "API key is valid"');
+      return text.toLowerCase().includes('valid');
+    } catch (error) {
+      console.error('API key test failed:', error);
+      return false;
+    }
+  }
+}
+
+/**
+ * Any server that implements the OpenAI chat completions API: OpenAI itself,
+ * hosted gateways, or a model server such as Ollama on the local network.
+ * Photos are sent as image parts and PDFs as file parts; servers whose models
+ * cannot read files reject the request.
+ */
+class OpenAICompatibleProvider implements LLMProvider {
+  readonly requiresNetwork = true;
+
+  constructor(
+    readonly id: keyof typeof LLM_DEFAULT_BASE_URLS,
+    readonly label: string,
+    readonly requiresApiKey: boolean
+  ) {}
+
+  private async complete(config: LLMProviderConfig, messages: object[], signal?: AbortSignal): Promise<LLMResponse> {
+    const baseUrl = (config.baseUrl || LLM_DEFAULT_BASE_URLS[this.id]).replace(/\/+$/, '');
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model: config.model, messages }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new LLMRequestError(`${this.label} request failed with status ${response.status}: ${body.slice(0, 200)}`, response.status);
+    }
+
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new LLMRequestError(`${this.label} returned no message content`);
+    }
+    return {
+      text: content,
+      usage: data.usage && {
+        inputTokens: data.usage.prompt_tokens ?? 0,
+        outputTokens: data.usage.completion_tokens ?? 0,
+      },
+    };
+  }
+
+  private toContent(prompt: string, documentParts: LLMDocumentPart[]): object[] {
+    return [
+      { type: 'text', text: prompt },
+      ...documentParts.map(({ inlineData }, index) => {
+        const dataUrl = `data:${inlineData.mimeType};base64,${inlineData.data}`;
+        return inlineData.mimeType.startsWith('image/')
+          ? { type: 'image_url', image_url: { url: dataUrl } }
+          : { type: 'file', file: { filename: `document-${index + 1}.pdf`, file_data: dataUrl } };
+      }),
+    ];
+  }
+
+  startConversation(config: LLMProviderConfig): LLMConversation {
+    const messages: object[] = [];
+    return {
+      send: async (prompt, documentParts = [], signal) => {
+        messages.push({
+          role: 'user',
+          content: documentParts.length > 0 ? this.toContent(prompt, documentParts) : prompt,
+        });
+        const reply = await this.complete(config, messages, signal);
+        messages.push({ role: 'assistant', content: reply.text });
+        return reply;
+      },
+    };
+  }
+
+  async generateText(config: LLMProviderConfig, prompt: string, signal?: AbortSignal): Promise<LLMResponse> {
+    return this.complete(config, [{ role: 'user', content: prompt }], signal);
+  }
+
+  // Local models do not reliably follow the instruction, so any reply counts
+  async testConnection(config: LLMProviderConfig): Promise<boolean> {
+    try {
+      const { text } = await this.generateText(config, 'Hello, respond with "API key is valid"');
+      return text.trim().length > 0;
+    } catch (error) {
+      console.error(`${this.label} connection test failed:`, error);
+      return false;
+    }
+  }
+}
+
+export const LLM_PROVIDERS: { [id in LLMProviderId]: LLMProvider } = {
+  gemini: new GeminiProvider(),
+  openai: new OpenAICompatibleProvider('openai', 'OpenAI-compatible', true),
+  local: new OpenAICompatibleProvider('local', 'Local model server', false),
+  fixture: new FixtureProvider(),
+};
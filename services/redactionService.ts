@@ -0,0 +1,47 @@
+import * as FileSystem from 'expo-file-system';
+import { Redaction } from '@/types/redaction';
+
+const REDACTIONS_FILE = `${FileSystem.documentDirectory}redactions.json`;
+
+/**
+ * Keeps what each placeholder stood for in documents that were redacted
+ * before extraction, keyed by the document's content hash. The mapping is
+ * only stored on the device; it is never uploaded or sent to a model.
+ */
+class RedactionService {
+  private mappings: { [contentHash: string]: Redaction[] } | null = null;
+
+  private async readMappings(): Promise<{ [contentHash: string]: Redaction[] }> {
+    if (this.mappings) return this.mappings;
+
+    try {
+      const info = await FileSystem.getInfoAsync(REDACTIONS_FILE);
+      this.mappings = info.exists ? JSON.parse(await FileSystem.readAsStringAsync(REDACTIONS_FILE)) : {};
+    } catch (error) {
+      console.error('Error reading redactions:', error);
+      this.mappings = {};
+    }
+    return this.mappings!;
+  }
+
+  private async writeMappings(mappings: { [contentHash: string]: Redaction[] }): Promise<void> {
+    this.mappings = mappings;
+    try {
+      await FileSystem.writeAsStringAsync(REDACTIONS_FILE, JSON.stringify(mappings));
+    } catch (error) {
+      console.error('Error saving redactions:', error);
+    }
+  }
+
+  async getRedactions(contentHash: string): Promise<Redaction[]> {
+    return (await this.readMappings())[contentHash] ?? [];
+  }
+
+  // Replaces the mapping of a document; a document extracted without redaction has none
+  async setRedactions(contentHash: string, redactions: Redaction[] | undefined): Promise<void> {
+    const { [contentHash]: _previous, ...others } = await this.readMappings();
+    await this.writeMappings(redactions && redactions.length > 0 ? { ...others, [contentHash]: redactions } : others);
+  }
+}
+
+export default new RedactionService();
@@ -1,5 +1,15 @@
 import * as SecureStore from 'expo-secure-store';
-import { STORAGE_KEYS } from '@/utils/constants';
+import { LLM_DEFAULT_MODELS, STORAGE_KEYS } from '@/utils/constants';
+import { LLMProviderConfig, LLMProviderId, LLMTask } from '@/types/llm';
+import { UsageBudget } from '@/types/usage';
+import { RedactionSettings } from '@/types/redaction';
+
+const DEFAULT_TASK_PROVIDERS: { [task in LLMTask]: LLMProviderId } = {
+  extraction: 'gemini',
+  summary: 'gemini',
+};
+
+const providerConfigKey = (providerId: LLMProviderId) => `${STORAGE_KEYS.LLM_PROVIDER_CONFIG_PREFIX}${providerId}`;
 
 class StorageService {
   async setGeminiApiKey(apiKey: string): Promise<void> {
@@ -14,6 +24,79 @@ class StorageService {
     await SecureStore.deleteItemAsync(STORAGE_KEYS.GEMINI_API_KEY);
   }
 
+  // The Gemini API key stays under its original key; other settings are stored per provider
+  async getProviderConfig(providerId: LLMProviderId): Promise<LLMProviderConfig | null> {
+    const stored = await SecureStore.getItemAsync(providerConfigKey(providerId));
+    const config: Partial<LLMProviderConfig> = stored ? JSON.parse(stored) : {};
+
+    if (providerId === 'gemini') {
+      const apiKey = await this.getGeminiApiKey();
+      if (!stored && !apiKey) return null;
+      return { model: LLM_DEFAULT_MODELS.gemini, ...config, apiKey: apiKey ?? undefined };
+    }
+    return stored ? { model: LLM_DEFAULT_MODELS[providerId], ...config } : null;
+  }
+
+  async setProviderConfig(providerId: LLMProviderId, config: LLMProviderConfig): Promise<void> {
+    if (providerId === 'gemini') {
+      const { apiKey, ...settings } = config;
+      if (apiKey) {
+        await this.setGeminiApiKey(apiKey);
+      }
+      await SecureStore.setItemAsync(providerConfigKey(providerId), JSON.stringify(settings));
+      return;
+    }
+    await SecureStore.setItemAsync(providerConfigKey(providerId), JSON.stringify(config));
+  }
+
+  async removeProviderConfig(providerId: LLMProviderId): Promise<void> {
+    await SecureStore.deleteItemAsync(providerConfigKey(providerId));
+    if (providerId === 'gemini') {
+      await this.removeGeminiApiKey();
+    }
+  }
+
+  async getTaskProviders(): Promise<{ [task in LLMTask]: LLMProviderId }> {
+    // EXPO_PUBLIC_LLM_PROVIDER runs every task on one provider, e.g. "fixture" for an offline demo
+    const override = process.env.EXPO_PUBLIC_LLM_PROVIDER;
+    if (override && override in LLM_DEFAULT_MODELS) {
+      return { extraction: override as LLMProviderId, summary: override as LLMProviderId };
+    }
+    return this.getStoredTaskProviders();
+  }
+
+  private async getStoredTaskProviders(): Promise<{ [task in LLMTask]: LLMProviderId }> {
+    const stored = await SecureStore.getItemAsync(STORAGE_KEYS.LLM_TASK_PROVIDERS);
+    return { ...DEFAULT_TASK_PROVIDERS, ...(stored ? JSON.parse(stored) : {}) };
+  }
+
+  async setTaskProvider(task: LLMTask, providerId: LLMProviderId): Promise<void> {
+    const taskProviders = await this.getStoredTaskProviders();
+    await SecureStore.setItemAsync(
+      STORAGE_KEYS.LLM_TASK_PROVIDERS,
+      JSON.stringify({ ...taskProviders, [task]: providerId })
+    );
+  }
+
+  async getUsageBudget(): Promise<UsageBudget> {
+    const stored = await SecureStore.getItemAsync(STORAGE_KEYS.USAGE_BUDGET);
+    return stored ? JSON.parse(stored) : {};
+  }
+
+  async setUsageBudget(budget: UsageBudget): Promise<void> {
+    await SecureStore.setItemAsync(STORAGE_KEYS.USAGE_BUDGET, JSON.stringify(budget));
+  }
+
+  // Redaction is opt-in
+  async getRedactionSettings(): Promise<RedactionSettings> {
+    const stored = await SecureStore.getItemAsync(STORAGE_KEYS.REDACTION_SETTINGS);
+    return { enabled: false, customTerms: [], ...(stored ? JSON.parse(stored) : {}) };
+  }
+
+  async setRedactionSettings(settings: RedactionSettings): Promise<void> {
+    await SecureStore.setItemAsync(STORAGE_KEYS.REDACTION_SETTINGS, JSON.stringify(settings));
+  }
+
   async setUserId(userId: string): Promise<void> {
     await SecureStore.setItemAsync(STORAGE_KEYS.USER_ID, userId);
   }
@@ -35,6 +118,12 @@ class StorageService {
       SecureStore.deleteItemAsync(STORAGE_KEYS.GEMINI_API_KEY),
       SecureStore.deleteItemAsync(STORAGE_KEYS.USER_ID),
       SecureStore.deleteItemAsync(STORAGE_KEYS.APPLE_USER_ID),
+      SecureStore.deleteItemAsync(STORAGE_KEYS.LLM_TASK_PROVIDERS),
+      SecureStore.deleteItemAsync(STORAGE_KEYS.USAGE_BUDGET),
+      SecureStore.deleteItemAsync(STORAGE_KEYS.REDACTION_SETTINGS),
+      ...(Object.keys(LLM_DEFAULT_MODELS) as LLMProviderId[]).map(providerId =>
+        SecureStore.deleteItemAsync(providerConfigKey(providerId))
+      ),
     ]);
   }
 }
@@ -1,6 +1,115 @@
 import { createClient } from '@supabase/supabase-js';
 import { SUPABASE_URL, SUPABASE_ANON_KEY } from '@/utils/constants';
-import { User, HealthDocument, HealthMetric, DailySummary } from '@/types/health';
+import { User, HealthDocument, HealthMetric, HealthMetricType, DailySummary, Comparator, Condition, ConditionStatus, LabValueKind, Medication, MedicationStatus, MetricUpsertResult, NormalizedHealthData, QualitativeResult, RangeFlag } from '@/types/health';
+import { ExtractionCorrection } from '@/types/document';
+
+// Sample keys looked up per request, to keep the query string short
+const UPSERT_LOOKUP_CHUNK = 200;
+const SIGNED_URL_EXPIRY_SECONDS = 60 * 10;
+
+// Table rows as Supabase returns them: snake_case, with unset columns as null
+interface HealthDocumentRow {
+  id: string;
+  user_id: string;
+  file_url: string;
+  file_paths: string[] | null;
+  file_name: string;
+  gemini_extracted_text: string | null;
+  normalized_data: NormalizedHealthData | null;
+  content_hash: string | null;
+  prompt_id: string | null;
+  prompt_version: number | null;
+  model: string | null;
+  created_at: string;
+}
+
+interface HealthMetricRow {
+  id: string;
+  user_id: string;
+  metric_type: HealthMetricType;
+  loinc_code: string | null;
+  pair_id: string | null;
+  document_hash: string | null;
+  document_id: string | null;
+  source_label: string | null;
+  source_page: number | null;
+  source_snippet: string | null;
+  value: number | null;
+  unit: string;
+  value_kind: LabValueKind | null;
+  value_comparator: Comparator | null;
+  value_high: number | null;
+  value_text: QualitativeResult | null;
+  reference_low: number | null;
+  reference_high: number | null;
+  reference_text: string | null;
+  range_flag: RangeFlag | null;
+  original_value: number | null;
+  original_unit: string | null;
+  recorded_at: string;
+  source: string | null;
+  source_sample_id: string | null;
+}
+
+// The columns written when syncing metrics, and read back to compare with the stored ones
+interface MetricUpsertRow {
+  user_id: string;
+  metric_type: string;
+  source: string;
+  source_sample_id?: string;
+  sample_key: string;
+  value: number | null;
+  unit: string;
+  recorded_at: string;
+}
+
+interface DailySummaryRow {
+  id: string;
+  user_id: string;
+  summary_date: string;
+  summary_text: string;
+  key_insights: DailySummary['keyInsights'] | null;
+  prompt_id: string | null;
+  prompt_version: number | null;
+  model: string | null;
+  created_at: string;
+}
+
+interface MedicationRow {
+  id: string;
+  user_id: string;
+  name: string;
+  normalized_name: string;
+  dosage: string | null;
+  frequency: string | null;
+  start_date: string | null;
+  last_seen_date: string | null;
+  provider: string | null;
+  document_id: string | null;
+  document_hash: string | null;
+  status: MedicationStatus;
+  stopped_date: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ConditionRow {
+  id: string;
+  user_id: string;
+  name: string;
+  condition_key: string;
+  icd10_code: string | null;
+  icd10_display: string | null;
+  notes: string | null;
+  onset_date: string | null;
+  last_seen_date: string | null;
+  document_id: string | null;
+  document_hash: string | null;
+  status: ConditionStatus;
+  resolved_date: string | null;
+  created_at: string;
+  updated_at: string;
+}
 
 class SupabaseService {
   private client;
@@ -50,11 +159,18 @@ class SupabaseService {
   }
 
   // Document methods
-  async uploadDocument(file: Blob, fileName: string, userId: string): Promise<string | null> {
-    const filePath = `${userId}/${Date.now()}-${fileName}`;
-    const { data, error } = await this.client.storage
+  async uploadDocument(
+    data: ArrayBuffer,
+    fileName: string,
+    userId: string,
+    contentType: string
+  ): Promise<string | null> {
+    // Storage keys only allow a limited character set
+    const safeName = fileName.replace(/[^\w.-]+/g, '_');
+    const filePath = `${userId}/${Date.now()}-${safeName}`;
+    const { error } = await this.client.storage
       .from('health-documents')
-      .upload(filePath, file);
+      .upload(filePath, data, { contentType });
 
     if (error) {
       console.error('Error uploading document:', error);
@@ -63,6 +179,19 @@ class SupabaseService {
     return filePath;
   }
 
+  // The bucket is private: files are viewed through short-lived signed URLs
+  async getDocumentSignedUrls(filePaths: string[]): Promise<string[] | null> {
+    const { data, error } = await this.client.storage
+      .from('health-documents')
+      .createSignedUrls(filePaths, SIGNED_URL_EXPIRY_SECONDS);
+
+    if (error || !data) {
+      console.error('Error creating signed URLs:', error);
+      return null;
+    }
+    return data.filter(item => item.signedUrl).map(item => item.signedUrl);
+  }
+
   async saveHealthDocument(document: Omit<HealthDocument, 'id' | 'createdAt'>): Promise<HealthDocument | null> {
     console.log('💾 Attempting to save health document to Supabase...');
     console.log('👤 User ID:', document.userId);
@@ -76,9 +205,14 @@ class SupabaseService {
       .insert({
         user_id: document.userId,
         file_url: document.fileUrl,
+        file_paths: document.filePaths,
         file_name: document.fileName,
         gemini_extracted_text: document.geminiExtractedText,
         normalized_data: document.normalizedData,
+        content_hash: document.contentHash,
+        prompt_id: document.promptId,
+        prompt_version: document.promptVersion,
+        model: document.model,
       })
       .select()
       .single();
@@ -90,14 +224,96 @@ class SupabaseService {
     }
     
     console.log('✅ Health document saved successfully');
-    return data;
+    return this.toHealthDocument(data);
+  }
+
+  async findHealthDocumentByHash(userId: string, contentHash: string): Promise<HealthDocument | null> {
+    const { data, error } = await this.client
+      .from('health_documents')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('content_hash', contentHash)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error looking up document by hash:', error);
+      return null;
+    }
+    return data ? this.toHealthDocument(data) : null;
+  }
+
+  // Replaces the extraction of a document that was processed again
+  async updateHealthDocumentExtraction(
+    documentId: string,
+    extraction: Pick<
+      HealthDocument,
+      'fileName' | 'fileUrl' | 'filePaths' | 'geminiExtractedText' | 'normalizedData' | 'promptId' | 'promptVersion' | 'model'
+    >
+  ): Promise<HealthDocument | null> {
+    const { data, error } = await this.client
+      .from('health_documents')
+      .update({
+        file_name: extraction.fileName,
+        file_url: extraction.fileUrl,
+        file_paths: extraction.filePaths,
+        gemini_extracted_text: extraction.geminiExtractedText,
+        normalized_data: extraction.normalizedData,
+        prompt_id: extraction.promptId,
+        prompt_version: extraction.promptVersion,
+        model: extraction.model,
+      })
+      .eq('id', documentId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating health document:', error);
+      return null;
+    }
+    return this.toHealthDocument(data);
+  }
+
+  private toHealthDocument(row: HealthDocumentRow): HealthDocument {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      fileUrl: row.file_url,
+      filePaths: row.file_paths ?? undefined,
+      fileName: row.file_name,
+      geminiExtractedText: row.gemini_extracted_text ?? undefined,
+      normalizedData: row.normalized_data ?? undefined,
+      contentHash: row.content_hash ?? undefined,
+      promptId: row.prompt_id ?? undefined,
+      promptVersion: row.prompt_version ?? undefined,
+      model: row.model ?? undefined,
+      createdAt: new Date(row.created_at),
+    };
   }
 
   async saveHealthMetrics(metrics: Array<{
     userId: string;
     metricType: string;
-    value: number;
+    loincCode?: string | null;
+    pairId?: string;
+    documentId?: string;
+    documentHash?: string;
+    sourceLabel?: string;
+    sourcePage?: number;
+    sourceSnippet?: string;
+    value: number | null;
     unit: string;
+    valueKind?: LabValueKind;
+    valueComparator?: Comparator;
+    valueHigh?: number;
+    valueText?: QualitativeResult;
+    referenceLow?: number;
+    referenceHigh?: number;
+    referenceText?: string;
+    rangeFlag?: RangeFlag;
+    originalValue?: number | null;
+    originalUnit?: string;
     recordedAt: Date;
     source: string;
   }>): Promise<boolean> {
@@ -110,8 +326,25 @@ class SupabaseService {
         metrics.map(metric => ({
           user_id: metric.userId,
           metric_type: metric.metricType,
+          loinc_code: metric.loincCode,
+          pair_id: metric.pairId,
+          document_id: metric.documentId,
+          document_hash: metric.documentHash,
+          source_label: metric.sourceLabel,
+          source_page: metric.sourcePage,
+          source_snippet: metric.sourceSnippet,
           value: metric.value,
           unit: metric.unit,
+          value_kind: metric.valueKind,
+          value_comparator: metric.valueComparator,
+          value_high: metric.valueHigh,
+          value_text: metric.valueText,
+          reference_low: metric.referenceLow,
+          reference_high: metric.referenceHigh,
+          reference_text: metric.referenceText,
+          range_flag: metric.rangeFlag,
+          original_value: metric.originalValue,
+          original_unit: metric.originalUnit,
           recorded_at: metric.recordedAt.toISOString(),
           source: metric.source,
         }))
@@ -129,6 +362,106 @@ class SupabaseService {
     return true;
   }
 
+  async saveExtractionCorrections(
+    userId: string,
+    fileName: string,
+    corrections: ExtractionCorrection[]
+  ): Promise<boolean> {
+    const { error } = await this.client
+      .from('extraction_corrections')
+      .insert(
+        corrections.map(correction => ({
+          user_id: userId,
+          file_name: fileName,
+          correction_type: correction.correctionType,
+          test_label: correction.testLabel,
+          field: correction.field,
+          original_value: correction.originalValue,
+          corrected_value: correction.correctedValue,
+        }))
+      );
+
+    if (error) {
+      console.error('Error saving extraction corrections:', error);
+      return false;
+    }
+    return true;
+  }
+
+  async getMetricIdsForDocument(userId: string, documentHash: string): Promise<string[] | null> {
+    const { data, error } = await this.client
+      .from('health_metrics')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('document_hash', documentHash);
+
+    if (error) {
+      console.error('Error fetching metrics for document:', error);
+      return null;
+    }
+    return (data || []).map(row => row.id);
+  }
+
+  async deleteHealthMetrics(ids: string[]): Promise<boolean> {
+    if (ids.length === 0) return true;
+
+    const { error } = await this.client
+      .from('health_metrics')
+      .delete()
+      .in('id', ids);
+
+    if (error) {
+      console.error('Error deleting health metrics:', error);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Deletes a document with the metrics read from it and its stored original.
+   * Metrics saved before they were linked by id are found by the content hash.
+   */
+  async deleteHealthDocument(document: HealthDocument): Promise<boolean> {
+    const { error: metricsError } = await this.client
+      .from('health_metrics')
+      .delete()
+      .eq('document_id', document.id);
+
+    if (metricsError) {
+      console.error('Error deleting metrics of document:', metricsError);
+      return false;
+    }
+
+    if (document.contentHash) {
+      const ids = await this.getMetricIdsForDocument(document.userId, document.contentHash);
+      if (ids === null || !(await this.deleteHealthMetrics(ids))) {
+        return false;
+      }
+    }
+
+    if (document.filePaths && document.filePaths.length > 0) {
+      const { error: storageError } = await this.client.storage
+        .from('health-documents')
+        .remove(document.filePaths);
+
+      // An orphaned file is not worth keeping the document for
+      if (storageError) {
+        console.error('Error deleting stored document files:', storageError);
+      }
+    }
+
+    const { error } = await this.client
+      .from('health_documents')
+      .delete()
+      .eq('id', document.id);
+
+    if (error) {
+      console.error('Error deleting health document:', error);
+      return false;
+    }
+    console.log(`🗑️ Deleted document ${document.fileName} and its metrics`);
+    return true;
+  }
 
   async getHealthDocuments(userId: string): Promise<HealthDocument[]> {
     const { data, error } = await this.client
@@ -141,7 +474,7 @@ class SupabaseService {
       console.error('Error fetching health documents:', error);
       return [];
     }
-    return data || [];
+    return (data || []).map(row => this.toHealthDocument(row));
   }
 
   // Health metrics methods
@@ -165,24 +498,89 @@ class SupabaseService {
     return data;
   }
 
-  async saveHealthMetricsBatch(metrics: Omit<HealthMetric, 'id'>[]): Promise<boolean> {
-    const { error } = await this.client
-      .from('health_metrics')
-      .insert(
-        metrics.map(m => ({
-          user_id: m.userId,
-          metric_type: m.metricType,
-          value: m.value,
-          unit: m.unit,
-          recorded_at: m.recordedAt,
-        }))
-      );
+  /**
+   * Writes synced metrics keyed by (user, type, source, sample key), where the
+   * sample key is the recorded time. The source's sample id is stored but not
+   * part of the key, so rows synced before sample ids were kept still match. Metrics
+   * already stored with the same value are left alone, so syncing the same
+   * window twice changes nothing.
+   */
+  async upsertHealthMetrics(metrics: Omit<HealthMetric, 'id'>[]): Promise<MetricUpsertResult | null> {
+    const rows = new Map<string, MetricUpsertRow>();
+    metrics.forEach(metric => {
+      const recordedAt = new Date(metric.recordedAt);
+      const row = {
+        user_id: metric.userId,
+        metric_type: metric.metricType,
+        source: metric.source ?? 'manual',
+        source_sample_id: metric.sourceSampleId,
+        sample_key: recordedAt.toISOString(),
+        value: metric.value,
+        unit: metric.unit,
+        recorded_at: recordedAt.toISOString(),
+      };
+      // A key may only appear once per upsert; the last sample wins
+      rows.set(this.naturalKey(row), row);
+    });
+
+    const existing = new Map<string, Omit<MetricUpsertRow, 'source_sample_id'>>();
+    const userIds = Array.from(new Set(Array.from(rows.values()).map(row => row.user_id)));
+    for (const userId of userIds) {
+      const keys = Array.from(new Set(
+        Array.from(rows.values()).filter(row => row.user_id === userId).map(row => row.sample_key)
+      ));
+      for (let i = 0; i < keys.length; i += UPSERT_LOOKUP_CHUNK) {
+        const { data, error } = await this.client
+          .from('health_metrics')
+          .select('user_id, metric_type, source, sample_key, value, unit, recorded_at')
+          .eq('user_id', userId)
+          .in('sample_key', keys.slice(i, i + UPSERT_LOOKUP_CHUNK));
+
+        if (error) {
+          console.error('Error looking up existing health metrics:', error);
+          return null;
+        }
+        (data || []).forEach(row => existing.set(this.naturalKey(row), row));
+      }
+    }
 
-    if (error) {
-      console.error('Error saving health metrics batch:', error);
-      return false;
+    const result: MetricUpsertResult = { inserted: 0, updated: 0, unchanged: 0 };
+    const changed = Array.from(rows.entries())
+      .filter(([key, row]) => {
+        const stored = existing.get(key);
+        if (!stored) {
+          result.inserted++;
+          return true;
+        }
+        const same = Number(stored.value) === row.value
+          && stored.unit === row.unit
+          && new Date(stored.recorded_at).getTime() === new Date(row.recorded_at).getTime();
+        if (same) {
+          result.unchanged++;
+          return false;
+        }
+        result.updated++;
+        return true;
+      })
+      .map(([, row]) => row);
+
+    if (changed.length > 0) {
+      const { error } = await this.client
+        .from('health_metrics')
+        .upsert(changed, { onConflict: 'user_id,metric_type,source,sample_key' });
+
+      if (error) {
+        console.error('Error upserting health metrics:', error);
+        return null;
+      }
     }
-    return true;
+
+    console.log(`🔁 Health metrics: ${result.inserted} inserted, ${result.updated} updated, ${result.unchanged} unchanged`);
+    return result;
+  }
+
+  private naturalKey(row: { user_id: string; metric_type: string; source: string; sample_key: string }): string {
+    return [row.user_id, row.metric_type, row.source, row.sample_key].join('|');
   }
 
   async getHealthMetrics(userId: string, startDate?: Date, endDate?: Date): Promise<HealthMetric[]> {
@@ -204,7 +602,237 @@ class SupabaseService {
       console.error('Error fetching health metrics:', error);
       return [];
     }
-    return data || [];
+    return (data || []).map(row => this.toHealthMetric(row));
+  }
+
+  private toHealthMetric(row: HealthMetricRow): HealthMetric {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      metricType: row.metric_type,
+      loincCode: row.loinc_code ?? undefined,
+      pairId: row.pair_id ?? undefined,
+      documentHash: row.document_hash ?? undefined,
+      documentId: row.document_id ?? undefined,
+      sourceLabel: row.source_label ?? undefined,
+      sourcePage: row.source_page ?? undefined,
+      sourceSnippet: row.source_snippet ?? undefined,
+      value: row.value,
+      unit: row.unit,
+      valueKind: row.value_kind ?? undefined,
+      valueComparator: row.value_comparator ?? undefined,
+      valueHigh: row.value_high ?? undefined,
+      valueText: row.value_text ?? undefined,
+      referenceLow: row.reference_low ?? undefined,
+      referenceHigh: row.reference_high ?? undefined,
+      referenceText: row.reference_text ?? undefined,
+      rangeFlag: row.range_flag ?? undefined,
+      originalValue: row.original_value ?? undefined,
+      originalUnit: row.original_unit ?? undefined,
+      recordedAt: new Date(row.recorded_at),
+      source: row.source ?? undefined,
+      sourceSampleId: row.source_sample_id ?? undefined,
+    };
+  }
+
+  // Medication methods
+  async getMedications(userId: string): Promise<Medication[] | null> {
+    const { data, error } = await this.client
+      .from('medications')
+      .select('*')
+      .eq('user_id', userId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching medications:', error);
+      return null;
+    }
+    return (data || []).map(row => this.toMedication(row));
+  }
+
+  // Entries are matched on the user and normalized name, so a reconciled entry updates its row
+  async saveMedications(medications: Omit<Medication, 'id' | 'createdAt' | 'updatedAt'>[]): Promise<boolean> {
+    if (medications.length === 0) return true;
+
+    const updatedAt = new Date().toISOString();
+    const { error } = await this.client
+      .from('medications')
+      .upsert(
+        medications.map(medication => ({
+          user_id: medication.userId,
+          name: medication.name,
+          normalized_name: medication.normalizedName,
+          dosage: medication.dosage ?? null,
+          frequency: medication.frequency ?? null,
+          start_date: medication.startDate ?? null,
+          last_seen_date: medication.lastSeenDate ?? null,
+          provider: medication.provider ?? null,
+          document_id: medication.documentId ?? null,
+          document_hash: medication.documentHash ?? null,
+          status: medication.status,
+          stopped_date: medication.stoppedDate ?? null,
+          updated_at: updatedAt,
+        })),
+        { onConflict: 'user_id,normalized_name' }
+      );
+
+    if (error) {
+      console.error('Error saving medications:', error);
+      return false;
+    }
+    return true;
+  }
+
+  async updateMedicationStatus(id: string, status: MedicationStatus, stoppedDate?: string): Promise<Medication | null> {
+    const { data, error } = await this.client
+      .from('medications')
+      .update({
+        status,
+        stopped_date: status === 'stopped' ? stoppedDate ?? new Date().toISOString().slice(0, 10) : null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating medication:', error);
+      return null;
+    }
+    return this.toMedication(data);
+  }
+
+  async deleteMedication(id: string): Promise<boolean> {
+    const { error } = await this.client
+      .from('medications')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting medication:', error);
+      return false;
+    }
+    return true;
+  }
+
+  private toMedication(row: MedicationRow): Medication {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      normalizedName: row.normalized_name,
+      dosage: row.dosage ?? undefined,
+      frequency: row.frequency ?? undefined,
+      startDate: row.start_date ?? undefined,
+      lastSeenDate: row.last_seen_date ?? undefined,
+      provider: row.provider ?? undefined,
+      documentId: row.document_id ?? undefined,
+      documentHash: row.document_hash ?? undefined,
+      status: row.status,
+      stoppedDate: row.stopped_date ?? undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  // Condition methods
+  async getConditions(userId: string): Promise<Condition[] | null> {
+    const { data, error } = await this.client
+      .from('conditions')
+      .select('*')
+      .eq('user_id', userId)
+      .order('onset_date', { ascending: false, nullsFirst: false });
+
+    if (error) {
+      console.error('Error fetching conditions:', error);
+      return null;
+    }
+    return (data || []).map(row => this.toCondition(row));
+  }
+
+  // Entries are matched on the user and condition key, so a reconciled entry updates its row
+  async saveConditions(conditions: Omit<Condition, 'id' | 'createdAt' | 'updatedAt'>[]): Promise<boolean> {
+    if (conditions.length === 0) return true;
+
+    const updatedAt = new Date().toISOString();
+    const { error } = await this.client
+      .from('conditions')
+      .upsert(
+        conditions.map(condition => ({
+          user_id: condition.userId,
+          name: condition.name,
+          condition_key: condition.conditionKey,
+          icd10_code: condition.icd10Code ?? null,
+          icd10_display: condition.icd10Display ?? null,
+          notes: condition.notes ?? null,
+          onset_date: condition.onsetDate ?? null,
+          last_seen_date: condition.lastSeenDate ?? null,
+          document_id: condition.documentId ?? null,
+          document_hash: condition.documentHash ?? null,
+          status: condition.status,
+          resolved_date: condition.resolvedDate ?? null,
+          updated_at: updatedAt,
+        })),
+        { onConflict: 'user_id,condition_key' }
+      );
+
+    if (error) {
+      console.error('Error saving conditions:', error);
+      return false;
+    }
+    return true;
+  }
+
+  async updateConditionStatus(id: string, status: ConditionStatus, resolvedDate?: string): Promise<Condition | null> {
+    const { data, error } = await this.client
+      .from('conditions')
+      .update({
+        status,
+        resolved_date: status === 'resolved' ? resolvedDate ?? new Date().toISOString().slice(0, 10) : null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating condition:', error);
+      return null;
+    }
+    return this.toCondition(data);
+  }
+
+  async deleteCondition(id: string): Promise<boolean> {
+    const { error } = await this.client
+      .from('conditions')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting condition:', error);
+      return false;
+    }
+    return true;
+  }
+
+  private toCondition(row: ConditionRow): Condition {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      conditionKey: row.condition_key,
+      icd10Code: row.icd10_code ?? undefined,
+      icd10Display: row.icd10_display ?? undefined,
+      notes: row.notes ?? undefined,
+      onsetDate: row.onset_date ?? undefined,
+      lastSeenDate: row.last_seen_date ?? undefined,
+      documentId: row.document_id ?? undefined,
+      documentHash: row.document_hash ?? undefined,
+      status: row.status,
+      resolvedDate: row.resolved_date ?? undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
   }
 
   // Daily summary methods
@@ -216,6 +844,9 @@ class SupabaseService {
         summary_date: summary.summaryDate,
         summary_text: summary.summaryText,
         key_insights: summary.keyInsights,
+        prompt_id: summary.promptId,
+        prompt_version: summary.promptVersion,
+        model: summary.model,
       })
       .select()
       .single();
@@ -224,7 +855,7 @@ class SupabaseService {
       console.error('Error saving daily summary:', error);
       return null;
     }
-    return data;
+    return this.toDailySummary(data);
   }
 
   async getLatestDailySummary(userId: string): Promise<DailySummary | null> {
@@ -239,7 +870,7 @@ class SupabaseService {
     if (error && error.code !== 'PGRST116') {
       console.error('Error fetching latest daily summary:', error);
     }
-    return data;
+    return data ? this.toDailySummary(data) : null;
   }
 
   async getDailySummaries(userId: string, limit: number = 7): Promise<DailySummary[]> {
@@ -254,7 +885,21 @@ class SupabaseService {
       console.error('Error fetching daily summaries:', error);
       return [];
     }
-    return data || [];
+    return (data || []).map(row => this.toDailySummary(row));
+  }
+
+  private toDailySummary(row: DailySummaryRow): DailySummary {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      summaryDate: new Date(row.summary_date),
+      summaryText: row.summary_text,
+      keyInsights: row.key_insights ?? [],
+      promptId: row.prompt_id ?? undefined,
+      promptVersion: row.prompt_version ?? undefined,
+      model: row.model ?? undefined,
+      createdAt: new Date(row.created_at),
+    };
   }
 }
 
@@ -0,0 +1,183 @@
+import * as FileSystem from 'expo-file-system';
+import storageService from './storageService';
+import { LLMProviderId, LLMTask, LLMUsage } from '@/types/llm';
+import { AIUsageEvent, BudgetCheck, UsageSummary, UsageTotals } from '@/types/usage';
+import {
+  ESTIMATED_TOKENS_PER_CALL,
+  LLM_PRICING_PER_MILLION_TOKENS,
+  USAGE_RETENTION_DAYS,
+} from '@/utils/constants';
+
+const USAGE_FILE = `${FileSystem.documentDirectory}ai-usage.json`;
+
+// Providers that run without a paid API
+const FREE_PROVIDERS: LLMProviderId[] = ['local', 'fixture'];
+
+// How many recent calls of a task are averaged to estimate the next one
+const ESTIMATE_SAMPLE_SIZE = 10;
+
+const DAYS_SHOWN = 7;
+
+// Thrown instead of making a call once the hard monthly budget is used up
+export class BudgetExceededError extends Error {
+  constructor(readonly spentUsd: number, readonly limitUsd: number) {
+    super(`Monthly AI budget of $${limitUsd.toFixed(2)} reached ($${spentUsd.toFixed(2)} spent). Raise it in Settings to continue.`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+// Local calendar day as YYYY-MM-DD
+function dayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, unpricedCalls: 0 };
+}
+
+function sumEvents(events: AIUsageEvent[]): UsageTotals {
+  return events.reduce((totals, event) => ({
+    calls: totals.calls + 1,
+    inputTokens: totals.inputTokens + event.inputTokens,
+    outputTokens: totals.outputTokens + event.outputTokens,
+    costUsd: totals.costUsd + (event.costUsd ?? 0),
+    unpricedCalls: totals.unpricedCalls + (event.costUsd === null ? 1 : 0),
+  }), emptyTotals());
+}
+
+/**
+ * Records the tokens used by every AI call, with its model, task and cost,
+ * and checks calls against the user's monthly budget. Usage is kept on the
+ * device, like the API keys it is billed to.
+ */
+class UsageService {
+  private events: AIUsageEvent[] | null = null;
+
+  private async readEvents(): Promise<AIUsageEvent[]> {
+    if (this.events) return this.events;
+
+    try {
+      const info = await FileSystem.getInfoAsync(USAGE_FILE);
+      this.events = info.exists ? JSON.parse(await FileSystem.readAsStringAsync(USAGE_FILE)) : [];
+    } catch (error) {
+      console.error('Error reading AI usage:', error);
+      this.events = [];
+    }
+    return this.events!;
+  }
+
+  // Null when the model has no price; providers that run without a paid API cost nothing
+  priceUsage(providerId: LLMProviderId, model: string, usage: LLMUsage): number | null {
+    if (FREE_PROVIDERS.includes(providerId)) return 0;
+
+    const pricing = LLM_PRICING_PER_MILLION_TOKENS[model];
+    if (!pricing) return null;
+    return (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1_000_000;
+  }
+
+  async record(task: LLMTask, providerId: LLMProviderId, model: string, usage: LLMUsage): Promise<void> {
+    const events = await this.readEvents();
+    const costUsd = this.priceUsage(providerId, model, usage);
+    const event: AIUsageEvent = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      task,
+      provider: providerId,
+      model,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      costUsd,
+      createdAt: new Date().toISOString(),
+    };
+
+    const retentionStart = Date.now() - USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    this.events = [...events.filter(existing => new Date(existing.createdAt).getTime() >= retentionStart), event];
+    console.log(`🪙 ${task}: ${usage.inputTokens} in / ${usage.outputTokens} out tokens on ${model}` +
+      (costUsd === null ? ' (no price for this model)' : ` ≈ $${costUsd.toFixed(4)}`));
+
+    try {
+      await FileSystem.writeAsStringAsync(USAGE_FILE, JSON.stringify(this.events));
+    } catch (error) {
+      console.error('Error saving AI usage:', error);
+    }
+  }
+
+  private async getMonthEvents(): Promise<AIUsageEvent[]> {
+    const now = new Date();
+    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+    return (await this.readEvents()).filter(event => new Date(event.createdAt).getTime() >= monthStart);
+  }
+
+  async getSummary(): Promise<UsageSummary> {
+    const events = await this.readEvents();
+    const monthEvents = await this.getMonthEvents();
+    const eventsByDay = new Map<string, AIUsageEvent[]>();
+    events.forEach(event => {
+      const key = dayKey(new Date(event.createdAt));
+      eventsByDay.set(key, [...(eventsByDay.get(key) ?? []), event]);
+    });
+
+    const days = Array.from({ length: DAYS_SHOWN }, (_, index) => {
+      const date = new Date();
+      date.setDate(date.getDate() - index);
+      const key = dayKey(date);
+      return { date: key, totals: sumEvents(eventsByDay.get(key) ?? []) };
+    });
+
+    return {
+      today: days[0].totals,
+      month: sumEvents(monthEvents),
+      monthByTask: {
+        extraction: sumEvents(monthEvents.filter(event => event.task === 'extraction')),
+        summary: sumEvents(monthEvents.filter(event => event.task === 'summary')),
+      },
+      days,
+    };
+  }
+
+  // The average cost of recent calls for the task, or a typical call's tokens at the model's price
+  private async estimateCost(task: LLMTask, providerId: LLMProviderId, model: string): Promise<number> {
+    const recent = (await this.readEvents())
+      .filter(event => event.task === task && event.model === model && event.costUsd !== null)
+      .slice(-ESTIMATE_SAMPLE_SIZE);
+    if (recent.length > 0) {
+      return recent.reduce((sum, event) => sum + (event.costUsd ?? 0), 0) / recent.length;
+    }
+    return this.priceUsage(providerId, model, ESTIMATED_TOKENS_PER_CALL[task]) ?? 0;
+  }
+
+  /**
+   * Whether `calls` calls for the task fit the monthly budget: 'block' when
+   * they would go over the hard limit, 'warn' when they would go over the soft limit.
+   */
+  async checkBudget(task: LLMTask, providerId: LLMProviderId, model: string, calls = 1): Promise<BudgetCheck> {
+    const budget = await storageService.getUsageBudget();
+    if (budget.softLimitUsd === undefined && budget.hardLimitUsd === undefined) {
+      return { status: 'ok' };
+    }
+
+    const spentUsd = sumEvents(await this.getMonthEvents()).costUsd;
+    const estimatedUsd = (await this.estimateCost(task, providerId, model)) * calls;
+    if (budget.hardLimitUsd !== undefined && spentUsd + estimatedUsd > budget.hardLimitUsd) {
+      return { status: 'block', spentUsd, limitUsd: budget.hardLimitUsd, estimatedUsd };
+    }
+    if (budget.softLimitUsd !== undefined && spentUsd + estimatedUsd > budget.softLimitUsd) {
+      return { status: 'warn', spentUsd, limitUsd: budget.softLimitUsd, estimatedUsd };
+    }
+    return { status: 'ok' };
+  }
+
+  // Enforced before every call, including those of queued extractions the user is not watching
+  async assertWithinBudget(): Promise<void> {
+    const { hardLimitUsd } = await storageService.getUsageBudget();
+    if (hardLimitUsd === undefined) return;
+
+    const spentUsd = sumEvents(await this.getMonthEvents()).costUsd;
+    if (spentUsd >= hardLimitUsd) {
+      throw new BudgetExceededError(spentUsd, hardLimitUsd);
+    }
+  }
+}
+
+export default new UsageService();
@@ -0,0 +1,21 @@
+-- Corrections users make on the review screen before extracted metrics are saved
+CREATE TABLE IF NOT EXISTS extraction_corrections (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  file_name TEXT NOT NULL,
+  correction_type VARCHAR(20) NOT NULL CHECK (correction_type IN ('edited', 'remapped', 'removed', 'added')),
+  test_label TEXT NOT NULL,
+  field VARCHAR(20),
+  original_value TEXT,
+  corrected_value TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_extraction_corrections_user_id ON extraction_corrections(user_id);
+
+ALTER TABLE extraction_corrections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own corrections" ON extraction_corrections FOR SELECT USING (user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()));
+CREATE POLICY "Users can insert their own corrections" ON extraction_corrections FOR INSERT WITH CHECK (user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()));
+
+COMMENT ON TABLE extraction_corrections IS 'User edits to AI-extracted metrics, recorded when a document review is confirmed';
\ No newline at end of file
@@ -0,0 +1,10 @@
+-- Metrics are stored in the canonical unit for their metric type; keep the
+-- value and unit exactly as they appeared on the source document as well
+ALTER TABLE health_metrics
+ADD COLUMN IF NOT EXISTS original_value NUMERIC,
+ADD COLUMN IF NOT EXISTS original_unit TEXT;
+
+COMMENT ON COLUMN health_metrics.value IS 'Value in the canonical unit for metric_type';
+COMMENT ON COLUMN health_metrics.unit IS 'Canonical unit for metric_type, or the cleaned-up reported unit when no conversion is known';
+COMMENT ON COLUMN health_metrics.original_value IS 'Value as reported on the source document';
+COMMENT ON COLUMN health_metrics.original_unit IS 'Unit as reported on the source document';
\ No newline at end of file
@@ -0,0 +1,8 @@
+-- LOINC code each extracted test resolved to (see utils/loincTerminology.ts).
+-- NULL for HealthKit metrics and for tests that are not in the terminology table.
+ALTER TABLE health_metrics
+ADD COLUMN IF NOT EXISTS loinc_code VARCHAR(10);
+
+CREATE INDEX IF NOT EXISTS idx_health_metrics_loinc_code ON health_metrics(user_id, loinc_code);
+
+COMMENT ON COLUMN health_metrics.loinc_code IS 'LOINC code of the test, or NULL when the test name could not be mapped';
@@ -0,0 +1,14 @@
+-- Keep lab values in structured form: censored results ("<0.5") keep their
+-- comparator, ranges keep both ends, and qualitative results have no number
+ALTER TABLE health_metrics
+ALTER COLUMN value DROP NOT NULL,
+ADD COLUMN IF NOT EXISTS value_kind VARCHAR(12) CHECK (value_kind IN ('numeric', 'censored', 'range', 'titer', 'qualitative')),
+ADD COLUMN IF NOT EXISTS value_comparator VARCHAR(2) CHECK (value_comparator IN ('<', '<=', '>', '>=')),
+ADD COLUMN IF NOT EXISTS value_high NUMERIC,
+ADD COLUMN IF NOT EXISTS value_text VARCHAR(20);
+
+COMMENT ON COLUMN health_metrics.value IS 'Value in the canonical unit for metric_type: the exact value, the bound of a censored result, the low end of a range or the titer denominator. NULL for qualitative results';
+COMMENT ON COLUMN health_metrics.value_kind IS 'How to read value; NULL is a plain numeric value';
+COMMENT ON COLUMN health_metrics.value_comparator IS 'Comparator of a censored result, e.g. < for "<0.5"';
+COMMENT ON COLUMN health_metrics.value_high IS 'High end of a range result, in the same unit as value';
+COMMENT ON COLUMN health_metrics.value_text IS 'Qualitative result such as positive, negative or not_detected';
@@ -0,0 +1,13 @@
+-- Reference range from the source report and where the result falls against it
+ALTER TABLE health_metrics
+ADD COLUMN IF NOT EXISTS reference_low NUMERIC,
+ADD COLUMN IF NOT EXISTS reference_high NUMERIC,
+ADD COLUMN IF NOT EXISTS reference_text TEXT,
+ADD COLUMN IF NOT EXISTS range_flag VARCHAR(10) CHECK (range_flag IN ('normal', 'low', 'high', 'critical'));
+
+CREATE INDEX IF NOT EXISTS idx_health_metrics_range_flag ON health_metrics(user_id, range_flag) WHERE range_flag <> 'normal';
+
+COMMENT ON COLUMN health_metrics.reference_low IS 'Lower reference bound that applies to the patient, in the same unit as value';
+COMMENT ON COLUMN health_metrics.reference_high IS 'Upper reference bound that applies to the patient, in the same unit as value';
+COMMENT ON COLUMN health_metrics.reference_text IS 'Reference range as printed on the source report';
+COMMENT ON COLUMN health_metrics.range_flag IS 'normal, low, high, or critical when past a panic value; NULL when there is nothing to compare against';
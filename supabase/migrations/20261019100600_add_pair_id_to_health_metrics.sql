@@ -0,0 +1,8 @@
+-- Compound readings such as blood pressure "120/80" are stored as one metric per
+-- part (systolic, diastolic) sharing recorded_at and a pair id
+ALTER TABLE health_metrics
+ADD COLUMN IF NOT EXISTS pair_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_health_metrics_pair_id ON health_metrics(pair_id) WHERE pair_id IS NOT NULL;
+
+COMMENT ON COLUMN health_metrics.pair_id IS 'Shared by the metrics split out of one compound reading';
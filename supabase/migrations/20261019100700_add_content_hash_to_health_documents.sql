@@ -0,0 +1,18 @@
+-- Recognize documents that are uploaded again (e.g. the same lab PDF from email
+-- and from the patient portal) by the SHA-256 of their contents
+ALTER TABLE health_documents
+ADD COLUMN IF NOT EXISTS content_hash VARCHAR(64);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_health_documents_user_content_hash
+ON health_documents(user_id, content_hash) WHERE content_hash IS NOT NULL;
+
+-- Metrics remember which document they came from, so re-extracting a document
+-- replaces its metrics instead of adding a second copy
+ALTER TABLE health_metrics
+ADD COLUMN IF NOT EXISTS document_hash VARCHAR(64);
+
+CREATE INDEX IF NOT EXISTS idx_health_metrics_document_hash
+ON health_metrics(user_id, document_hash) WHERE document_hash IS NOT NULL;
+
+CREATE POLICY "Users can delete their own health metrics" ON health_metrics FOR DELETE USING (user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()));
+CREATE POLICY "Users can update their own documents" ON health_documents FOR UPDATE USING (user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()));
@@ -0,0 +1,45 @@
+-- Synced metrics are identified by a natural key (user, type, source and the
+-- recorded time), so syncing the same HealthKit window again updates rows instead of adding copies
+ALTER TABLE health_metrics
+ADD COLUMN IF NOT EXISTS source TEXT,
+ADD COLUMN IF NOT EXISTS source_sample_id TEXT,
+ADD COLUMN IF NOT EXISTS sample_key TEXT;
+
+-- Earlier syncs inserted HealthKit samples without a source
+UPDATE health_metrics
+SET source = 'healthkit'
+WHERE source IS NULL
+  AND metric_type IN ('steps', 'heart_rate', 'sleep_hours', 'weight');
+
+-- Keep only the most recently synced copy of each HealthKit sample
+DELETE FROM health_metrics a
+USING health_metrics b
+WHERE a.source = 'healthkit'
+  AND b.source = 'healthkit'
+  AND a.user_id = b.user_id
+  AND a.metric_type = b.metric_type
+  AND a.recorded_at = b.recorded_at
+  AND (a.created_at, a.id) < (b.created_at, b.id);
+
+-- Same format as Date.toISOString(), which the app uses for the key
+UPDATE health_metrics
+SET sample_key = to_char(recorded_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"')
+WHERE source = 'healthkit' AND sample_key IS NULL;
+
+-- Rows without a sample key (document extractions) never conflict, as NULLs are distinct
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = 'health_metrics_natural_key'
+        AND conrelid = 'health_metrics'::regclass
+    ) THEN
+        ALTER TABLE health_metrics ADD CONSTRAINT health_metrics_natural_key UNIQUE (user_id, metric_type, source, sample_key);
+    END IF;
+END $$;
+
+COMMENT ON COLUMN health_metrics.source_sample_id IS 'Identifier of the sample in its source, e.g. the HealthKit UUID';
+COMMENT ON COLUMN health_metrics.sample_key IS 'The recorded time as an ISO string, as written by Date.toISOString()';
+
+DROP POLICY IF EXISTS "Users can update their own health metrics" ON health_metrics;
+CREATE POLICY "Users can update their own health metrics" ON health_metrics FOR UPDATE USING (user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()));
@@ -0,0 +1,14 @@
+-- Uploaded documents are kept in the health-documents bucket under the user's
+-- id; photographed documents store one file per page
+ALTER TABLE health_documents
+ADD COLUMN IF NOT EXISTS file_paths TEXT[];
+
+COMMENT ON COLUMN health_documents.file_paths IS 'Paths of the original files in the health-documents storage bucket';
+
+-- Files are stored under users.id, not the auth user id
+DROP POLICY IF EXISTS "Users can upload their own documents" ON storage.objects;
+DROP POLICY IF EXISTS "Users can view their own documents" ON storage.objects;
+
+CREATE POLICY "Users can upload their own documents" ON storage.objects FOR INSERT WITH CHECK (bucket_id = 'health-documents' AND (storage.foldername(name))[1] IN (SELECT id::text FROM users WHERE auth_id = auth.uid()));
+CREATE POLICY "Users can view their own documents" ON storage.objects FOR SELECT USING (bucket_id = 'health-documents' AND (storage.foldername(name))[1] IN (SELECT id::text FROM users WHERE auth_id = auth.uid()));
+CREATE POLICY "Users can delete their own documents" ON storage.objects FOR DELETE USING (bucket_id = 'health-documents' AND (storage.foldername(name))[1] IN (SELECT id::text FROM users WHERE auth_id = auth.uid()));
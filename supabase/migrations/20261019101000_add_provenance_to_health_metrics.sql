@@ -0,0 +1,24 @@
+-- Extracted metrics link back to where they were read: the document, the test
+-- name as printed, the page and the line of text
+ALTER TABLE health_metrics
+ADD COLUMN IF NOT EXISTS document_id UUID REFERENCES health_documents(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS source_label TEXT,
+ADD COLUMN IF NOT EXISTS source_page INTEGER,
+ADD COLUMN IF NOT EXISTS source_snippet TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_health_metrics_document_id ON health_metrics(document_id) WHERE document_id IS NOT NULL;
+
+-- Link metrics saved before this column existed through the document content hash
+UPDATE health_metrics m
+SET document_id = d.id
+FROM health_documents d
+WHERE m.document_id IS NULL
+  AND m.document_hash IS NOT NULL
+  AND d.user_id = m.user_id
+  AND d.content_hash = m.document_hash;
+
+COMMENT ON COLUMN health_metrics.source_label IS 'Test name as printed on the source document';
+COMMENT ON COLUMN health_metrics.source_page IS '1-based page of the source document the value was read from';
+COMMENT ON COLUMN health_metrics.source_snippet IS 'Line of the source document the value was read from';
+
+CREATE POLICY "Users can delete their own documents" ON health_documents FOR DELETE USING (user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()));
@@ -0,0 +1,15 @@
+-- Record which prompt template, at which version, and which provider model
+-- produced each extraction and summary, so output from an outdated prompt can be found.
+-- prompt_id is the template variant key from utils/promptRegistry.ts, e.g. 'extract_health_data:any:en'
+ALTER TABLE health_documents
+ADD COLUMN IF NOT EXISTS prompt_id TEXT,
+ADD COLUMN IF NOT EXISTS prompt_version INTEGER,
+ADD COLUMN IF NOT EXISTS model TEXT;
+
+ALTER TABLE daily_summaries
+ADD COLUMN IF NOT EXISTS prompt_id TEXT,
+ADD COLUMN IF NOT EXISTS prompt_version INTEGER,
+ADD COLUMN IF NOT EXISTS model TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_health_documents_prompt
+ON health_documents(user_id, prompt_id, prompt_version);
@@ -0,0 +1,35 @@
+-- Medications read from documents, reconciled into one row per medication:
+-- the same medication on several documents updates a single entry
+CREATE TABLE IF NOT EXISTS medications (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  normalized_name TEXT NOT NULL,
+  dosage TEXT,
+  frequency TEXT,
+  start_date DATE,
+  last_seen_date DATE,
+  provider TEXT,
+  document_id UUID REFERENCES health_documents(id) ON DELETE SET NULL,
+  document_hash TEXT,
+  status VARCHAR(20) DEFAULT 'active' NOT NULL CHECK (status IN ('active', 'stopped')),
+  stopped_date DATE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  CONSTRAINT medications_user_name_key UNIQUE (user_id, normalized_name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_medications_user_id ON medications(user_id);
+
+ALTER TABLE medications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own medications" ON medications FOR SELECT USING (user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()));
+CREATE POLICY "Users can insert their own medications" ON medications FOR INSERT WITH CHECK (user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()));
+CREATE POLICY "Users can update their own medications" ON medications FOR UPDATE USING (user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()));
+CREATE POLICY "Users can delete their own medications" ON medications FOR DELETE USING (user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()));
+
+COMMENT ON TABLE medications IS 'Medication list built from extracted documents, one row per medication';
+COMMENT ON COLUMN medications.normalized_name IS 'Lowercase name without strength or dosage form, used to match the same medication across documents';
+COMMENT ON COLUMN medications.start_date IS 'Date of the earliest document the medication appears on';
+COMMENT ON COLUMN medications.last_seen_date IS 'Date of the latest document the medication appears on; dosage, frequency and provider come from it';
+COMMENT ON COLUMN medications.document_id IS 'The document of last_seen_date';
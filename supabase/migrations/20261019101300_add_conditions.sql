@@ -0,0 +1,35 @@
+-- Problem list built from the diagnoses on documents, one row per condition:
+-- the same condition on several documents updates a single entry
+CREATE TABLE IF NOT EXISTS conditions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  condition_key TEXT NOT NULL,
+  icd10_code VARCHAR(10),
+  icd10_display TEXT,
+  notes TEXT,
+  onset_date DATE,
+  last_seen_date DATE,
+  document_id UUID REFERENCES health_documents(id) ON DELETE SET NULL,
+  document_hash TEXT,
+  status VARCHAR(20) DEFAULT 'active' NOT NULL CHECK (status IN ('active', 'resolved')),
+  resolved_date DATE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+  CONSTRAINT conditions_user_key UNIQUE (user_id, condition_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_conditions_user_id ON conditions(user_id);
+
+ALTER TABLE conditions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own conditions" ON conditions FOR SELECT USING (user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()));
+CREATE POLICY "Users can insert their own conditions" ON conditions FOR INSERT WITH CHECK (user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()));
+CREATE POLICY "Users can update their own conditions" ON conditions FOR UPDATE USING (user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()));
+CREATE POLICY "Users can delete their own conditions" ON conditions FOR DELETE USING (user_id IN (SELECT id FROM users WHERE auth_id = auth.uid()));
+
+COMMENT ON TABLE conditions IS 'Problem list built from extracted diagnoses, one row per condition';
+COMMENT ON COLUMN conditions.condition_key IS 'ICD-10 code, or "name:" and the slugified name when no code was found; matches the condition across documents';
+COMMENT ON COLUMN conditions.onset_date IS 'Earliest diagnosis date found, or the date of the earliest document naming the condition';
+COMMENT ON COLUMN conditions.last_seen_date IS 'Date of the latest document naming the condition; name and notes come from it';
+COMMENT ON COLUMN conditions.document_id IS 'The document of last_seen_date';
@@ -1,3 +1,7 @@
+import { DocumentType, NormalizedHealthData } from './health';
+import { PromptProvenance } from './prompt';
+import { Redaction } from './redaction';
+
 export interface DocumentPickerResult {
   uri: string;
   name: string;
@@ -5,14 +9,139 @@ export interface DocumentPickerResult {
   mimeType?: string;
 }
 
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
 export interface GeminiPDFResponse {
+  success: true;
+  extractedText: string;
+  normalizedData: NormalizedHealthData;
+  // Mean of the per-item confidences in normalizedData
+  confidence: number;
+  repairAttempts: number;
+  provenance: PromptProvenance;
+  // Set when the document was redacted on the device and only its text was sent
+  redactions?: Redaction[];
+}
+
+export interface GeminiExtractionFailure {
+  success: false;
+  reason: 'invalid_json' | 'schema_mismatch';
   extractedText: string;
-  normalizedData: any;
+  errors: ValidationIssue[];
+  repairAttempts: number;
+}
+
+export type GeminiPDFResult = GeminiPDFResponse | GeminiExtractionFailure;
+
+// What the classification pass run before extraction takes the upload to be
+export type DocumentClassification = DocumentType | 'not_medical';
+
+export interface DocumentClassificationResult {
+  documentType: DocumentClassification;
   confidence: number;
+  // The model's one-line explanation, shown when an upload is rejected
+  reason?: string;
 }
 
+
+// One lab result or vital as shown on the review screen before it is saved
+export interface ExtractedMetricRow {
+  id: string;
+  section: 'labResults' | 'vitals' | 'manual';
+  label: string;
+  value: string;
+  unit: string;
+  metricType: string;
+  // LOINC code the test resolved to; null when it is not in the terminology table
+  loincCode: string | null;
+  // Shared by the rows split out of one compound reading such as blood pressure "120/80"
+  pairId?: string;
+  recordedAt: string;
+  include: boolean;
+  // As printed, with the bounds that apply to the patient, in the row's unit
+  referenceRange?: {
+    text: string;
+    low?: number;
+    high?: number;
+  };
+  confidence?: number;
+  confidenceReasons?: string[];
+  // Where the row was read on the document; absent for rows the user added
+  source?: {
+    label: string;
+    page?: number;
+    snippet?: string;
+  };
+  // What the extraction produced; absent for rows the user added
+  original?: {
+    value: string;
+    unit: string;
+    metricType: string;
+    include: boolean;
+  };
+}
+
+export interface ExtractionCorrection {
+  correctionType: 'edited' | 'remapped' | 'removed' | 'added';
+  testLabel: string;
+  field?: 'value' | 'unit' | 'metricType';
+  originalValue?: string;
+  correctedValue?: string;
+}
+
+// A document waiting for, or going through, extraction. Jobs are stored on the
+// device so they survive restarts; the files are copies in the app's documents directory.
+export type ExtractionJobStatus = 'pending' | 'processing' | 'waiting_for_network' | 'ready' | 'failed';
+
+export interface ExtractionJob {
+  id: string;
+  fileName: string;
+  files: DocumentPickerResult[];
+  contentHash: string;
+  // The earlier upload of the same file whose extraction this job replaces
+  replaces?: {
+    id: string;
+    filePaths?: string[];
+  };
+  // Set when a stored document is processed again with the current prompt and
+  // model; the result is shown as a diff against the stored extraction
+  reprocess?: boolean;
+  status: ExtractionJobStatus;
+  attempts: number;
+  // ISO time before which a job waiting to retry is not started again
+  nextAttemptAt?: string;
+  lastError?: string;
+  // Set once extraction succeeded, until the user has reviewed the result
+  result?: GeminiPDFResponse;
+  // Only while processing; not stored
+  progress?: UploadProgress;
+  createdAt: string;
+}
+
+// One difference between a document's stored extraction and a new one
+export interface ExtractionDiffEntry {
+  section: 'document' | 'labResults' | 'vitals' | 'medications' | 'diagnoses' | 'imaging' | 'vaccinations' | 'charges';
+  change: 'added' | 'removed' | 'changed';
+  // The test, vital, medication, condition, study, vaccine or charge, or the document field
+  label: string;
+  // For a changed item, the field that differs
+  field?: string;
+  before?: string;
+  after?: string;
+}
+
+// The steps of adding a document, in the order they run: the queue reads and
+// extracts it, and the original is uploaded with the metrics once the review is confirmed
+export type UploadStage = 'reading' | 'extracting' | 'validating' | 'uploading' | 'saving';
+
 export interface UploadProgress {
+  stage: UploadStage;
+  // Estimated share of all stages done, 0-100
   percentage: number;
   status: 'uploading' | 'processing' | 'completed' | 'error';
+  // Details of the step, such as the pages being extracted
   message?: string;
-}
\ No newline at end of file
+}
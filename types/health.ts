@@ -8,9 +8,17 @@ export interface HealthDocument {
   id: string;
   userId: string;
   fileUrl: string;
+  // Paths of the stored original files in the health-documents bucket, one per page photo
+  filePaths?: string[];
   fileName: string;
   geminiExtractedText?: string;
   normalizedData?: any;
+  // SHA-256 of the file contents, used to recognize a document uploaded again
+  contentHash?: string;
+  // The prompt version and model that produced normalizedData; see PromptProvenance
+  promptId?: string;
+  promptVersion?: number;
+  model?: string;
   createdAt: Date;
 }
 
@@ -18,11 +26,77 @@ export interface HealthMetric {
   id: string;
   userId: string;
   metricType: HealthMetricType;
-  value: number;
+  loincCode?: string;
+  // Links the parts of one compound reading, e.g. systolic and diastolic blood pressure
+  pairId?: string;
+  // contentHash of the document the metric was extracted from
+  documentHash?: string;
+  // Where an extracted metric was read: its health_documents row, the test
+  // name as printed, the page and the line of text it came from
+  documentId?: string;
+  sourceLabel?: string;
+  sourcePage?: number;
+  sourceSnippet?: string;
+  // Null for qualitative results; see valueKind for how to read it
+  value: number | null;
   unit: string;
+  // Absent for plain numeric values such as HealthKit samples
+  valueKind?: LabValueKind;
+  valueComparator?: Comparator;
+  valueHigh?: number;
+  valueText?: QualitativeResult;
+  // Reference range from the source report, in the same unit as value
+  referenceLow?: number;
+  referenceHigh?: number;
+  referenceText?: string;
+  rangeFlag?: RangeFlag;
+  // As written on the source document, before conversion to the canonical unit
+  originalValue?: number;
+  originalUnit?: string;
   recordedAt: Date;
+  // Where the metric came from, e.g. 'healthkit' or 'document_extraction'
+  source?: string;
+  // Identifier of the sample in its source, when the source has one
+  sourceSampleId?: string;
 }
 
+// Outcome of writing a batch of metrics keyed by their natural key
+export interface MetricUpsertResult {
+  inserted: number;
+  updated: number;
+  unchanged: number;
+}
+
+export type Comparator = '<' | '<=' | '>' | '>=';
+
+export type QualitativeResult =
+  | 'positive'
+  | 'negative'
+  | 'reactive'
+  | 'non_reactive'
+  | 'detected'
+  | 'not_detected'
+  | 'trace'
+  | 'equivocal';
+
+/**
+ * A lab value as reported. `value` is the number the result is stored and
+ * charted under: the exact value, the bound of a censored result ("<0.5"),
+ * the low end of a range, or the titer denominator ("1:160" -> 160).
+ */
+export type LabValue =
+  | { kind: 'numeric'; value: number }
+  | { kind: 'censored'; value: number; comparator: Comparator }
+  | { kind: 'range'; value: number; high: number }
+  | { kind: 'titer'; value: number }
+  | { kind: 'qualitative'; value: null; result: QualitativeResult }
+  | { kind: 'unparseable'; value: null };
+
+export type LabValueKind = LabValue['kind'];
+
+// Where a result falls against its reference range; critical means past a panic value
+export type RangeFlag = 'normal' | 'low' | 'high' | 'critical';
+
 export enum HealthMetricType {
   STEPS = 'steps',
   HEART_RATE = 'heart_rate',
@@ -44,35 +118,161 @@ export interface DailySummary {
     insight: string;
     severity?: 'low' | 'medium' | 'high';
   }[];
+  // The prompt version and model that wrote the summary; see PromptProvenance
+  promptId?: string;
+  promptVersion?: number;
+  model?: string;
+  createdAt: Date;
+}
+
+export type MedicationStatus = 'active' | 'stopped';
+
+// An entry of the medication list, reconciled from every document that lists
+// the medication. Dates are ISO dates (YYYY-MM-DD), as printed on documents.
+export interface Medication {
+  id: string;
+  userId: string;
+  name: string;
+  // Matches the same medication across documents; see utils/medicationReconciler.ts
+  normalizedName: string;
+  dosage?: string;
+  frequency?: string;
+  // Dates of the earliest and the latest document listing the medication
+  startDate?: string;
+  lastSeenDate?: string;
+  // Dosage, frequency and provider come from the latest document, which documentId points to
+  provider?: string;
+  documentId?: string;
+  documentHash?: string;
+  status: MedicationStatus;
+  stoppedDate?: string;
   createdAt: Date;
+  updatedAt: Date;
 }
 
+export type ConditionStatus = 'active' | 'resolved';
+
+// An entry of the problem list, reconciled from every document that names the
+// condition. Dates are ISO dates (YYYY-MM-DD), as for Medication.
+export interface Condition {
+  id: string;
+  userId: string;
+  // As written on the latest document naming the condition
+  name: string;
+  // The ICD-10 code, or the slugified name when no code was found; see utils/conditionReconciler.ts
+  conditionKey: string;
+  icd10Code?: string;
+  icd10Display?: string;
+  notes?: string;
+  // Earliest diagnosis date found, and the date of the latest document naming the condition
+  onsetDate?: string;
+  lastSeenDate?: string;
+  documentId?: string;
+  documentHash?: string;
+  status: ConditionStatus;
+  resolvedDate?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Each type but medical_record and other has its own extraction prompt; medical_record
+// covers clinical notes and letters that fit none of the specific types
+export const DOCUMENT_TYPES = [
+  'lab_report',
+  'prescription',
+  'imaging_report',
+  'discharge_summary',
+  'vaccination_record',
+  'invoice',
+  'medical_record',
+  'other',
+] as const;
+
+export type DocumentType = typeof DOCUMENT_TYPES[number];
+
+// Per-item confidence: the model's self-reported score, adjusted by local
+// cross-checks (see utils/confidenceScorer.ts), with the reasons for any deduction
+export interface ExtractionConfidence {
+  confidence?: number;
+  confidenceReasons?: string[];
+}
+
+// Where on the document an item was read; page is 1-based within the whole document
+export interface SourceLocation {
+  page?: number;
+  sourceText?: string;
+}
+
+export const PATIENT_SEXES = ['male', 'female'] as const;
+export type PatientSex = typeof PATIENT_SEXES[number];
+
+// Demographics printed on the report, used to pick sex- or age-specific reference ranges
+export interface PatientContext {
+  sex?: PatientSex;
+  age?: number;
+}
+
+// Dates are kept as ISO strings: this is the shape Gemini returns and the
+// shape stored in health_documents.normalized_data.
 export interface NormalizedHealthData {
-  documentType: string;
-  date: Date;
+  documentType: DocumentType;
+  // Absent when the document prints no date; the upload date is used instead
+  date?: string;
   provider?: string;
+  patient?: PatientContext;
   medications?: Array<{
     name: string;
-    dosage: string;
-    frequency: string;
-  }>;
+    dosage?: string;
+    frequency?: string;
+  } & ExtractionConfidence>;
   vitals?: Array<{
     type: string;
-    value: number;
+    // A string only for compound readings such as blood pressure "120/80"
+    value: number | string;
     unit: string;
-    date: Date;
-  }>;
+    date?: string;
+  } & ExtractionConfidence & SourceLocation>;
   diagnoses?: Array<{
     condition: string;
-    date: Date;
+    date?: string;
     notes?: string;
-  }>;
+  } & ExtractionConfidence>;
   labResults?: Array<{
     test: string;
     value: string;
     unit?: string;
     referenceRange?: string;
-    date: Date;
-  }>;
+    date?: string;
+  } & ExtractionConfidence & SourceLocation>;
+  // Imaging reports: one item per study
+  imaging?: Array<{
+    study: string;
+    modality?: string;
+    bodyPart?: string;
+    findings?: string;
+    impression?: string;
+    date?: string;
+  } & ExtractionConfidence & SourceLocation>;
+  // Vaccination records: one item per dose given
+  vaccinations?: Array<{
+    vaccine: string;
+    date?: string;
+    doseNumber?: number;
+    lotNumber?: string;
+    manufacturer?: string;
+    site?: string;
+  } & ExtractionConfidence & SourceLocation>;
+  // Invoices and explanations of benefits: one item per billed service
+  charges?: Array<{
+    description: string;
+    // Billing code as printed, e.g. a CPT code
+    code?: string;
+    amount: number;
+    // ISO 4217 code, e.g. "USD"
+    currency?: string;
+    // What is left for the patient to pay after insurance, when printed
+    patientAmount?: number;
+    date?: string;
+  } & ExtractionConfidence>;
   notes?: string;
-}
\ No newline at end of file
+}
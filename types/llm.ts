@@ -0,0 +1,50 @@
+// 'fixture' answers from bundled files, for development and demos without a network
+export type LLMProviderId = 'gemini' | 'openai' | 'local' | 'fixture';
+
+// The jobs the app sends to a model; each can use a different provider
+export type LLMTask = 'extraction' | 'summary';
+
+export interface LLMProviderConfig {
+  apiKey?: string;
+  // Only for OpenAI-compatible endpoints, e.g. https://api.openai.com/v1
+  baseUrl?: string;
+  model: string;
+}
+
+// A file sent to the model, base64 encoded
+export interface LLMDocumentPart {
+  inlineData: {
+    data: string;
+    mimeType: string;
+  };
+}
+
+// Token counts as reported by the provider for one request
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  // Absent when the provider did not report it
+  usage?: LLMUsage;
+}
+
+// Keeps earlier messages, including any documents, in context for follow-ups such as repairs.
+// Aborting the signal cancels the request in flight.
+export interface LLMConversation {
+  send(prompt: string, documentParts?: LLMDocumentPart[], signal?: AbortSignal): Promise<LLMResponse>;
+}
+
+export interface LLMProvider {
+  readonly id: LLMProviderId;
+  readonly label: string;
+  // Whether the provider can be used without an API key, e.g. a model server on the local network
+  readonly requiresApiKey: boolean;
+  // False for providers that answer on the device, so queued work need not wait for a connection
+  readonly requiresNetwork: boolean;
+  startConversation(config: LLMProviderConfig): LLMConversation;
+  generateText(config: LLMProviderConfig, prompt: string, signal?: AbortSignal): Promise<LLMResponse>;
+  testConnection(config: LLMProviderConfig): Promise<boolean>;
+}
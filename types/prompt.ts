@@ -0,0 +1,30 @@
+import { DocumentType } from './health';
+
+export type PromptId =
+  | 'classify_document'
+  | 'extract_health_data'
+  | 'photo_pages_note'
+  | 'pdf_chunk_note'
+  | 'redacted_text_note'
+  | 'repair_health_data'
+  | 'daily_summary';
+
+// One version of a prompt. A template without a documentType applies to any document;
+// {{name}} placeholders are filled from variables when the prompt is rendered.
+export interface PromptTemplate {
+  id: PromptId;
+  version: number;
+  language: string;
+  documentType?: DocumentType;
+  variables: string[];
+  text: string;
+}
+
+// Which prompt and model produced stored output, e.g. a document's normalizedData
+export interface PromptProvenance {
+  // Identifies the template variant, see promptKey in utils/promptRegistry.ts
+  promptId: string;
+  promptVersion: number;
+  // Provider and model, e.g. "gemini:gemini-2.5-pro"
+  model: string;
+}
@@ -0,0 +1,27 @@
+export type PersonalDataKind =
+  | 'name'
+  | 'date_of_birth'
+  | 'national_id'
+  | 'record_number'
+  | 'insurance_number'
+  | 'address'
+  | 'phone'
+  | 'email'
+  | 'iban'
+  // Terms the user listed in settings
+  | 'custom';
+
+// One personal identifier masked before a document was sent to the model.
+// Only the placeholder was sent; this mapping stays on the device.
+export interface Redaction {
+  placeholder: string;
+  kind: PersonalDataKind;
+  value: string;
+  occurrences: number;
+}
+
+export interface RedactionSettings {
+  enabled: boolean;
+  // Always masked wherever they appear, e.g. the user's own name
+  customTerms: string[];
+}
@@ -0,0 +1,38 @@
+import { LLMProviderId, LLMTask, LLMUsage } from './llm';
+
+export interface AIUsageEvent extends LLMUsage {
+  id: string;
+  // The feature that made the call
+  task: LLMTask;
+  provider: LLMProviderId;
+  model: string;
+  // Null when there is no price for the model
+  costUsd: number | null;
+  createdAt: string;
+}
+
+export interface UsageTotals extends LLMUsage {
+  calls: number;
+  costUsd: number;
+  // Calls to models without a price, left out of costUsd
+  unpricedCalls: number;
+}
+
+export interface UsageSummary {
+  today: UsageTotals;
+  month: UsageTotals;
+  monthByTask: { [task in LLMTask]: UsageTotals };
+  // The last days, most recent first, as YYYY-MM-DD
+  days: Array<{ date: string; totals: UsageTotals }>;
+}
+
+// Monthly spending limits in US dollars: above the soft limit the user is
+// warned before a call, at the hard limit calls are blocked
+export interface UsageBudget {
+  softLimitUsd?: number;
+  hardLimitUsd?: number;
+}
+
+export type BudgetCheck =
+  | { status: 'ok' }
+  | { status: 'warn' | 'block'; spentUsd: number; limitUsd: number; estimatedUsd: number };
@@ -0,0 +1,36 @@
+import { Alert } from 'react-native';
+import geminiService from '@/services/geminiService';
+import { LLMTask } from '@/types/llm';
+
+const formatUsd = (amount: number) => `$${amount.toFixed(amount < 1 ? 3 : 2)}`;
+
+/**
+ * Checks a request of `calls` model calls against the monthly AI budget before
+ * it is made. Resolves to false when the hard limit would be exceeded, and asks
+ * the user to confirm when the soft limit would be.
+ */
+export async function confirmWithinBudget(task: LLMTask, calls = 1): Promise<boolean> {
+  const check = await geminiService.checkBudget(task, calls);
+  if (check.status === 'ok') return true;
+
+  const spending = `You have spent ${formatUsd(check.spentUsd)} this month and this request is estimated at ${formatUsd(check.estimatedUsd)}.`;
+  if (check.status === 'block') {
+    Alert.alert(
+      'Budget Reached',
+      `${spending} That would go over your monthly limit of ${formatUsd(check.limitUsd)}. You can raise it in Settings.`
+    );
+    return false;
+  }
+
+  return new Promise(resolve => {
+    Alert.alert(
+      'Over Budget',
+      `${spending} That would go over your monthly budget of ${formatUsd(check.limitUsd)}. Continue anyway?`,
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+        { text: 'Continue', onPress: () => resolve(true) },
+      ],
+      { cancelable: false }
+    );
+  });
+}
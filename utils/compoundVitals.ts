@@ -0,0 +1,77 @@
+import { getLoincTerm, LoincTerm, matchTestName } from '@/utils/loincTerminology';
+import { parseUnit } from '@/utils/unitRegistry';
+
+export interface CompoundPart {
+  label: string;
+  metricType: string;
+  loincCode: string;
+  value: string;
+  unit: string;
+}
+
+// Two values written as one reading: "120/80", "95%/21%", "120 / 80 mmHg"
+const PAIRED_VALUE = /^\s*(\d+(?:[.,]\d+)?)\s*%?\s*\/\s*(\d+(?:[.,]\d+)?)\s*%?\s*$/;
+
+export function isPairedReading(value: string): boolean {
+  return PAIRED_VALUE.test(value.replace(/[^\d%]*$/, ''));
+}
+
+function resolveParts(name: string): { label: string; term: LoincTerm }[] | null {
+  // "O2 sat/FiO2", "Systolic/Diastolic": each half names one part
+  const halves = name.split('/').map(half => half.trim());
+  if (halves.length === 2) {
+    const matches = halves.map(half => matchTestName(half));
+    const terms = matches.map(match => (match.mapped ? getLoincTerm(match.loincCode) : undefined));
+    if (terms[0] && terms[1] && terms[0].metricType !== terms[1].metricType) {
+      return [
+        { label: halves[0], term: terms[0] },
+        { label: halves[1], term: terms[1] },
+      ];
+    }
+  }
+
+  // "Blood pressure": a panel whose parts are known
+  const match = matchTestName(name);
+  const components = match.mapped ? getLoincTerm(match.loincCode)?.components : undefined;
+  if (!components) return null;
+
+  const parts = components.map(code => getLoincTerm(code));
+  if (!parts[0] || !parts[1]) return null;
+  return parts.map(term => ({ label: `${name} (${term!.synonyms[0]})`, term: term! }));
+}
+
+function splitUnit(unit: string): [string, string] {
+  const trimmed = unit.trim();
+  const halves = trimmed.split('/').map(half => half.trim());
+  if (!parseUnit(trimmed) && halves.length === 2 && parseUnit(halves[0]) && parseUnit(halves[1])) {
+    return [halves[0], halves[1]];
+  }
+  return [trimmed, trimmed];
+}
+
+/**
+ * Splits a reading written as two values, such as blood pressure "120/80" or
+ * "O2 sat/FiO2" "95%/21%", into one measurement per part. Returns null when
+ * the value is not a pair or the name does not identify both parts.
+ */
+export function splitCompoundMeasurement(name: string, value: string, unit: string): CompoundPart[] | null {
+  const values = value.replace(/[^\d%]*$/, '').match(PAIRED_VALUE);
+  if (!values) return null;
+
+  const parts = resolveParts(name);
+  if (!parts) return null;
+
+  const units = splitUnit(unit || (value.match(/[a-z]+$/i)?.[0] ?? ''));
+  return parts.map(({ label, term }, index) => ({
+    label,
+    metricType: term.metricType,
+    loincCode: term.code,
+    value: values[index + 1],
+    unit: units[index] || (value.includes('%') ? '%' : ''),
+  }));
+}
+
+// Shared by the metrics of one compound reading so it can be put back together
+export function createPairId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
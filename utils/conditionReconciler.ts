@@ -0,0 +1,144 @@
+import { Condition, NormalizedHealthData } from '@/types/health';
+import { findPrintedIcd10Code, matchConditionName, slugifyConditionName } from '@/utils/icd10Terminology';
+import { toCalendarDate } from '@/utils/medicationReconciler';
+
+export type ExtractedDiagnosis = NonNullable<NormalizedHealthData['diagnoses']>[number];
+
+export type ConditionEntry = Omit<Condition, 'id' | 'createdAt' | 'updatedAt'>;
+
+// The document the diagnoses were read from
+export interface ConditionSource {
+  date: string;
+  documentId?: string;
+  documentHash?: string;
+}
+
+export interface ConditionReconciliation {
+  // New and changed entries, ready to upsert
+  entries: ConditionEntry[];
+  added: number;
+  updated: number;
+  unchanged: number;
+}
+
+// Wording that marks a diagnosis as over. "History of" is left out: on reports it usually means a known, ongoing condition
+const RESOLVED_PATTERN = /\b(resolved|cured|healed|in remission|vindecata?|rezolvata?|in remisie)\b/i;
+
+/**
+ * Conditions are matched on their ICD-10 category, so "E11.9", "E11" and
+ * "Type 2 diabetes" printed on different documents are one condition. Names
+ * without a code are matched on their spelling.
+ */
+export function conditionKeyOf(icd10Code: string | undefined, name: string): string {
+  return icd10Code ? icd10Code.slice(0, 3) : `name:${slugifyConditionName(name)}`;
+}
+
+function valueOrUndefined(value: string | undefined): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+function sameEntry(a: ConditionEntry, b: ConditionEntry): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as (keyof ConditionEntry)[]);
+  return Array.from(keys).every(key => a[key] === b[key]);
+}
+
+/**
+ * Merges the diagnoses of one document into the stored problem list. Each
+ * diagnosis is coded from the bundled ICD-10 table. A condition already on
+ * the list keeps one entry: its onset moves back to the earliest diagnosis
+ * date found (or document date, when none is printed), while the name, notes
+ * and code follow the latest document. A diagnosis described as resolved or
+ * in remission marks the condition resolved; a later document naming a
+ * resolved condition without saying so makes it active again.
+ */
+export function reconcileConditions(
+  existing: Condition[],
+  extracted: ExtractedDiagnosis[],
+  userId: string,
+  source: ConditionSource
+): ConditionReconciliation {
+  const result: ConditionReconciliation = { entries: [], added: 0, updated: 0, unchanged: 0 };
+  const stored = new Map(existing.map(condition => [condition.conditionKey, condition]));
+  const seen = new Set<string>();
+
+  extracted.forEach(item => {
+    const printedName = item.condition?.trim();
+    if (!printedName) return;
+
+    const match = matchConditionName(printedName);
+    // A code printed with the diagnosis is kept in icd10Code rather than in the name
+    const name = (match.mapped && match.explicit && findPrintedIcd10Code(printedName)?.rest) || printedName;
+    const icd10Code = match.mapped ? match.icd10Code : undefined;
+    const icd10Display = match.mapped ? match.display : undefined;
+    const conditionKey = conditionKeyOf(icd10Code, name);
+    if (seen.has(conditionKey)) return;
+    seen.add(conditionKey);
+
+    if (match.mapped) {
+      console.log(`🏷️ "${name}" → ICD-10 ${icd10Code} ${icd10Display}${match.explicit ? ' (printed on the document)' : ''}`);
+    } else {
+      console.log(`🏷️ "${name}" has no ICD-10 code (${match.reason})`);
+    }
+
+    const notes = valueOrUndefined(item.notes);
+    const onsetDate = toCalendarDate(item.date) ?? source.date;
+    const isResolved = RESOLVED_PATTERN.test(`${name} ${notes ?? ''}`.normalize('NFD').replace(/[\u0300-\u036f]/g, ''));
+    const current = stored.get(conditionKey);
+
+    if (!current) {
+      result.added++;
+      result.entries.push({
+        userId,
+        name,
+        conditionKey,
+        icd10Code,
+        icd10Display,
+        notes,
+        onsetDate,
+        lastSeenDate: source.date,
+        documentId: source.documentId,
+        documentHash: source.documentHash,
+        status: isResolved ? 'resolved' : 'active',
+        resolvedDate: isResolved ? source.date : undefined,
+      });
+      return;
+    }
+
+    const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...before } = current;
+    const isLatest = !current.lastSeenDate || source.date >= current.lastSeenDate;
+    // A bare category does not replace a more specific code from another document
+    const keepsStoredCode = !!current.icd10Code && (!icd10Code || current.icd10Code.startsWith(icd10Code));
+    const reopened = isLatest && !isResolved && current.status === 'resolved'
+      && (!current.resolvedDate || source.date > current.resolvedDate);
+    const resolved = isLatest && isResolved && current.status === 'active';
+
+    const after: ConditionEntry = {
+      ...before,
+      onsetDate: current.onsetDate && current.onsetDate < onsetDate ? current.onsetDate : onsetDate,
+      ...(isLatest && {
+        name,
+        // Notes saying a reopened condition was resolved no longer apply
+        notes: notes ?? (reopened ? undefined : current.notes),
+        lastSeenDate: source.date,
+        documentId: source.documentId ?? current.documentId,
+        documentHash: source.documentHash ?? current.documentHash,
+      }),
+      ...(isLatest && !keepsStoredCode && { icd10Code, icd10Display }),
+      ...(reopened && { status: 'active' as const, resolvedDate: undefined }),
+      ...(resolved && { status: 'resolved' as const, resolvedDate: source.date }),
+    };
+
+    if (sameEntry(before, after)) {
+      result.unchanged++;
+      return;
+    }
+    if (reopened || resolved) {
+      console.log(`🩺 ${name} is ${reopened ? 'named again' : 'described as resolved'} on ${source.date}; marking it ${after.status}`);
+    }
+    result.updated++;
+    result.entries.push(after);
+  });
+
+  return result;
+}
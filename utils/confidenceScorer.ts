@@ -0,0 +1,128 @@
+import { ExtractionConfidence, NormalizedHealthData } from '@/types/health';
+import { LOW_CONFIDENCE_THRESHOLD } from '@/utils/constants';
+import { normalizeMeasurement, parseUnit } from '@/utils/unitRegistry';
+import { matchTestName } from '@/utils/loincTerminology';
+import { parseLabValue } from '@/utils/labValueParser';
+import { isPairedReading } from '@/utils/compoundVitals';
+
+// Used when the model does not report a confidence for an item
+const DEFAULT_REPORTED_CONFIDENCE = 0.8;
+
+const REPAIRED_PENALTY = 0.8;
+const UNKNOWN_UNIT_PENALTY = 0.85;
+const IMPLAUSIBLE_VALUE_PENALTY = 0.4;
+const UNPARSEABLE_VALUE_PENALTY = 0.9;
+
+// Physiologically plausible bounds in the canonical unit of each metric type
+// (see utils/unitRegistry.ts). Values outside them are almost always misreads,
+// such as a dropped decimal point or a value taken from the wrong column.
+const PLAUSIBLE_RANGES: { [metricType: string]: [number, number] } = {
+  blood_glucose: [10, 1500],
+  total_cholesterol: [50, 1000],
+  ldl_cholesterol: [10, 700],
+  hdl_cholesterol: [5, 200],
+  triglycerides: [10, 5000],
+  hemoglobin: [2, 25],
+  hematocrit: [5, 75],
+  vitamin_d: [1, 200],
+  vitamin_b12: [20, 5000],
+  tsh: [0.001, 200],
+  creatinine: [0.1, 25],
+  potassium: [1, 10],
+  sodium: [100, 180],
+  heart_rate: [20, 250],
+  blood_pressure_systolic: [50, 280],
+  blood_pressure_diastolic: [20, 180],
+  weight: [1, 400],
+  temperature: [25, 45],
+};
+
+function applyPenalty(item: ExtractionConfidence, factor: number, reason: string): void {
+  item.confidence = (item.confidence ?? DEFAULT_REPORTED_CONFIDENCE) * factor;
+  item.confidenceReasons = [...(item.confidenceReasons ?? []), reason];
+}
+
+function checkMeasurement(item: ExtractionConfidence, name: string, value: string | number, unit: string | undefined): void {
+  // Compound readings ("120/80") are split into their parts when rows are built
+  if (typeof value === 'string' && isPairedReading(value)) return;
+
+  const labValue = parseLabValue(value);
+  if (labValue.kind === 'unparseable') {
+    applyPenalty(item, UNPARSEABLE_VALUE_PENALTY, `Could not read a value from "${value}"`);
+    return;
+  }
+  // Qualitative results and titers carry no unit worth checking
+  if (labValue.kind === 'qualitative' || labValue.kind === 'titer') return;
+  const numericValue = labValue.value;
+
+  if (!unit) return;
+  if (!parseUnit(unit)) {
+    applyPenalty(item, UNKNOWN_UNIT_PENALTY, `Unit "${unit}" not recognized`);
+    return;
+  }
+
+  const { metricType } = matchTestName(name);
+  const measurement = normalizeMeasurement(metricType, numericValue, unit);
+  const range = PLAUSIBLE_RANGES[metricType];
+  if (range && measurement.normalized && (measurement.value < range[0] || measurement.value > range[1])) {
+    applyPenalty(
+      item,
+      IMPLAUSIBLE_VALUE_PENALTY,
+      `${numericValue} ${unit} is outside the plausible range ${range[0]}–${range[1]} ${measurement.unit}`
+    );
+  }
+}
+
+/**
+ * Gives every extracted item its own confidence. The model's self-reported
+ * score is the starting point; it is lowered when the item had to be repaired
+ * after schema validation, when its unit is unknown, or when its value is
+ * outside a physiologically plausible range for the unit.
+ *
+ * `repairedPaths` are item paths such as `labResults[2]` that failed validation
+ * at least once before the response was accepted.
+ */
+export function scoreExtraction(data: NormalizedHealthData, repairedPaths: Set<string>): NormalizedHealthData {
+  const scored: NormalizedHealthData = JSON.parse(JSON.stringify(data));
+
+  const scoreSection = <T extends ExtractionConfidence>(section: string, items: T[] | undefined, check?: (item: T) => void) => {
+    items?.forEach((item, index) => {
+      item.confidence = item.confidence ?? DEFAULT_REPORTED_CONFIDENCE;
+      item.confidenceReasons = [];
+      if (item.confidence < LOW_CONFIDENCE_THRESHOLD) {
+        item.confidenceReasons.push('Model reported low confidence');
+      }
+      if (repairedPaths.has(`${section}[${index}]`)) {
+        applyPenalty(item, REPAIRED_PENALTY, 'Corrected after failing schema validation');
+      }
+      check?.(item);
+      item.confidence = Math.round(item.confidence * 100) / 100;
+    });
+  };
+
+  scoreSection('labResults', scored.labResults, result => checkMeasurement(result, result.test, result.value, result.unit));
+  scoreSection('vitals', scored.vitals, vital => checkMeasurement(vital, vital.type, vital.value, vital.unit));
+  scoreSection('medications', scored.medications);
+  scoreSection('diagnoses', scored.diagnoses);
+  scoreSection('imaging', scored.imaging);
+  scoreSection('vaccinations', scored.vaccinations);
+  scoreSection('charges', scored.charges);
+
+  return scored;
+}
+
+// Mean confidence across all extracted items, or 0 when nothing was extracted
+export function overallConfidence(data: NormalizedHealthData): number {
+  const scores = [
+    ...(data.labResults ?? []),
+    ...(data.vitals ?? []),
+    ...(data.medications ?? []),
+    ...(data.diagnoses ?? []),
+    ...(data.imaging ?? []),
+    ...(data.vaccinations ?? []),
+    ...(data.charges ?? []),
+  ].map(item => item.confidence ?? DEFAULT_REPORTED_CONFIDENCE);
+
+  if (scores.length === 0) return 0;
+  return Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 100) / 100;
+}
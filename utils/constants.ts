@@ -1,5 +1,9 @@
 export const STORAGE_KEYS = {
   GEMINI_API_KEY: "gemini_api_key",
+  LLM_PROVIDER_CONFIG_PREFIX: "llm_provider_",
+  LLM_TASK_PROVIDERS: "llm_task_providers",
+  USAGE_BUDGET: "usage_budget",
+  REDACTION_SETTINGS: "redaction_settings",
   USER_ID: "user_id",
   APPLE_USER_ID: "apple_user_id",
 } as const;
@@ -19,44 +23,74 @@ export const HEALTH_PERMISSIONS = [
   "BloodGlucose",
 ] as const;
 
+export const SUPPORTED_IMAGE_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/heic",
+  "image/heif",
+] as const;
+
+export const SUPPORTED_DOCUMENT_TYPES = ["application/pdf", ...SUPPORTED_IMAGE_TYPES];
+
+// Longest side, in pixels, that photographed pages are scaled down to
+export const IMAGE_MAX_DIMENSION = 2048;
+
+// PDFs above either limit are split into page ranges and extracted chunk by chunk.
+// The size limit is on the base64 payload, kept well under Gemini's inline request cap.
+export const PDF_CHUNK_PAGE_COUNT = 10;
+export const PDF_INLINE_SIZE_LIMIT = 12 * 1024 * 1024;
+
 export const GEMINI_MODEL = "gemini-2.5-pro";
 
-export const GEMINI_PROMPTS = {
-  EXTRACT_HEALTH_DATA: `
-    You are a medical data extraction assistant. Extract all health-related information from this document and normalize it into a structured format.
-    
-    Return a JSON object with the following structure:
-    {
-      "documentType": "lab_report" | "prescription" | "medical_record" | "imaging_report" | "other",
-      "date": "ISO date string",
-      "provider": "provider name if available",
-      "medications": [{"name": "", "dosage": "", "frequency": ""}],
-      "vitals": [{"type": "", "value": 0, "unit": "", "date": "ISO date"}],
-      "diagnoses": [{"condition": "", "date": "ISO date", "notes": ""}],
-      "labResults": [{"test": "", "value": "", "unit": "", "referenceRange": "", "date": "ISO date"}],
-      "notes": "any additional relevant information"
-    }
-    
-    Only include fields that have actual data. Be precise with numbers and units.
-  `,
-
-  GENERATE_DAILY_SUMMARY: `
-    You are a health insights assistant. Based on the following health data from the past 24 hours, provide a concise daily summary.
-    
-    Include:
-    1. Key health metrics and trends
-    2. Any notable changes or patterns
-    3. Actionable insights or recommendations
-    4. Areas that might need attention
-    
-    Be encouraging but factual. Keep the summary under 300 words.
-    
-    Format the response as JSON:
-    {
-      "summaryText": "main summary text",
-      "keyInsights": [
-        {"category": "category name", "insight": "specific insight", "severity": "low|medium|high"}
-      ]
-    }
-  `,
+// Defaults for a provider that has no model or endpoint configured
+export const LLM_DEFAULT_MODELS = {
+  gemini: GEMINI_MODEL,
+  openai: "gpt-4o",
+  local: "llama3.1",
+  fixture: "fixtures",
+} as const;
+
+export const LLM_DEFAULT_BASE_URLS = {
+  openai: "https://api.openai.com/v1",
+  // Ollama; LM Studio and llama.cpp serve the same API on their own ports
+  local: "http://localhost:11434/v1",
+} as const;
+
+// US dollars per million tokens, from the providers' published standard rates.
+// Gemini 2.5 Pro is priced at its rate for prompts up to 200k tokens.
+// Calls to models not listed here are counted but not priced.
+export const LLM_PRICING_PER_MILLION_TOKENS: { [model: string]: { input: number; output: number } } = {
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
 };
+
+// Used to estimate a call's cost before there is any usage history for it
+export const ESTIMATED_TOKENS_PER_CALL = {
+  extraction: { inputTokens: 4000, outputTokens: 2000 },
+  summary: { inputTokens: 3000, outputTokens: 600 },
+} as const;
+
+// Model calls made for a document: a classification and one extraction, plus one
+// for each further PDF chunk. Repairs are not known in advance and not counted.
+export const EXTRACTION_CALLS_PER_DOCUMENT = 2;
+
+// How many days of AI usage are kept on the device
+export const USAGE_RETENTION_DAYS = 400;
+
+// Extracted items scoring below this are flagged for review and not saved by default
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+// How many times a response that fails schema validation is sent back to the model
+export const GEMINI_MAX_REPAIR_ATTEMPTS = 2;
+
+// Below this, the document type from the classification pass is not trusted: the
+// document is extracted with the generic prompt and is never rejected as non-medical
+export const CLASSIFICATION_MIN_CONFIDENCE = 0.7;
+
+// Extraction jobs that fail on rate limits, server or network errors are retried
+// with exponential backoff, starting at the base delay and capped at the max
+export const EXTRACTION_MAX_ATTEMPTS = 5;
+export const EXTRACTION_RETRY_BASE_DELAY_MS = 5 * 1000;
+export const EXTRACTION_RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
@@ -0,0 +1,136 @@
+import { NormalizedHealthData } from '@/types/health';
+import { ExtractionDiffEntry } from '@/types/document';
+
+type ItemSection = Exclude<ExtractionDiffEntry['section'], 'document'>;
+
+interface SectionSpec<T> {
+  nameOf: (item: T) => string;
+  fields: Array<keyof T & string>;
+  describe: (item: T) => string;
+}
+
+function displayValue(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value).replace(/\s+/g, ' ').trim();
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return displayValue(a).toLowerCase() === displayValue(b).toLowerCase();
+}
+
+function joinParts(...parts: unknown[]): string {
+  return parts.map(displayValue).filter(Boolean).join(' ');
+}
+
+const SECTION_SPECS: { [section in ItemSection]: SectionSpec<any> } = {
+  labResults: {
+    nameOf: item => item.test,
+    fields: ['value', 'unit', 'referenceRange', 'date'],
+    describe: item => joinParts(item.value, item.unit),
+  },
+  vitals: {
+    nameOf: item => item.type,
+    fields: ['value', 'unit', 'date'],
+    describe: item => joinParts(item.value, item.unit),
+  },
+  medications: {
+    nameOf: item => item.name,
+    fields: ['dosage', 'frequency'],
+    describe: item => joinParts(item.dosage, item.frequency),
+  },
+  diagnoses: {
+    nameOf: item => item.condition,
+    fields: ['date', 'notes'],
+    describe: item => joinParts(item.date),
+  },
+  imaging: {
+    nameOf: item => item.study,
+    fields: ['modality', 'bodyPart', 'findings', 'impression', 'date'],
+    describe: item => joinParts(item.impression),
+  },
+  vaccinations: {
+    nameOf: item => item.vaccine,
+    fields: ['date', 'doseNumber', 'lotNumber', 'manufacturer', 'site'],
+    describe: item => joinParts(item.date, item.lotNumber && `lot ${item.lotNumber}`),
+  },
+  charges: {
+    nameOf: item => item.description,
+    fields: ['code', 'amount', 'currency', 'patientAmount', 'date'],
+    describe: item => joinParts(item.amount, item.currency),
+  },
+};
+
+const DOCUMENT_FIELDS: { [field in 'documentType' | 'date' | 'provider']: string } = {
+  documentType: 'Document type',
+  date: 'Date',
+  provider: 'Provider',
+};
+
+// Items with the same name are paired in the order they appear, so a test
+// reported on several dates is compared date by date
+function groupByName<T>(items: T[], nameOf: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => {
+    const key = displayValue(nameOf(item)).toLowerCase();
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  });
+  return groups;
+}
+
+function diffSection<T>(section: ItemSection, spec: SectionSpec<T>, previous: T[], next: T[]): ExtractionDiffEntry[] {
+  const entries: ExtractionDiffEntry[] = [];
+  const previousGroups = groupByName(previous, spec.nameOf);
+  const nextGroups = groupByName(next, spec.nameOf);
+  const names = new Set([...previousGroups.keys(), ...nextGroups.keys()]);
+
+  names.forEach(name => {
+    const before = previousGroups.get(name) ?? [];
+    const after = nextGroups.get(name) ?? [];
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      const previousItem = before[i];
+      const nextItem = after[i];
+      if (!previousItem) {
+        entries.push({ section, change: 'added', label: displayValue(spec.nameOf(nextItem)), after: spec.describe(nextItem) });
+      } else if (!nextItem) {
+        entries.push({ section, change: 'removed', label: displayValue(spec.nameOf(previousItem)), before: spec.describe(previousItem) });
+      } else {
+        spec.fields
+          .filter(field => !sameValue(previousItem[field], nextItem[field]))
+          .forEach(field => entries.push({
+            section,
+            change: 'changed',
+            label: displayValue(spec.nameOf(nextItem)),
+            field,
+            before: displayValue(previousItem[field]),
+            after: displayValue(nextItem[field]),
+          }));
+      }
+    }
+  });
+  return entries;
+}
+
+/**
+ * Field-by-field differences between a document's stored extraction and a
+ * new one. Items are matched by name, ignoring case and spacing; confidence
+ * scores and source locations are not compared.
+ */
+export function diffNormalizedHealthData(
+  previous: Partial<NormalizedHealthData> | undefined,
+  next: NormalizedHealthData
+): ExtractionDiffEntry[] {
+  const entries: ExtractionDiffEntry[] = (Object.keys(DOCUMENT_FIELDS) as Array<keyof typeof DOCUMENT_FIELDS>)
+    .filter(field => !sameValue(previous?.[field], next[field]))
+    .map(field => ({
+      section: 'document',
+      change: 'changed',
+      label: DOCUMENT_FIELDS[field],
+      field,
+      before: displayValue(previous?.[field]),
+      after: displayValue(next[field]),
+    }));
+
+  (Object.keys(SECTION_SPECS) as ItemSection[]).forEach(section => {
+    entries.push(...diffSection(section, SECTION_SPECS[section], previous?.[section] ?? [], next[section] ?? []));
+  });
+  return entries;
+}
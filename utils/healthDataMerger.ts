@@ -0,0 +1,107 @@
+import { NormalizedHealthData } from '@/types/health';
+
+function normalizeKey(value: string | number | undefined | null): string {
+  return String(value ?? '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function dedupe<T>(items: T[], keyOf: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const key = keyOf(item);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function mostCommon<T>(values: T[]): T | undefined {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  let best: T | undefined;
+  let bestCount = 0;
+  counts.forEach((count, value) => {
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+// Page numbers in a chunk's extraction count from the chunk's first page
+export function offsetSourcePages(data: NormalizedHealthData, startPage: number): NormalizedHealthData {
+  const offset = <T extends { page?: number }>(item: T): T =>
+    item.page === undefined ? item : { ...item, page: item.page + startPage - 1 };
+
+  return {
+    ...data,
+    ...(data.vitals && { vitals: data.vitals.map(offset) }),
+    ...(data.labResults && { labResults: data.labResults.map(offset) }),
+    ...(data.imaging && { imaging: data.imaging.map(offset) }),
+    ...(data.vaccinations && { vaccinations: data.vaccinations.map(offset) }),
+  };
+}
+
+/**
+ * Combines the partial results extracted from the chunks of one document.
+ * Document-level fields are taken by majority (or first seen), and items that
+ * were read twice, e.g. a lab table repeated on a summary page, are kept once.
+ */
+export function mergeNormalizedHealthData(parts: NormalizedHealthData[]): NormalizedHealthData {
+  if (parts.length === 1) {
+    return parts[0];
+  }
+
+  const specificTypes = parts.map(part => part.documentType).filter(type => type !== 'other');
+  const notes = dedupe(
+    parts.map(part => part.notes).filter((note): note is string => !!note && note.trim() !== ''),
+    normalizeKey
+  );
+
+  const merged: NormalizedHealthData = {
+    documentType: mostCommon(specificTypes) ?? 'other',
+    date: parts.find(part => part.date)?.date,
+    provider: parts.find(part => part.provider)?.provider,
+    patient: parts.find(part => part.patient)?.patient,
+    medications: dedupe(
+      parts.flatMap(part => part.medications ?? []),
+      med => `${normalizeKey(med.name)}|${normalizeKey(med.dosage)}`
+    ),
+    vitals: dedupe(
+      parts.flatMap(part => part.vitals ?? []),
+      vital => `${normalizeKey(vital.type)}|${vital.value}|${normalizeKey(vital.unit)}|${normalizeKey(vital.date)}`
+    ),
+    diagnoses: dedupe(
+      parts.flatMap(part => part.diagnoses ?? []),
+      diagnosis => normalizeKey(diagnosis.condition)
+    ),
+    labResults: dedupe(
+      parts.flatMap(part => part.labResults ?? []),
+      result => `${normalizeKey(result.test)}|${normalizeKey(result.value)}|${normalizeKey(result.unit)}|${normalizeKey(result.date)}`
+    ),
+    imaging: dedupe(
+      parts.flatMap(part => part.imaging ?? []),
+      study => `${normalizeKey(study.study)}|${normalizeKey(study.date)}`
+    ),
+    vaccinations: dedupe(
+      parts.flatMap(part => part.vaccinations ?? []),
+      dose => `${normalizeKey(dose.vaccine)}|${normalizeKey(dose.date)}|${normalizeKey(dose.lotNumber)}`
+    ),
+    charges: dedupe(
+      parts.flatMap(part => part.charges ?? []),
+      charge => `${normalizeKey(charge.description)}|${normalizeKey(charge.code)}|${charge.amount}|${normalizeKey(charge.date)}`
+    ),
+    notes: notes.length > 0 ? notes.join('\n\n') : undefined,
+  };
+
+  // Keep the "only include fields that have actual data" shape of a single extraction
+  (['medications', 'vitals', 'diagnoses', 'labResults', 'imaging', 'vaccinations', 'charges'] as const).forEach(section => {
+    if (merged[section]?.length === 0) {
+      delete merged[section];
+    }
+  });
+  if (!merged.provider) delete merged.provider;
+  if (!merged.notes) delete merged.notes;
+
+  return merged;
+}
@@ -1,289 +1,311 @@
 import supabaseService from '@/services/supabaseService';
+import { Comparator, ExtractionConfidence, LabValueKind, NormalizedHealthData, QualitativeResult, RangeFlag } from '@/types/health';
+import { ExtractedMetricRow, ExtractionCorrection } from '@/types/document';
+import { LOW_CONFIDENCE_THRESHOLD } from '@/utils/constants';
+import { normalizeMeasurement } from '@/utils/unitRegistry';
+import { matchTestName } from '@/utils/loincTerminology';
+import { parseLabValue } from '@/utils/labValueParser';
+import { assessResult, parseReferenceRange } from '@/utils/referenceRangeParser';
+import { createPairId, splitCompoundMeasurement } from '@/utils/compoundVitals';
+import { reconcileMedications, toDocumentDate } from '@/utils/medicationReconciler';
+import { reconcileConditions } from '@/utils/conditionReconciler';
 
-interface LabResult {
-  test: string;
-  value: string;
-  unit: string;
-  referenceRange: string;
-  date: string;
+export function isLowConfidence(item: ExtractionConfidence): boolean {
+  return item.confidence !== undefined && item.confidence < LOW_CONFIDENCE_THRESHOLD;
 }
 
-interface Vital {
-  type: string;
-  value: number;
-  unit: string;
-  date: string;
-}
+// Rows for a reading written as two values, e.g. blood pressure "120/80"; null when it is a single value
+function buildPairedRows(
+  id: string,
+  section: ExtractedMetricRow['section'],
+  label: string,
+  value: string,
+  unit: string,
+  shared: Pick<ExtractedMetricRow, 'recordedAt' | 'include' | 'confidence' | 'confidenceReasons' | 'source'>
+): ExtractedMetricRow[] | null {
+  const parts = splitCompoundMeasurement(label, value, unit);
+  if (!parts) return null;
 
-interface ExtractedHealthData {
-  documentType?: string;
-  date?: string;
-  provider?: string;
-  labResults?: LabResult[];
-  vitals?: Vital[];
-  diagnoses?: {
-    condition: string;
-    date: string;
-    notes: string;
-  }[];
-  medications?: {
-    name: string;
-    dosage: string;
-    frequency: string;
-  }[];
-  notes?: string;
+  const pairId = createPairId();
+  console.log(`🔗 Split "${label}" ${value} ${unit} into ${parts.map(part => part.metricType).join(' + ')}`);
+  return parts.map((part, index) => ({
+    ...shared,
+    id: `${id}-${index}`,
+    section,
+    label: part.label,
+    value: part.value,
+    unit: part.unit,
+    metricType: part.metricType,
+    loincCode: part.loincCode,
+    pairId,
+    original: { value: part.value, unit: part.unit, metricType: part.metricType, include: shared.include },
+  }));
 }
 
-// Map common test names to specific health metric types
-const metricTypeMap: { [key: string]: string } = {
-  // Blood sugar
-  'glucose': 'blood_glucose',
-  'blood glucose': 'blood_glucose',
-  'blood sugar': 'blood_glucose',
-  'fasting glucose': 'blood_glucose',
-  'random glucose': 'blood_glucose',
-  
-  // Cholesterol panel
-  'cholesterol': 'total_cholesterol',
-  'total cholesterol': 'total_cholesterol',
-  'cholesteroltotal': 'total_cholesterol',
-  'ldl cholesterol': 'ldl_cholesterol', 
-  'ldl': 'ldl_cholesterol',
-  'hdl cholesterol': 'hdl_cholesterol',
-  'hdl': 'hdl_cholesterol',
-  'triglycerides': 'triglycerides',
-  
-  // Vitamins
-  'vitamin d': 'vitamin_d',
-  'vitamin d3': 'vitamin_d',
-  'vitamin d 25-hydroxy': 'vitamin_d',
-  'vitamin b12': 'vitamin_b12',
-  'vitamin b-12': 'vitamin_b12',
-  'cobalamin': 'vitamin_b12',
-  'folate': 'folate',
-  'folic acid': 'folate',
-  'vitamin c': 'vitamin_c',
-  'ascorbic acid': 'vitamin_c',
-  
-  // Blood work
-  'hemoglobin': 'hemoglobin',
-  'hgb': 'hemoglobin',
-  'hematocrit': 'hematocrit',
-  'hct': 'hematocrit',
-  'white blood cells': 'wbc',
-  'wbc': 'wbc',
-  'red blood cells': 'rbc',
-  'rbc': 'rbc',
-  'platelets': 'platelets',
-  
-  // Vital signs
-  'blood pressure': 'blood_pressure_systolic',
-  'systolic': 'blood_pressure_systolic',
-  'diastolic': 'blood_pressure_diastolic',
-  'weight': 'weight',
-  'heart rate': 'heart_rate',
-  'pulse': 'heart_rate',
-  'temperature': 'temperature',
-  
-  // Kidney function
-  'creatinine': 'creatinine',
-  'bun': 'bun',
-  'blood urea nitrogen': 'bun',
-  'egfr': 'egfr',
-  
-  // Liver function
-  'alt': 'alt',
-  'ast': 'ast',
-  'bilirubin': 'bilirubin',
-  'alkaline phosphatase': 'alkaline_phosphatase',
-  
-  // Thyroid
-  'tsh': 'tsh',
-  'thyroid stimulating hormone': 'tsh',
-  't3': 't3',
-  't4': 't4',
-  'free t4': 'free_t4',
-  'free t3': 'free_t3',
-  
-  // Other common tests
-  'iron': 'iron',
-  'ferritin': 'ferritin',
-  'calcium': 'calcium',
-  'magnesium': 'magnesium',
-  'phosphorus': 'phosphorus',
-  'potassium': 'potassium',
-  'sodium': 'sodium',
-  'chloride': 'chloride',
-  'testosterone': 'testosterone',
-  'estrogen': 'estrogen',
-  'cortisol': 'cortisol',
-  'insulin': 'insulin',
-  
-  // International variations (Spanish)
-  'vitamina b12': 'vitamin_b12',
-  'vitamina d': 'vitamin_d',
-  '25-oh-vitamina d': 'vitamin_d',
-  'testosteron': 'testosterone',
-  'mercur': 'mercury',
-  'mercur in sange': 'mercury_blood',
-  'mercurio': 'mercury',
-  
-  // International variations (French)
-  'vitamine b12': 'vitamin_b12',
-  'vitamine d': 'vitamin_d',
-  'testosterone': 'testosterone',
-  
-  // International variations (German)
-  'vitamin b12': 'vitamin_b12',
-  'vitamin d': 'vitamin_d',
-  'testosteron': 'testosterone',
-  
-  // Heavy metals and toxins
-  'mercury': 'mercury',
-  'lead': 'lead',
-  'cadmium': 'cadmium',
-  'arsenic': 'arsenic',
-};
-
-function getMetricType(testName: string): string {
-  const normalized = testName.toLowerCase().trim();
-  
-  // First try exact match
-  if (metricTypeMap[normalized]) {
-    return metricTypeMap[normalized];
-  }
-  
-  // Then try partial matches for complex test names
-  for (const [key, value] of Object.entries(metricTypeMap)) {
-    if (normalized.includes(key) || key.includes(normalized)) {
-      return value;
+/**
+ * Turns extracted lab results and vitals into editable review rows. Rows with
+ * low confidence or with a value that cannot be read start out excluded.
+ * Items of a document that prints no date are dated by its upload.
+ */
+export function buildReviewRows(
+  extractedData: NormalizedHealthData,
+  options: { uploadedAt: string; includeLowConfidence?: boolean }
+): ExtractedMetricRow[] {
+  const rows: ExtractedMetricRow[] = [];
+  const documentDate = extractedData.date || options.uploadedAt;
+
+  // Process lab results
+  (extractedData.labResults ?? []).forEach((result, i) => {
+    // Validate required fields
+    if (!result.test) {
+      console.log(`⚠️ Skipping result ${i + 1}: missing test name`);
+      return;
     }
-  }
-  
-  // If no match found, use the original test name (cleaned up)
-  // Convert to snake_case and remove special characters
-  return normalized
-    .replace(/[^\w\s-]/g, '') // Remove special chars except hyphens
-    .replace(/\s+/g, '_') // Replace spaces with underscores
-    .replace(/-+/g, '_') // Replace hyphens with underscores
-    .replace(/_+/g, '_') // Replace multiple underscores with single
-    .replace(/^_|_$/g, ''); // Remove leading/trailing underscores
+
+    const value = String(result.value ?? '');
+    const unit = result.unit || '';
+    const range = parseReferenceRange(result.referenceRange, extractedData.patient);
+    const confident = options.includeLowConfidence || !isLowConfidence(result);
+    const source = { label: result.test, page: result.page, snippet: result.sourceText };
+    const paired = buildPairedRows(`labResults-${i}`, 'labResults', result.test, value, unit, {
+      recordedAt: result.date || documentDate,
+      include: confident,
+      confidence: result.confidence,
+      confidenceReasons: result.confidenceReasons,
+      source,
+    });
+    if (paired) {
+      rows.push(...paired);
+      return;
+    }
+
+    const match = matchTestName(result.test);
+    const { metricType } = match;
+    const loincCode = match.mapped ? match.loincCode : null;
+    const include = confident && parseLabValue(value).kind !== 'unparseable';
+
+    console.log(`📊 Lab result: "${result.test}" → metric_type: "${metricType}" (${loincCode ?? 'unmapped'}) → value: ${value} ${unit}`);
+    rows.push({
+      id: `labResults-${i}`,
+      section: 'labResults',
+      label: result.test,
+      value,
+      unit,
+      metricType,
+      loincCode,
+      recordedAt: result.date || documentDate,
+      include,
+      referenceRange: result.referenceRange
+        ? { text: result.referenceRange, low: range?.low, high: range?.high }
+        : undefined,
+      confidence: result.confidence,
+      confidenceReasons: result.confidenceReasons,
+      source,
+      original: { value, unit, metricType, include },
+    });
+  });
+
+  // Process vitals
+  (extractedData.vitals ?? []).forEach((vital, i) => {
+    // Validate required fields
+    if (!vital.type) {
+      console.log(`⚠️ Skipping vital ${i + 1}: missing type`);
+      return;
+    }
+
+    const value = vital.value === null || vital.value === undefined ? '' : String(vital.value);
+    const unit = vital.unit || '';
+    const confident = options.includeLowConfidence || !isLowConfidence(vital);
+    const source = { label: vital.type, page: vital.page, snippet: vital.sourceText };
+    const paired = buildPairedRows(`vitals-${i}`, 'vitals', vital.type, value, unit, {
+      recordedAt: vital.date || documentDate,
+      include: confident,
+      confidence: vital.confidence,
+      confidenceReasons: vital.confidenceReasons,
+      source,
+    });
+    if (paired) {
+      rows.push(...paired);
+      return;
+    }
+
+    const match = matchTestName(vital.type);
+    const { metricType } = match;
+    const loincCode = match.mapped ? match.loincCode : null;
+    const include = confident && parseLabValue(value).kind !== 'unparseable';
+
+    console.log(`📊 Vital: "${vital.type}" → metric_type: "${metricType}" (${loincCode ?? 'unmapped'}) → value: ${value} ${unit}`);
+    rows.push({
+      id: `vitals-${i}`,
+      section: 'vitals',
+      label: vital.type,
+      value,
+      unit,
+      metricType,
+      loincCode,
+      recordedAt: vital.date || documentDate,
+      include,
+      confidence: vital.confidence,
+      confidenceReasons: vital.confidenceReasons,
+      source,
+      original: { value, unit, metricType, include },
+    });
+  });
+
+  return rows;
 }
 
-function parseNumericValue(value: string | number | undefined | null): number | null {
-  // Handle null, undefined, or empty values
-  if (value === null || value === undefined || value === '') {
-    return null;
-  }
-  
-  // If it's already a number, return it
-  if (typeof value === 'number') {
-    return value;
-  }
-  
-  // Convert to string and extract numeric value from strings like "95.5", "95-120", "< 100", etc.
-  const stringValue = String(value);
-  const match = stringValue.match(/(\d+(?:\.\d+)?)/);
-  return match ? parseFloat(match[1]) : null;
+// Compares the reviewed rows with what the extraction produced
+export function collectCorrections(rows: ExtractedMetricRow[]): ExtractionCorrection[] {
+  const corrections: ExtractionCorrection[] = [];
+
+  rows.forEach(row => {
+    if (!row.original) {
+      if (row.include) {
+        corrections.push({ correctionType: 'added', testLabel: row.label, correctedValue: `${row.value} ${row.unit}`.trim() });
+      }
+      return;
+    }
+
+    if (row.original.include && !row.include) {
+      corrections.push({ correctionType: 'removed', testLabel: row.label, originalValue: row.original.value });
+      return;
+    }
+    if (!row.include) return;
+
+    (['value', 'unit'] as const).forEach(field => {
+      if (row[field].trim() !== row.original![field].trim()) {
+        corrections.push({
+          correctionType: 'edited',
+          testLabel: row.label,
+          field,
+          originalValue: row.original![field],
+          correctedValue: row[field],
+        });
+      }
+    });
+    if (row.metricType !== row.original.metricType) {
+      corrections.push({
+        correctionType: 'remapped',
+        testLabel: row.label,
+        field: 'metricType',
+        originalValue: row.original.metricType,
+        correctedValue: row.metricType,
+      });
+    }
+  });
+
+  return corrections;
 }
 
-export async function processAndSaveHealthData(
-  extractedData: ExtractedHealthData,
+/**
+ * Saves the included rows to health_metrics and records how the user
+ * corrected the extraction. Only a failure to save metrics is reported.
+ * Metrics are linked to the document they were read from; `replaceExisting`
+ * removes the metrics an earlier extraction of the same document saved, once
+ * the new ones are in, so re-extracting never leaves duplicate rows behind.
+ */
+export async function saveReviewedMetrics(
+  rows: ExtractedMetricRow[],
   userId: string,
   fileName: string,
-  extractedText: string
+  options: { documentId?: string; documentHash?: string; replaceExisting?: boolean } = {}
 ): Promise<boolean> {
-  console.log('🔄 Processing and saving health data...');
-  console.log('📋 Skipping document metadata - focusing on health metrics only');
-  
+  console.log('🔄 Saving reviewed health metrics...');
+
   try {
-    // Extract and save individual health metrics
+    let previousMetricIds: string[] = [];
+    if (options.documentHash && options.replaceExisting) {
+      const ids = await supabaseService.getMetricIdsForDocument(userId, options.documentHash);
+      if (ids === null) {
+        console.error('❌ Could not look up the metrics of the earlier extraction');
+        return false;
+      }
+      previousMetricIds = ids;
+    }
+
     const metricsToSave: Array<{
       userId: string;
       metricType: string;
-      value: number;
+      loincCode: string | null;
+      pairId?: string;
+      documentId?: string;
+      documentHash?: string;
+      sourceLabel?: string;
+      sourcePage?: number;
+      sourceSnippet?: string;
+      value: number | null;
       unit: string;
+      valueKind: LabValueKind;
+      valueComparator?: Comparator;
+      valueHigh?: number;
+      valueText?: QualitativeResult;
+      referenceLow?: number;
+      referenceHigh?: number;
+      referenceText?: string;
+      rangeFlag?: RangeFlag;
+      originalValue: number | null;
+      originalUnit: string;
       recordedAt: Date;
       source: string;
     }> = [];
 
-    // Process lab results
-    if (extractedData.labResults) {
-      console.log(`🧪 Processing ${extractedData.labResults.length} lab results...`);
-      for (let i = 0; i < extractedData.labResults.length; i++) {
-        const result = extractedData.labResults[i];
-        
-        try {
-          console.log(`🔍 Raw lab result ${i + 1}:`, JSON.stringify(result, null, 2));
-          
-          // Validate required fields
-          if (!result.test) {
-            console.log(`⚠️ Skipping result ${i + 1}: missing test name`);
-            continue;
-          }
-          
-          const numericValue = parseNumericValue(result.value);
-          const metricType = getMetricType(result.test);
-          const unit = result.unit || '';
-          
-          console.log(`📊 Lab result: "${result.test}" → metric_type: "${metricType}" → value: ${numericValue} ${unit}`);
-          
-          if (numericValue !== null) {
-            metricsToSave.push({
-              userId,
-              metricType,
-              value: numericValue,
-              unit,
-              recordedAt: result.date ? new Date(result.date) : new Date(),
-              source: 'document_extraction',
-            });
-          } else {
-            console.log(`⚠️ Could not parse numeric value from: "${result.value}" (type: ${typeof result.value})`);
-          }
-        } catch (error) {
-          console.error(`❌ Error processing lab result ${i + 1}:`, error);
-          console.error('Raw result data:', result);
-        }
+    rows.filter(row => row.include).forEach(row => {
+      const labValue = parseLabValue(row.value);
+      if (labValue.kind === 'unparseable') {
+        console.log(`⚠️ Could not parse value from: "${row.value}" (${row.label})`);
+        return;
       }
-    }
+      const recordedAt = new Date(row.recordedAt);
+      const assessment = assessResult(row.metricType, labValue, row.unit, row.referenceRange ?? null);
+      if (assessment.flag && assessment.flag !== 'normal') {
+        console.log(`🚩 ${row.label}: ${row.value} ${row.unit} is ${assessment.flag} (reference ${row.referenceRange?.text ?? 'none'})`);
+      }
+      const metric = {
+        userId,
+        metricType: row.metricType,
+        loincCode: row.loincCode,
+        pairId: row.pairId,
+        documentId: options.documentId,
+        documentHash: options.documentHash,
+        sourceLabel: row.source?.label,
+        sourcePage: row.source?.page,
+        sourceSnippet: row.source?.snippet,
+        valueKind: labValue.kind,
+        referenceLow: assessment.low,
+        referenceHigh: assessment.high,
+        referenceText: row.referenceRange?.text,
+        rangeFlag: assessment.flag ?? undefined,
+        originalValue: labValue.value,
+        originalUnit: row.unit,
+        recordedAt: isNaN(recordedAt.getTime()) ? new Date() : recordedAt,
+        source: 'document_extraction',
+      };
 
-    // Process vitals
-    if (extractedData.vitals) {
-      console.log(`💓 Processing ${extractedData.vitals.length} vital signs...`);
-      for (let i = 0; i < extractedData.vitals.length; i++) {
-        const vital = extractedData.vitals[i];
-        
-        try {
-          console.log(`🔍 Raw vital ${i + 1}:`, JSON.stringify(vital, null, 2));
-          
-          // Validate required fields
-          if (!vital.type) {
-            console.log(`⚠️ Skipping vital ${i + 1}: missing type`);
-            continue;
-          }
-          
-          if (vital.value === null || vital.value === undefined) {
-            console.log(`⚠️ Skipping vital ${i + 1}: missing value`);
-            continue;
-          }
-          
-          const metricType = getMetricType(vital.type);
-          console.log(`📊 Vital: "${vital.type}" → metric_type: "${metricType}" → value: ${vital.value} ${vital.unit || ''}`);
-          
-          metricsToSave.push({
-            userId,
-            metricType,
-            value: vital.value,
-            unit: vital.unit || '',
-            recordedAt: vital.date ? new Date(vital.date) : new Date(),
-            source: 'document_extraction',
-          });
-        } catch (error) {
-          console.error(`❌ Error processing vital ${i + 1}:`, error);
-          console.error('Raw vital data:', vital);
-        }
+      // Qualitative results and titers have no unit to convert
+      if (labValue.kind === 'qualitative') {
+        metricsToSave.push({ ...metric, value: null, unit: row.unit.trim(), valueText: labValue.result });
+        return;
+      }
+      if (labValue.kind === 'titer') {
+        metricsToSave.push({ ...metric, value: labValue.value, unit: 'titer' });
+        return;
       }
-    }
+
+      const measurement = normalizeMeasurement(row.metricType, labValue.value, row.unit);
+      if (measurement.unit !== measurement.originalUnit) {
+        console.log(`📐 ${row.label}: ${labValue.value} ${row.unit} → ${measurement.value} ${measurement.unit}`);
+      }
+      metricsToSave.push({
+        ...metric,
+        value: measurement.value,
+        unit: measurement.unit,
+        valueComparator: labValue.kind === 'censored' ? labValue.comparator : undefined,
+        valueHigh: labValue.kind === 'range'
+          ? normalizeMeasurement(row.metricType, labValue.high, row.unit).value
+          : undefined,
+      });
+    });
 
     // Save metrics to database
     if (metricsToSave.length > 0) {
@@ -298,11 +320,107 @@ export async function processAndSaveHealthData(
       console.log('📋 No quantifiable health metrics found to save');
     }
 
-    console.log('✅ Health data processing completed successfully');
+    if (previousMetricIds.length > 0) {
+      console.log(`🔁 Replacing ${previousMetricIds.length} metrics from the earlier extraction`);
+      if (!(await supabaseService.deleteHealthMetrics(previousMetricIds))) {
+        console.error('❌ Failed to remove metrics from the earlier extraction');
+        return false;
+      }
+    }
+
+    const corrections = collectCorrections(rows);
+    if (corrections.length > 0) {
+      console.log(`✏️ Recording ${corrections.length} user corrections`);
+      await supabaseService.saveExtractionCorrections(userId, fileName, corrections);
+    }
+
+    return true;
+  } catch (error) {
+    console.error('❌ Error saving reviewed health metrics:', error);
+    return false;
+  }
+}
+
+/**
+ * Merges the medications of an extracted document into the user's medication
+ * list, dated by the document, or its upload when it prints no date, and
+ * credited to its provider. Medications the model was unsure of are left
+ * out, as review rows are. Returns false only when the list could not be
+ * read or written.
+ */
+export async function saveExtractedMedications(
+  extractedData: NormalizedHealthData,
+  userId: string,
+  options: { uploadedAt: string; documentId?: string; documentHash?: string; includeLowConfidence?: boolean }
+): Promise<boolean> {
+  const medications = (extractedData.medications ?? []).filter(medication => {
+    if (!options.includeLowConfidence && isLowConfidence(medication)) {
+      console.log(`⚠️ Skipping medication "${medication.name}": low confidence (${medication.confidence})`);
+      return false;
+    }
     return true;
+  });
+  if (medications.length === 0) return true;
 
+  try {
+    const existing = await supabaseService.getMedications(userId);
+    if (existing === null) {
+      console.error('❌ Could not look up the medication list');
+      return false;
+    }
+
+    const reconciliation = reconcileMedications(existing, medications, userId, {
+      date: toDocumentDate(extractedData.date ?? options.uploadedAt),
+      provider: extractedData.provider,
+      documentId: options.documentId,
+      documentHash: options.documentHash,
+    });
+    console.log(`💊 Medications: ${reconciliation.added} added, ${reconciliation.updated} updated, ${reconciliation.unchanged} unchanged`);
+
+    return await supabaseService.saveMedications(reconciliation.entries);
   } catch (error) {
-    console.error('❌ Error processing health data:', error);
+    console.error('❌ Error saving medications:', error);
     return false;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Merges the diagnoses of an extracted document into the user's problem
+ * list, coded with ICD-10 where the bundled table knows the condition.
+ * Diagnoses the model was unsure of are left out. Returns false only when
+ * the list could not be read or written.
+ */
+export async function saveExtractedConditions(
+  extractedData: NormalizedHealthData,
+  userId: string,
+  options: { uploadedAt: string; documentId?: string; documentHash?: string; includeLowConfidence?: boolean }
+): Promise<boolean> {
+  const diagnoses = (extractedData.diagnoses ?? []).filter(diagnosis => {
+    if (!options.includeLowConfidence && isLowConfidence(diagnosis)) {
+      console.log(`⚠️ Skipping diagnosis "${diagnosis.condition}": low confidence (${diagnosis.confidence})`);
+      return false;
+    }
+    return true;
+  });
+  if (diagnoses.length === 0) return true;
+
+  try {
+    const existing = await supabaseService.getConditions(userId);
+    if (existing === null) {
+      console.error('❌ Could not look up the problem list');
+      return false;
+    }
+
+    const reconciliation = reconcileConditions(existing, diagnoses, userId, {
+      date: toDocumentDate(extractedData.date ?? options.uploadedAt),
+      documentId: options.documentId,
+      documentHash: options.documentHash,
+    });
+    console.log(`🩺 Conditions: ${reconciliation.added} added, ${reconciliation.updated} updated, ${reconciliation.unchanged} unchanged`);
+
+    return await supabaseService.saveConditions(reconciliation.entries);
+  } catch (error) {
+    console.error('❌ Error saving conditions:', error);
+    return false;
+  }
+}
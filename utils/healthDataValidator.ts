@@ -0,0 +1,224 @@
+import { DOCUMENT_TYPES, NormalizedHealthData, PATIENT_SEXES } from '@/types/health';
+import { DocumentClassificationResult, ValidationIssue } from '@/types/document';
+import { isPairedReading } from '@/utils/compoundVitals';
+
+export type ValidationResult =
+  | { valid: true; data: NormalizedHealthData }
+  | { valid: false; errors: ValidationIssue[] };
+
+type FieldKind = 'string' | 'number' | 'measurement' | 'date' | 'probability';
+
+interface FieldRule {
+  kind: FieldKind;
+  required: boolean;
+}
+
+// Item schemas for the array sections of NormalizedHealthData
+const itemSchemas: { [section: string]: { [field: string]: FieldRule } } = {
+  medications: {
+    name: { kind: 'string', required: true },
+    dosage: { kind: 'string', required: false },
+    frequency: { kind: 'string', required: false },
+    confidence: { kind: 'probability', required: false },
+  },
+  vitals: {
+    type: { kind: 'string', required: true },
+    value: { kind: 'measurement', required: true },
+    unit: { kind: 'string', required: true },
+    date: { kind: 'date', required: false },
+    page: { kind: 'number', required: false },
+    sourceText: { kind: 'string', required: false },
+    confidence: { kind: 'probability', required: false },
+  },
+  diagnoses: {
+    condition: { kind: 'string', required: true },
+    date: { kind: 'date', required: false },
+    notes: { kind: 'string', required: false },
+    confidence: { kind: 'probability', required: false },
+  },
+  labResults: {
+    test: { kind: 'string', required: true },
+    value: { kind: 'string', required: true },
+    unit: { kind: 'string', required: false },
+    referenceRange: { kind: 'string', required: false },
+    date: { kind: 'date', required: false },
+    page: { kind: 'number', required: false },
+    sourceText: { kind: 'string', required: false },
+    confidence: { kind: 'probability', required: false },
+  },
+  imaging: {
+    study: { kind: 'string', required: true },
+    modality: { kind: 'string', required: false },
+    bodyPart: { kind: 'string', required: false },
+    findings: { kind: 'string', required: false },
+    impression: { kind: 'string', required: false },
+    date: { kind: 'date', required: false },
+    page: { kind: 'number', required: false },
+    sourceText: { kind: 'string', required: false },
+    confidence: { kind: 'probability', required: false },
+  },
+  vaccinations: {
+    vaccine: { kind: 'string', required: true },
+    date: { kind: 'date', required: false },
+    doseNumber: { kind: 'number', required: false },
+    lotNumber: { kind: 'string', required: false },
+    manufacturer: { kind: 'string', required: false },
+    site: { kind: 'string', required: false },
+    page: { kind: 'number', required: false },
+    sourceText: { kind: 'string', required: false },
+    confidence: { kind: 'probability', required: false },
+  },
+  charges: {
+    description: { kind: 'string', required: true },
+    code: { kind: 'string', required: false },
+    amount: { kind: 'number', required: true },
+    currency: { kind: 'string', required: false },
+    patientAmount: { kind: 'number', required: false },
+    date: { kind: 'date', required: false },
+    confidence: { kind: 'probability', required: false },
+  },
+};
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null;
+}
+
+function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return (values as readonly unknown[]).includes(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value === 'string' ? `string "${value}"` : typeof value;
+}
+
+function checkField(value: unknown, rule: FieldRule, path: string, errors: ValidationIssue[]): void {
+  if (isMissing(value)) {
+    if (rule.required) {
+      errors.push({ path, message: 'is required' });
+    }
+    return;
+  }
+
+  switch (rule.kind) {
+    case 'string':
+      if (typeof value !== 'string') {
+        errors.push({ path, message: `must be a string, got ${describe(value)}` });
+      } else if (rule.required && value.trim() === '') {
+        errors.push({ path, message: 'must not be empty' });
+      }
+      break;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push({ path, message: `must be a number, got ${describe(value)}` });
+      }
+      break;
+    case 'measurement':
+      // A number, or a compound reading such as "120/80"
+      if (typeof value === 'string' ? !isPairedReading(value) : typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push({ path, message: `must be a number or a paired reading like "120/80", got ${describe(value)}` });
+      }
+      break;
+    case 'probability':
+      if (typeof value !== 'number' || !(value >= 0 && value <= 1)) {
+        errors.push({ path, message: `must be a number between 0 and 1, got ${describe(value)}` });
+      }
+      break;
+    case 'date':
+      if (typeof value !== 'string' || isNaN(new Date(value).getTime())) {
+        errors.push({ path, message: `must be an ISO date string, got ${describe(value)}` });
+      }
+      break;
+  }
+}
+
+/**
+ * Checks a parsed model response against the NormalizedHealthData schema and
+ * reports every field-level problem, so the errors can be fed back to the model.
+ */
+export function validateNormalizedHealthData(raw: unknown): ValidationResult {
+  const errors: ValidationIssue[] = [];
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { valid: false, errors: [{ path: '$', message: `must be a JSON object, got ${describe(raw)}` }] };
+  }
+
+  const data = raw as { [key: string]: unknown };
+
+  if (isMissing(data.documentType)) {
+    errors.push({ path: 'documentType', message: 'is required' });
+  } else if (!isOneOf(DOCUMENT_TYPES, data.documentType)) {
+    errors.push({
+      path: 'documentType',
+      message: `must be one of ${DOCUMENT_TYPES.join(', ')}, got ${describe(data.documentType)}`,
+    });
+  }
+
+  checkField(data.date, { kind: 'date', required: false }, 'date', errors);
+  checkField(data.provider, { kind: 'string', required: false }, 'provider', errors);
+  checkField(data.notes, { kind: 'string', required: false }, 'notes', errors);
+
+  if (!isMissing(data.patient)) {
+    const patient = data.patient as { [key: string]: unknown };
+    if (typeof patient !== 'object' || Array.isArray(patient)) {
+      errors.push({ path: 'patient', message: `must be an object, got ${describe(patient)}` });
+    } else {
+      if (!isMissing(patient.sex) && !isOneOf(PATIENT_SEXES, patient.sex)) {
+        errors.push({ path: 'patient.sex', message: `must be one of ${PATIENT_SEXES.join(', ')}, got ${describe(patient.sex)}` });
+      }
+      checkField(patient.age, { kind: 'number', required: false }, 'patient.age', errors);
+    }
+  }
+
+  for (const [section, schema] of Object.entries(itemSchemas)) {
+    const items = data[section];
+    if (isMissing(items)) continue;
+
+    if (!Array.isArray(items)) {
+      errors.push({ path: section, message: `must be an array, got ${describe(items)}` });
+      continue;
+    }
+
+    items.forEach((item, index) => {
+      const itemPath = `${section}[${index}]`;
+      if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+        errors.push({ path: itemPath, message: `must be an object, got ${describe(item)}` });
+        return;
+      }
+      for (const [field, rule] of Object.entries(schema)) {
+        checkField((item as { [key: string]: unknown })[field], rule, `${itemPath}.${field}`, errors);
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+  return { valid: true, data: data as unknown as NormalizedHealthData };
+}
+
+/**
+ * Reads the answer of the classification pass. Returns null when it names no
+ * known type, in which case the document is extracted with the generic prompt.
+ * A missing or invalid confidence counts as 0, so it never rejects an upload.
+ */
+export function validateDocumentClassification(raw: unknown): DocumentClassificationResult | null {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return null;
+
+  const data = raw as { [key: string]: unknown };
+  const documentType = data.documentType;
+  if (documentType !== 'not_medical' && !isOneOf(DOCUMENT_TYPES, documentType)) return null;
+
+  const errors: ValidationIssue[] = [];
+  checkField(data.confidence, { kind: 'probability', required: true }, 'confidence', errors);
+  return {
+    documentType: documentType as DocumentClassificationResult['documentType'],
+    confidence: errors.length === 0 ? data.confidence as number : 0,
+    reason: typeof data.reason === 'string' && data.reason.trim() ? data.reason.trim() : undefined,
+  };
+}
+
+export function formatValidationErrors(errors: ValidationIssue[]): string {
+  return errors.map(error => `- ${error.path}: ${error.message}`).join('\n');
+}
@@ -0,0 +1,608 @@
+export interface Icd10Term {
+  code: string;
+  display: string;
+  // Names and abbreviations as they appear on reports, in any of the supported languages
+  synonyms: string[];
+}
+
+export type Icd10Match =
+  | { mapped: true; icd10Code: string; display: string; score: number; explicit: boolean }
+  | { mapped: false; score: number; reason: 'no_match' | 'ambiguous' };
+
+// A condition name must be covered this well by a synonym before it is mapped
+const MIN_MATCH_SCORE = 0.5;
+
+// Filler words and qualifiers (grade, stage, severity, side) that do not change which condition is meant
+const NOISE_TOKENS = new Set([
+  'of', 'the', 'and', 'in', 'with', 'a', 'an', 'unspecified', 'nos', 'known', 'diagnosed', 'mild', 'moderate',
+  'severe', 'grade', 'stage', 'controlled', 'uncontrolled', 'left', 'right', 'bilateral', 'i', 'ii', 'iii', 'iv',
+  // Spanish
+  'de', 'del', 'la', 'el', 'con', 'grado', 'estadio', 'leve', 'moderada', 'grave',
+  // French
+  'le', 'les', 'du', 'des', 'avec', 'stade',
+  // German
+  'der', 'die', 'das', 'mit', 'grad',
+  // Romanian
+  'si', 'cu', 'al', 'grad', 'gradul', 'stadiu', 'stadiul', 'usoara', 'moderata', 'severa', 'nespecificat',
+  'nespecificata', 'stang', 'stanga', 'drept', 'dreapta',
+]);
+
+/**
+ * Bundled subset of ICD-10 (WHO edition) covering the chronic and common
+ * conditions that show up on discharge letters, referrals and lab reports.
+ * Categories are used where the report rarely gives enough detail for a
+ * subcategory.
+ */
+export const ICD10_TERMS: Icd10Term[] = [
+  // Cardiovascular
+  {
+    code: 'I10',
+    display: 'Essential (primary) hypertension',
+    synonyms: ['hypertension', 'high blood pressure', 'essential hypertension', 'arterial hypertension', 'htn', 'hta', 'hipertension arterial', 'hypertension arterielle', 'hypertonie', 'hipertensiune arteriala', 'hipertensiune', 'hipertensiune arteriala esentiala'],
+  },
+  {
+    code: 'I20',
+    display: 'Angina pectoris',
+    synonyms: ['angina', 'angina pectoris', 'angina pectorala', 'angor pectoral'],
+  },
+  {
+    code: 'I21',
+    display: 'Acute myocardial infarction',
+    synonyms: ['myocardial infarction', 'heart attack', 'acute myocardial infarction', 'stemi', 'nstemi', 'infarto de miocardio', 'infarctus du myocarde', 'herzinfarkt', 'infarct miocardic', 'infarct miocardic acut', 'ima'],
+  },
+  {
+    code: 'I25.1',
+    display: 'Atherosclerotic heart disease',
+    synonyms: ['coronary artery disease', 'ischemic heart disease', 'ischaemic heart disease', 'atherosclerotic heart disease', 'cad', 'cardiopatie ischemica', 'boala coronariana', 'cardiopatie ischemica cronica'],
+  },
+  {
+    code: 'I48',
+    display: 'Atrial fibrillation and flutter',
+    synonyms: ['atrial fibrillation', 'afib', 'af', 'atrial flutter', 'fibrilacion auricular', 'fibrillation auriculaire', 'vorhofflimmern', 'fibrilatie atriala', 'flutter atrial'],
+  },
+  {
+    code: 'I50',
+    display: 'Heart failure',
+    synonyms: ['heart failure', 'congestive heart failure', 'chf', 'cardiac failure', 'insuficiencia cardiaca', 'insuffisance cardiaque', 'herzinsuffizienz', 'insuficienta cardiaca', 'insuficienta cardiaca congestiva'],
+  },
+  {
+    code: 'I63',
+    display: 'Cerebral infarction',
+    synonyms: ['stroke', 'ischemic stroke', 'ischaemic stroke', 'cerebral infarction', 'cva', 'ictus', 'avc', 'schlaganfall', 'accident vascular cerebral', 'accident vascular cerebral ischemic', 'infarct cerebral'],
+  },
+  {
+    code: 'I83',
+    display: 'Varicose veins of lower extremities',
+    synonyms: ['varicose veins', 'varices', 'varizen', 'varice', 'boala varicoasa', 'varice membre inferioare'],
+  },
+  {
+    code: 'I95',
+    display: 'Hypotension',
+    synonyms: ['hypotension', 'low blood pressure', 'hipotension', 'hypotonie', 'hipotensiune', 'hipotensiune arteriala'],
+  },
+  {
+    code: 'R00.0',
+    display: 'Tachycardia, unspecified',
+    synonyms: ['tachycardia', 'taquicardia', 'tachycardie', 'tahicardie', 'tahicardie sinusala'],
+  },
+
+  // Diabetes and metabolism
+  {
+    code: 'E10',
+    display: 'Type 1 diabetes mellitus',
+    synonyms: ['type 1 diabetes', 'type 1 diabetes mellitus', 't1dm', 'dm1', 'dm type 1', 'insulin dependent diabetes', 'diabetes tipo 1', 'diabete de type 1', 'typ 1 diabetes', 'diabet zaharat tip 1', 'diabet tip 1', 'dz tip 1', 'dz1'],
+  },
+  {
+    code: 'E11',
+    display: 'Type 2 diabetes mellitus',
+    synonyms: ['type 2 diabetes', 'type 2 diabetes mellitus', 't2dm', 'dm2', 'dm type 2', 'non insulin dependent diabetes', 'diabetes tipo 2', 'diabete de type 2', 'typ 2 diabetes', 'diabet zaharat tip 2', 'diabet tip 2', 'dz tip 2', 'dz2'],
+  },
+  {
+    code: 'E14',
+    display: 'Unspecified diabetes mellitus',
+    synonyms: ['diabetes', 'diabetes mellitus', 'diabete', 'diabete sucre', 'diabet', 'diabet zaharat', 'dz'],
+  },
+  {
+    code: 'O24.4',
+    display: 'Diabetes mellitus arising in pregnancy',
+    synonyms: ['gestational diabetes', 'diabetes gestacional', 'diabete gestationnel', 'schwangerschaftsdiabetes', 'diabet gestational'],
+  },
+  {
+    code: 'R73.0',
+    display: 'Abnormal glucose tolerance test',
+    synonyms: ['prediabetes', 'pre diabetes', 'impaired glucose tolerance', 'igt', 'prediabete', 'prediabet', 'toleranta alterata la glucoza', 'scaderea tolerantei la glucoza'],
+  },
+  {
+    code: 'E16.2',
+    display: 'Hypoglycaemia, unspecified',
+    synonyms: ['hypoglycemia', 'hypoglycaemia', 'hipoglucemia', 'hypoglycemie', 'hypoglykamie', 'hipoglicemie'],
+  },
+  {
+    code: 'E78.0',
+    display: 'Pure hypercholesterolaemia',
+    synonyms: ['hypercholesterolemia', 'hypercholesterolaemia', 'high cholesterol', 'hipercolesterolemia', 'hypercholesterolemie', 'hypercholesterinamie', 'hipercolesterolemie'],
+  },
+  {
+    code: 'E78.1',
+    display: 'Pure hyperglyceridaemia',
+    synonyms: ['hypertriglyceridemia', 'hypertriglyceridaemia', 'high triglycerides', 'hipertrigliceridemia', 'hypertriglyceridemie', 'hipertrigliceridemie'],
+  },
+  {
+    code: 'E78.5',
+    display: 'Hyperlipidaemia, unspecified',
+    synonyms: ['hyperlipidemia', 'hyperlipidaemia', 'dyslipidemia', 'dyslipidaemia', 'dislipidemia', 'dyslipidemie', 'hyperlipidamie', 'dislipidemie', 'hiperlipidemie', 'dislipidemie mixta'],
+  },
+  {
+    code: 'E66.9',
+    display: 'Obesity, unspecified',
+    synonyms: ['obesity', 'obese', 'obesidad', 'obesite', 'adipositas', 'obezitate'],
+  },
+  {
+    code: 'E79.0',
+    display: 'Hyperuricaemia without signs of inflammatory arthritis and tophaceous disease',
+    synonyms: ['hyperuricemia', 'hyperuricaemia', 'high uric acid', 'hiperuricemia', 'hyperuricemie', 'hyperurikamie', 'hiperuricemie'],
+  },
+  {
+    code: 'M10',
+    display: 'Gout',
+    synonyms: ['gout', 'gota', 'goutte', 'gicht', 'guta'],
+  },
+  {
+    code: 'E87.6',
+    display: 'Hypokalaemia',
+    synonyms: ['hypokalemia', 'hypokalaemia', 'low potassium', 'hipopotasemia', 'hypokaliemie', 'hypokaliamie', 'hipokaliemie', 'hipopotasemie'],
+  },
+  {
+    code: 'E86',
+    display: 'Volume depletion',
+    synonyms: ['dehydration', 'volume depletion', 'deshidratacion', 'deshydratation', 'dehydratation', 'deshidratare'],
+  },
+
+  // Thyroid and other endocrine
+  {
+    code: 'E03.9',
+    display: 'Hypothyroidism, unspecified',
+    synonyms: ['hypothyroidism', 'underactive thyroid', 'hipotiroidismo', 'hypothyroidie', 'hypothyreose', 'hipotiroidism'],
+  },
+  {
+    code: 'E05.9',
+    display: 'Thyrotoxicosis, unspecified',
+    synonyms: ['hyperthyroidism', 'overactive thyroid', 'thyrotoxicosis', 'hipertiroidismo', 'hyperthyroidie', 'hyperthyreose', 'hipertiroidism', 'tireotoxicoza'],
+  },
+  {
+    code: 'E06.3',
+    display: 'Autoimmune thyroiditis',
+    synonyms: ['hashimoto thyroiditis', 'hashimoto', 'hashimotos thyroiditis', 'autoimmune thyroiditis', 'tiroiditis de hashimoto', 'thyroidite de hashimoto', 'hashimoto thyreoiditis', 'tiroidita hashimoto', 'tiroidita autoimuna', 'tiroidita cronica autoimuna'],
+  },
+  {
+    code: 'E04.1',
+    display: 'Nontoxic single thyroid nodule',
+    synonyms: ['thyroid nodule', 'nodulo tiroideo', 'nodule thyroidien', 'schilddrusenknoten', 'nodul tiroidian'],
+  },
+  {
+    code: 'E22.1',
+    display: 'Hyperprolactinaemia',
+    synonyms: ['hyperprolactinemia', 'hyperprolactinaemia', 'hiperprolactinemia', 'hyperprolactinemie', 'hiperprolactinemie'],
+  },
+  {
+    code: 'E28.2',
+    display: 'Polycystic ovarian syndrome',
+    synonyms: ['polycystic ovary syndrome', 'polycystic ovarian syndrome', 'pcos', 'sop', 'sindrome de ovario poliquistico', 'syndrome des ovaires polykystiques', 'sindromul ovarelor polichistice', 'ovar polichistic', 'ovare polichistice'],
+  },
+
+  // Deficiencies and blood
+  {
+    code: 'E55.9',
+    display: 'Vitamin D deficiency, unspecified',
+    synonyms: ['vitamin d deficiency', 'low vitamin d', 'hypovitaminosis d', 'deficit de vitamina d', 'carence en vitamine d', 'vitamin d mangel', 'hipovitaminoza d', 'carenta de vitamina d'],
+  },
+  {
+    code: 'E53.8',
+    display: 'Deficiency of other specified B group vitamins',
+    synonyms: ['vitamin b12 deficiency', 'b12 deficiency', 'low b12', 'deficit de vitamina b12', 'carence en vitamine b12', 'vitamin b12 mangel', 'hipovitaminoza b12'],
+  },
+  {
+    code: 'D50.9',
+    display: 'Iron deficiency anaemia, unspecified',
+    synonyms: ['iron deficiency anemia', 'iron deficiency anaemia', 'anemia ferropenica', 'anemie ferriprive', 'eisenmangelanamie', 'anemie feripriva', 'anemie prin deficit de fier'],
+  },
+  {
+    code: 'D64.9',
+    display: 'Anaemia, unspecified',
+    synonyms: ['anemia', 'anaemia', 'anemie', 'anamie'],
+  },
+
+  // Digestive
+  {
+    code: 'K21',
+    display: 'Gastro-oesophageal reflux disease',
+    synonyms: ['gastroesophageal reflux disease', 'gastro oesophageal reflux disease', 'gerd', 'gord', 'acid reflux', 'reflux', 'reflujo gastroesofagico', 'reflux gastro oesophagien', 'refluxkrankheit', 'boala de reflux gastroesofagian', 'reflux gastroesofagian', 'brge'],
+  },
+  {
+    code: 'K29',
+    display: 'Gastritis and duodenitis',
+    synonyms: ['gastritis', 'duodenitis', 'gastrite', 'gastrita', 'gastrita cronica', 'duodenita'],
+  },
+  {
+    code: 'K25',
+    display: 'Gastric ulcer',
+    synonyms: ['gastric ulcer', 'stomach ulcer', 'peptic ulcer', 'ulcera gastrica', 'ulcere gastrique', 'magengeschwur', 'ulcer gastric', 'ulcer peptic'],
+  },
+  {
+    code: 'K58',
+    display: 'Irritable bowel syndrome',
+    synonyms: ['irritable bowel syndrome', 'ibs', 'sindrome de intestino irritable', 'syndrome de l intestin irritable', 'reizdarmsyndrom', 'colon iritabil', 'sindromul colonului iritabil', 'sindrom de intestin iritabil'],
+  },
+  {
+    code: 'K50',
+    display: 'Crohn disease',
+    synonyms: ['crohn disease', 'crohns disease', 'crohn', 'enfermedad de crohn', 'maladie de crohn', 'morbus crohn', 'boala crohn'],
+  },
+  {
+    code: 'K51',
+    display: 'Ulcerative colitis',
+    synonyms: ['ulcerative colitis', 'colitis ulcerosa', 'rectocolite hemorragique', 'colita ulcerativa', 'rectocolita ulcero hemoragica', 'rcuh'],
+  },
+  {
+    code: 'K57',
+    display: 'Diverticular disease of intestine',
+    synonyms: ['diverticulosis', 'diverticulitis', 'diverticular disease', 'diverticulose', 'divertikulose', 'diverticuloza', 'diverticulita', 'boala diverticulara'],
+  },
+  {
+    code: 'K80',
+    display: 'Cholelithiasis',
+    synonyms: ['gallstones', 'cholelithiasis', 'colelitiasis', 'lithiase biliaire', 'gallensteine', 'litiaza biliara', 'colecistita litiazica', 'calculi biliari'],
+  },
+  {
+    code: 'K76.0',
+    display: 'Fatty (change of) liver, not elsewhere classified',
+    synonyms: ['fatty liver', 'hepatic steatosis', 'nafld', 'masld', 'non alcoholic fatty liver disease', 'higado graso', 'steatose hepatique', 'fettleber', 'steatoza hepatica', 'ficat gras', 'steatoza hepatica non alcoolica'],
+  },
+  {
+    code: 'K74.6',
+    display: 'Other and unspecified cirrhosis of liver',
+    synonyms: ['cirrhosis', 'liver cirrhosis', 'cirrosis hepatica', 'cirrhose', 'leberzirrhose', 'ciroza hepatica', 'ciroza'],
+  },
+  {
+    code: 'B18.1',
+    display: 'Chronic viral hepatitis B without delta-agent',
+    synonyms: ['chronic hepatitis b', 'hepatitis b', 'hbv', 'hepatite b chronique', 'hepatita cronica b', 'hepatita b', 'hepatita cronica virala b'],
+  },
+  {
+    code: 'B18.2',
+    display: 'Chronic viral hepatitis C',
+    synonyms: ['chronic hepatitis c', 'hepatitis c', 'hcv', 'hepatite c chronique', 'hepatita cronica c', 'hepatita c', 'hepatita cronica virala c'],
+  },
+
+  // Kidney and urinary
+  {
+    code: 'N18',
+    display: 'Chronic kidney disease',
+    synonyms: ['chronic kidney disease', 'ckd', 'chronic renal failure', 'chronic renal insufficiency', 'enfermedad renal cronica', 'insuffisance renale chronique', 'chronische niereninsuffizienz', 'boala cronica de rinichi', 'bcr', 'insuficienta renala cronica', 'irc'],
+  },
+  {
+    code: 'N20.0',
+    display: 'Calculus of kidney',
+    synonyms: ['kidney stones', 'kidney stone', 'nephrolithiasis', 'renal calculus', 'calculos renales', 'lithiase renale', 'nierensteine', 'litiaza renala', 'calcul renal', 'nefrolitiaza'],
+  },
+  {
+    code: 'N39.0',
+    display: 'Urinary tract infection, site not specified',
+    synonyms: ['urinary tract infection', 'uti', 'infeccion urinaria', 'infection urinaire', 'harnwegsinfekt', 'infectie urinara', 'infectie de tract urinar', 'itu'],
+  },
+  {
+    code: 'N40',
+    display: 'Hyperplasia of prostate',
+    synonyms: ['benign prostatic hyperplasia', 'bph', 'enlarged prostate', 'hiperplasia prostatica benigna', 'hypertrophie benigne de la prostate', 'prostatahyperplasie', 'adenom de prostata', 'hiperplazie benigna de prostata', 'hbp'],
+  },
+
+  // Respiratory
+  {
+    code: 'J45',
+    display: 'Asthma',
+    synonyms: ['asthma', 'asma', 'asthme', 'astm', 'astm bronsic', 'asma bronquial'],
+  },
+  {
+    code: 'J44',
+    display: 'Other chronic obstructive pulmonary disease',
+    synonyms: ['copd', 'chronic obstructive pulmonary disease', 'epoc', 'bpco', 'bpoc', 'bronhopneumopatie cronica obstructiva', 'chronisch obstruktive lungenerkrankung'],
+  },
+  {
+    code: 'J30',
+    display: 'Vasomotor and allergic rhinitis',
+    synonyms: ['allergic rhinitis', 'hay fever', 'rinitis alergica', 'rhinite allergique', 'heuschnupfen', 'rinita alergica'],
+  },
+  {
+    code: 'J32',
+    display: 'Chronic sinusitis',
+    synonyms: ['chronic sinusitis', 'chronic rhinosinusitis', 'sinusitis cronica', 'sinusite chronique', 'sinuzita cronica', 'rinosinuzita cronica'],
+  },
+  {
+    code: 'J06.9',
+    display: 'Acute upper respiratory infection, unspecified',
+    synonyms: ['upper respiratory infection', 'upper respiratory tract infection', 'uri', 'urti', 'common cold', 'infeccion respiratoria alta', 'infection des voies respiratoires superieures', 'infectie de cai respiratorii superioare', 'infectie respiratorie acuta', 'iacrs', 'viroza respiratorie'],
+  },
+  {
+    code: 'J18',
+    display: 'Pneumonia, organism unspecified',
+    synonyms: ['pneumonia', 'neumonia', 'pneumonie', 'lungenentzundung', 'pneumonie comunitara', 'bronhopneumonie'],
+  },
+  {
+    code: 'U07.1',
+    display: 'COVID-19, virus identified',
+    synonyms: ['covid 19', 'covid', 'sars cov 2 infection', 'coronavirus disease 2019', 'infectie sars cov 2', 'infectie covid 19'],
+  },
+  {
+    code: 'A15',
+    display: 'Respiratory tuberculosis, bacteriologically and histologically confirmed',
+    synonyms: ['tuberculosis', 'pulmonary tuberculosis', 'tb', 'tuberculosis pulmonar', 'tuberculose', 'tuberkulose', 'tuberculoza', 'tuberculoza pulmonara', 'tbc'],
+  },
+  {
+    code: 'G47.3',
+    display: 'Sleep apnoea',
+    synonyms: ['sleep apnea', 'sleep apnoea', 'obstructive sleep apnea', 'osa', 'apnea del sueno', 'apnee du sommeil', 'schlafapnoe', 'apnee de somn', 'apnee obstructiva de somn', 'saos'],
+  },
+
+  // Nervous system and mental health
+  {
+    code: 'G43',
+    display: 'Migraine',
+    synonyms: ['migraine', 'migrana', 'migrane', 'migrena'],
+  },
+  {
+    code: 'G40',
+    display: 'Epilepsy',
+    synonyms: ['epilepsy', 'seizure disorder', 'epilepsia', 'epilepsie'],
+  },
+  {
+    code: 'G35',
+    display: 'Multiple sclerosis',
+    synonyms: ['multiple sclerosis', 'ms', 'esclerosis multiple', 'sclerose en plaques', 'multiple sklerose', 'scleroza multipla', 'scleroza in placi'],
+  },
+  {
+    code: 'G20',
+    display: 'Parkinson disease',
+    synonyms: ['parkinson disease', 'parkinsons disease', 'parkinson', 'enfermedad de parkinson', 'maladie de parkinson', 'morbus parkinson', 'boala parkinson'],
+  },
+  {
+    code: 'G30',
+    display: 'Alzheimer disease',
+    synonyms: ['alzheimer disease', 'alzheimers disease', 'alzheimer', 'enfermedad de alzheimer', 'maladie d alzheimer', 'alzheimer krankheit', 'boala alzheimer'],
+  },
+  {
+    code: 'G47.0',
+    display: 'Disorders of initiating and maintaining sleep [insomnias]',
+    synonyms: ['insomnia', 'insomnio', 'insomnie', 'schlaflosigkeit'],
+  },
+  {
+    code: 'F32',
+    display: 'Depressive episode',
+    synonyms: ['depression', 'major depressive disorder', 'depressive episode', 'mdd', 'depresion', 'depresie', 'episod depresiv', 'tulburare depresiva'],
+  },
+  {
+    code: 'F41.1',
+    display: 'Generalized anxiety disorder',
+    synonyms: ['generalized anxiety disorder', 'generalised anxiety disorder', 'gad', 'trastorno de ansiedad generalizada', 'trouble anxieux generalise', 'generalisierte angststorung', 'tulburare de anxietate generalizata'],
+  },
+  {
+    code: 'F41.9',
+    display: 'Anxiety disorder, unspecified',
+    synonyms: ['anxiety', 'anxiety disorder', 'ansiedad', 'anxiete', 'angststorung', 'anxietate', 'tulburare anxioasa'],
+  },
+  {
+    code: 'F90',
+    display: 'Hyperkinetic disorders',
+    synonyms: ['adhd', 'attention deficit hyperactivity disorder', 'tdah', 'trastorno por deficit de atencion', 'adhs', 'tulburare hiperkinetica cu deficit de atentie'],
+  },
+
+  // Musculoskeletal and skin
+  {
+    code: 'M54.5',
+    display: 'Low back pain',
+    synonyms: ['low back pain', 'lumbago', 'lower back pain', 'lumbalgia', 'lombalgie', 'lumbalgie', 'kreuzschmerzen', 'lombalgie cronica', 'durere lombara'],
+  },
+  {
+    code: 'M17',
+    display: 'Gonarthrosis [arthrosis of knee]',
+    synonyms: ['knee osteoarthritis', 'osteoarthritis of knee', 'gonarthrosis', 'gonartrosis', 'gonarthrose', 'gonartroza'],
+  },
+  {
+    code: 'M16',
+    display: 'Coxarthrosis [arthrosis of hip]',
+    synonyms: ['hip osteoarthritis', 'osteoarthritis of hip', 'coxarthrosis', 'coxartrosis', 'coxarthrose', 'coxartroza'],
+  },
+  {
+    code: 'M19.9',
+    display: 'Arthrosis, unspecified',
+    synonyms: ['osteoarthritis', 'arthrosis', 'degenerative joint disease', 'artrosis', 'arthrose', 'artroza', 'poliartroza'],
+  },
+  {
+    code: 'M06.9',
+    display: 'Rheumatoid arthritis, unspecified',
+    synonyms: ['rheumatoid arthritis', 'ra', 'artritis reumatoide', 'polyarthrite rhumatoide', 'rheumatoide arthritis', 'poliartrita reumatoida', 'artrita reumatoida'],
+  },
+  {
+    code: 'M81',
+    display: 'Osteoporosis without pathological fracture',
+    synonyms: ['osteoporosis', 'osteoporose', 'osteoporoza'],
+  },
+  {
+    code: 'M32',
+    display: 'Systemic lupus erythematosus',
+    synonyms: ['systemic lupus erythematosus', 'lupus', 'sle', 'lupus eritematoso sistemico', 'lupus erythemateux systemique', 'lupus eritematos sistemic'],
+  },
+  {
+    code: 'L40',
+    display: 'Psoriasis',
+    synonyms: ['psoriasis', 'psoriasis vulgaris', 'psoriazis', 'psoriazis vulgar'],
+  },
+  {
+    code: 'L20',
+    display: 'Atopic dermatitis',
+    synonyms: ['atopic dermatitis', 'eczema', 'atopic eczema', 'dermatitis atopica', 'dermatite atopique', 'neurodermitis', 'dermatita atopica', 'eczema atopic'],
+  },
+  {
+    code: 'L70',
+    display: 'Acne',
+    synonyms: ['acne', 'acne vulgaris', 'akne', 'acnee', 'acnee vulgara'],
+  },
+  {
+    code: 'T78.4',
+    display: 'Allergy, unspecified',
+    synonyms: ['allergy', 'alergia', 'allergie', 'alergie'],
+  },
+
+  // Reproductive
+  {
+    code: 'N80',
+    display: 'Endometriosis',
+    synonyms: ['endometriosis', 'endometriose', 'endometrioza'],
+  },
+  {
+    code: 'D25',
+    display: 'Leiomyoma of uterus',
+    synonyms: ['uterine fibroids', 'uterine fibroid', 'leiomyoma', 'fibroma uterino', 'mioma uterino', 'fibrome uterin', 'uterusmyom', 'fibrom uterin', 'leiomiom uterin'],
+  },
+
+  // Eye
+  {
+    code: 'H40',
+    display: 'Glaucoma',
+    synonyms: ['glaucoma', 'glaucome', 'glaukom', 'glaucom'],
+  },
+  {
+    code: 'H26.9',
+    display: 'Cataract, unspecified',
+    synonyms: ['cataract', 'catarata', 'cataracte', 'katarakt', 'cataracta'],
+  },
+  {
+    code: 'H52.1',
+    display: 'Myopia',
+    synonyms: ['myopia', 'nearsightedness', 'miopia', 'myopie', 'kurzsichtigkeit', 'miopie'],
+  },
+
+  // Neoplasms
+  {
+    code: 'C50',
+    display: 'Malignant neoplasm of breast',
+    synonyms: ['breast cancer', 'breast carcinoma', 'cancer de mama', 'cancer du sein', 'brustkrebs', 'cancer mamar', 'neoplasm mamar', 'carcinom mamar'],
+  },
+  {
+    code: 'C61',
+    display: 'Malignant neoplasm of prostate',
+    synonyms: ['prostate cancer', 'prostate carcinoma', 'cancer de prostata', 'cancer de la prostate', 'prostatakrebs', 'neoplasm de prostata', 'adenocarcinom de prostata'],
+  },
+  {
+    code: 'C18',
+    display: 'Malignant neoplasm of colon',
+    synonyms: ['colon cancer', 'colorectal cancer', 'cancer de colon', 'cancer du colon', 'darmkrebs', 'neoplasm de colon', 'adenocarcinom de colon'],
+  },
+  {
+    code: 'C34',
+    display: 'Malignant neoplasm of bronchus and lung',
+    synonyms: ['lung cancer', 'lung carcinoma', 'cancer de pulmon', 'cancer du poumon', 'lungenkrebs', 'cancer pulmonar', 'neoplasm pulmonar', 'carcinom pulmonar'],
+  },
+];
+
+// Lowercase, strip accents and punctuation, and drop plural "s" so spellings compare as token sets
+function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(token => token !== '')
+    .map(token => (token.length > 3 && token.endsWith('s') ? token.slice(0, -1) : token));
+}
+
+const TERM_INDEX = ICD10_TERMS.flatMap(term =>
+  term.synonyms.map(synonym => ({ term, tokens: tokenize(synonym) }))
+);
+
+const CODE = '[A-Z]\\d{2}(?:\\.\\d{1,4})?';
+// A code the report prints with the diagnosis: in brackets, after "ICD" or "cod", or leading the name
+const EXPLICIT_CODE_PATTERNS = [
+  new RegExp(`[([](${CODE})[)\\]]`),
+  new RegExp(`\\b(?:icd(?:-?10)?|cim(?:-?10)?|cie(?:-?10)?|cod(?:e|ul)?)\\s*[:#]?\\s*(${CODE})\\b`, 'i'),
+  new RegExp(`^\\s*(${CODE})\\b`),
+];
+
+// A name that stands for a condition no matter how it is spelled, e.g. "Type 2 diabetes mellitus" -> "type_2_diabete_mellitu"
+export function slugifyConditionName(name: string): string {
+  return tokenize(name).join('_');
+}
+
+// The code and the name without it, when the report prints a code with the diagnosis
+export function findPrintedIcd10Code(name: string): { code: string; rest: string } | null {
+  for (const pattern of EXPLICIT_CODE_PATTERNS) {
+    const match = name.match(pattern);
+    if (!match) continue;
+    const code = match[1].toUpperCase();
+    // A leading code-shaped word such as "B12" only counts when it is in the table or has a subcategory
+    if (pattern === EXPLICIT_CODE_PATTERNS[2] && !code.includes('.') && !getIcd10Term(code)) continue;
+
+    const rest = name.replace(match[0], ' ').replace(/\s+/g, ' ').replace(/^[\s:,;.-]+|[\s:,;.-]+$/g, '');
+    return { code, rest };
+  }
+  return null;
+}
+
+/**
+ * Finds the ICD-10 code of a diagnosis as written on a report. A code printed
+ * with it is taken as is; otherwise every synonym is scored against the name
+ * the way lab test names are matched to LOINC (see matchTestName): all of a
+ * synonym's words must appear in the name, and it scores the share of the
+ * name's meaningful words it covers. Names no synonym covers well enough, or
+ * that two codes cover equally, come back unmapped.
+ */
+export function matchConditionName(name: string): Icd10Match {
+  const printed = findPrintedIcd10Code(name);
+  if (printed) {
+    // A subcategory missing from the table is titled by its category, e.g. E11.9 by E11
+    const term = getIcd10Term(printed.code) ?? getIcd10Term(printed.code.slice(0, 3));
+    const display = term?.display ?? (printed.rest || printed.code);
+    return { mapped: true, icd10Code: printed.code, display, score: 1, explicit: true };
+  }
+
+  const nameTokens = tokenize(name);
+  const meaningful = nameTokens.filter(token => !NOISE_TOKENS.has(token));
+  const candidates = meaningful.length > 0 ? meaningful : nameTokens;
+  if (candidates.length === 0) {
+    return { mapped: false, score: 0, reason: 'no_match' };
+  }
+
+  const bestByCode = new Map<string, { term: Icd10Term; score: number }>();
+  for (const { term, tokens } of TERM_INDEX) {
+    const significant = tokens.filter(token => !NOISE_TOKENS.has(token));
+    if (significant.length === 0 || !significant.every(token => candidates.includes(token))) continue;
+
+    const score = Math.min(1, significant.length / candidates.length);
+    const best = bestByCode.get(term.code);
+    if (!best || score > best.score) {
+      bestByCode.set(term.code, { term, score });
+    }
+  }
+
+  const ranked = [...bestByCode.values()].sort((a, b) => b.score - a.score);
+  const [top, runnerUp] = ranked;
+  if (!top || top.score < MIN_MATCH_SCORE) {
+    return { mapped: false, score: Math.round((top?.score ?? 0) * 100) / 100, reason: 'no_match' };
+  }
+  if (runnerUp && runnerUp.score === top.score) {
+    return { mapped: false, score: Math.round(top.score * 100) / 100, reason: 'ambiguous' };
+  }
+
+  return {
+    mapped: true,
+    icd10Code: top.term.code,
+    display: top.term.display,
+    score: Math.round(top.score * 100) / 100,
+    explicit: false,
+  };
+}
+
+export function getIcd10Term(code: string): Icd10Term | undefined {
+  return ICD10_TERMS.find(term => term.code === code);
+}
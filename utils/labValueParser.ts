@@ -0,0 +1,169 @@
+import { Comparator, HealthMetric, LabValue, QualitativeResult } from '@/types/health';
+
+// Checked in order, so negated phrases ("not detected") win over the positive ones they contain
+const QUALITATIVE_PATTERNS: [RegExp, QualitativeResult][] = [
+  [/^(non[\s-]?reactive|nonreactive|no reactivo|non reactif|nicht reaktiv|nereactiv)$/, 'non_reactive'],
+  [/^(not detected|none detected|undetected|no detectado|non detecte|nicht nachweisbar|nedetectabil)$/, 'not_detected'],
+  [/^(negative|neg|negativo|negatif|negativ|-)$/, 'negative'],
+  [/^(reactive|reactivo|reactif|reaktiv|reactiv)$/, 'reactive'],
+  [/^(detected|detectado|detecte|nachweisbar|detectabil)$/, 'detected'],
+  [/^(positive|pos|positivo|positif|positiv|\+{1,4})$/, 'positive'],
+  [/^(trace|traces|trazas|spuren|urme)$/, 'trace'],
+  [/^(equivocal|borderline|indeterminate|dudoso|limite|grenzwertig)$/, 'equivocal'],
+];
+
+const COMPARATOR_PATTERNS: [RegExp, Comparator][] = [
+  [/^(<=|≤|=<)\s*/, '<='],
+  [/^(>=|≥|=>)\s*/, '>='],
+  [/^<\s*/, '<'],
+  [/^>\s*/, '>'],
+  [/^(less than|below|under|menos de|inferieur a|kleiner als|sub)\s+/, '<'],
+  [/^(greater than|above|over|mas de|superieur a|grosser als|peste)\s+/, '>'],
+];
+
+const RANGE_PATTERN = /^(\d[\d.,]*)\s*(?:-|–|—|to|a|bis)\s*(\d[\d.,]*)$/;
+
+/**
+ * Reads a number written with either decimal convention. When both "." and ","
+ * appear, the last one is the decimal separator. A single comma is a thousands
+ * separator only before exactly three digits ("1,250"), otherwise a decimal
+ * ("1,25", "0,125"). A single dot is always a decimal.
+ */
+export function parseLocaleNumber(text: string): number | null {
+  let cleaned = text.replace(/[\s']/g, '');
+  if (!/^[-+]?\d[\d.,]*$/.test(cleaned)) return null;
+
+  const lastDot = cleaned.lastIndexOf('.');
+  const lastComma = cleaned.lastIndexOf(',');
+
+  if (lastDot !== -1 && lastComma !== -1) {
+    const decimal = lastDot > lastComma ? '.' : ',';
+    const thousands = decimal === '.' ? ',' : '.';
+    cleaned = cleaned.split(thousands).join('').replace(decimal, '.');
+  } else if (lastComma !== -1) {
+    const groups = cleaned.split(',');
+    const isThousands = groups.length > 2 || (groups[1].length === 3 && /^[-+]?[1-9]\d{0,2}$/.test(groups[0]));
+    cleaned = isThousands ? groups.join('') : groups.join('.');
+  } else if (cleaned.split('.').length > 2) {
+    // "1.250.000" can only be thousands-grouped
+    cleaned = cleaned.split('.').join('');
+  }
+
+  if (cleaned.split('.').length > 2) return null;
+  const value = parseFloat(cleaned);
+  return Number.isFinite(value) ? value : null;
+}
+
+function normalizeText(raw: string): string {
+  return raw
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim()
+    .replace(/\s+/g, ' ');
+}
+
+// Drops a unit or flag printed after the number ("7.2 H", "140 *", "5.4 mmol/L")
+function stripTrailingText(text: string): string {
+  return text.replace(/(\d)[^\d]*$/, '$1');
+}
+
+/**
+ * Parses a lab value as it appears on a report into a structured form:
+ * exact numbers ("5,4", "1,250"), censored values ("<0.5", "≥ 60"), ranges
+ * ("95-120"), titers ("1:160") and qualitative results ("Positive", "Negativ").
+ */
+export function parseLabValue(raw: string | number | null | undefined): LabValue {
+  if (raw === null || raw === undefined) return { kind: 'unparseable', value: null };
+  if (typeof raw === 'number') {
+    return Number.isFinite(raw) ? { kind: 'numeric', value: raw } : { kind: 'unparseable', value: null };
+  }
+
+  const normalized = normalizeText(raw);
+  const qualitativeText = normalized.replace(/[\s*!.]+$/, '');
+  for (const [pattern, result] of QUALITATIVE_PATTERNS) {
+    if (pattern.test(qualitativeText)) return { kind: 'qualitative', value: null, result };
+  }
+
+  const text = stripTrailingText(normalized);
+  if (!/\d/.test(text)) return { kind: 'unparseable', value: null };
+
+  const titer = text.match(/^1\s*[:/]\s*(\d+)$/);
+  if (titer) {
+    const denominator = parseInt(titer[1], 10);
+    if (denominator > 1) return { kind: 'titer', value: denominator };
+  }
+
+  for (const [pattern, comparator] of COMPARATOR_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) {
+      const value = parseLocaleNumber(text.slice(match[0].length));
+      return value === null ? { kind: 'unparseable', value: null } : { kind: 'censored', value, comparator };
+    }
+  }
+
+  const range = text.match(RANGE_PATTERN);
+  if (range) {
+    const low = parseLocaleNumber(range[1]);
+    const high = parseLocaleNumber(range[2]);
+    if (low !== null && high !== null && high > low) {
+      return { kind: 'range', value: low, high };
+    }
+  }
+
+  const value = parseLocaleNumber(text);
+  return value === null ? { kind: 'unparseable', value: null } : { kind: 'numeric', value };
+}
+
+const QUALITATIVE_LABELS: { [result in QualitativeResult]: string } = {
+  positive: 'Positive',
+  negative: 'Negative',
+  reactive: 'Reactive',
+  non_reactive: 'Non-reactive',
+  detected: 'Detected',
+  not_detected: 'Not detected',
+  trace: 'Trace',
+  equivocal: 'Equivocal',
+};
+
+// Display form that keeps the qualifier, so a censored "<0.5" never reads as an exact 0.5
+export function formatLabValue(labValue: LabValue, unit?: string): string {
+  const withUnit = (text: string) => (unit ? `${text} ${unit}` : text);
+  switch (labValue.kind) {
+    case 'numeric':
+      return withUnit(String(labValue.value));
+    case 'censored':
+      return withUnit(`${labValue.comparator.replace('<=', '≤').replace('>=', '≥')}${labValue.value}`);
+    case 'range':
+      return withUnit(`${labValue.value}–${labValue.high}`);
+    case 'titer':
+      return `1:${labValue.value}`;
+    case 'qualitative':
+      return QUALITATIVE_LABELS[labValue.result];
+    case 'unparseable':
+      return '—';
+  }
+}
+
+// Rebuilds the structured value of a stored metric; metrics without a kind are plain numbers
+export function labValueFromMetric(
+  metric: Pick<HealthMetric, 'value' | 'valueKind' | 'valueComparator' | 'valueHigh' | 'valueText'>
+): LabValue {
+  if (metric.value === null) {
+    return metric.valueText ? { kind: 'qualitative', value: null, result: metric.valueText } : { kind: 'unparseable', value: null };
+  }
+  switch (metric.valueKind) {
+    case 'censored':
+      return metric.valueComparator
+        ? { kind: 'censored', value: metric.value, comparator: metric.valueComparator }
+        : { kind: 'numeric', value: metric.value };
+    case 'range':
+      return metric.valueHigh !== undefined
+        ? { kind: 'range', value: metric.value, high: metric.valueHigh }
+        : { kind: 'numeric', value: metric.value };
+    case 'titer':
+      return { kind: 'titer', value: metric.value };
+    default:
+      return { kind: 'numeric', value: metric.value };
+  }
+}
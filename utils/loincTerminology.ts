@@ -0,0 +1,548 @@
+export interface LoincTerm {
+  code: string;
+  display: string;
+  // Internal metric type the value is stored under; several codes can share one
+  metricType: string;
+  // Names and abbreviations as they appear on reports, in any of the supported languages
+  synonyms: string[];
+  // For panels read as one value ("120/80"): the codes of the parts, in the order they are written
+  components?: [string, string];
+}
+
+export type TerminologyMatch =
+  | { mapped: true; loincCode: string; display: string; metricType: string; score: number }
+  | { mapped: false; metricType: string; score: number; reason: 'no_match' | 'ambiguous' };
+
+// A test name must be covered this well by a synonym before it is mapped
+const MIN_MATCH_SCORE = 0.6;
+
+// Specimen and filler words that do not change which test is meant
+const NOISE_TOKENS = new Set([
+  'serum', 'plasma', 'blood', 'whole', 'level', 'count', 'test', 'result', 'value',
+  'ser', 'plas', 'of', 'in', 'the',
+  // Spanish
+  'sangre', 'suero', 'en', 'de', 'del', 'la', 'el',
+  // French
+  'sang', 'serique', 'taux', 'le', 'les', 'du', 'des',
+  // German
+  'blut', 'im', 'der', 'die', 'das', 'wert',
+  // Romanian
+  'sange', 'din', 'si',
+]);
+
+// Words that make a different analyte of the test they qualify: "Non-HDL cholesterol"
+// and "Cholesterol/HDL ratio" are not HDL cholesterol. A synonym only matches a
+// name with one of these when the synonym has it too.
+const QUALIFIER_TOKENS = new Set([
+  'non', 'ratio', 'index', 'free', 'direct', 'indirect',
+  // Spanish
+  'no', 'cociente', 'indice', 'libre', 'directa', 'indirecta',
+  // French
+  'rapport', 'directe', 'indirecte',
+  // German
+  'nicht', 'quotient', 'frei', 'freie', 'freies', 'direktes', 'indirektes',
+  // Romanian
+  'raport', 'liber', 'libera',
+]);
+
+/**
+ * Bundled subset of LOINC covering the tests and vitals that show up on
+ * routine reports. The first term for a metric type is its default code.
+ */
+export const LOINC_TERMS: LoincTerm[] = [
+  // Blood sugar
+  {
+    code: '2345-7',
+    display: 'Glucose [Mass/volume] in Serum or Plasma',
+    metricType: 'blood_glucose',
+    synonyms: ['glucose', 'blood glucose', 'blood sugar', 'random glucose', 'glucosa', 'glycemie', 'glukose', 'blutzucker', 'glicemie', 'glucoza'],
+  },
+  {
+    code: '1558-6',
+    display: 'Fasting glucose [Mass/volume] in Serum or Plasma',
+    metricType: 'blood_glucose',
+    synonyms: ['fasting glucose', 'fasting blood sugar', 'fbs', 'glucosa en ayunas', 'glycemie a jeun', 'nuchternglukose', 'glicemie a jeun'],
+  },
+  {
+    code: '4548-4',
+    display: 'Hemoglobin A1c/Hemoglobin.total in Blood',
+    metricType: 'hba1c',
+    synonyms: ['hba1c', 'hemoglobin a1c', 'haemoglobin a1c', 'glycated hemoglobin', 'a1c', 'hemoglobina glicosilada', 'hemoglobine glyquee', 'hba1c glykiertes hamoglobin', 'hemoglobina glicata'],
+  },
+
+  // Cholesterol panel
+  {
+    code: '2093-3',
+    display: 'Cholesterol [Mass/volume] in Serum or Plasma',
+    metricType: 'total_cholesterol',
+    synonyms: ['cholesterol', 'total cholesterol', 'cholesterol total', 'colesterol', 'colesterol total', 'gesamtcholesterin', 'cholesterin', 'colesterol seric'],
+  },
+  {
+    code: '13457-7',
+    display: 'Cholesterol in LDL [Mass/volume] in Serum or Plasma by calculation',
+    metricType: 'ldl_cholesterol',
+    synonyms: ['ldl', 'ldl cholesterol', 'ldl c', 'colesterol ldl', 'cholesterol ldl', 'ldl cholesterin'],
+  },
+  {
+    code: '2085-9',
+    display: 'Cholesterol in HDL [Mass/volume] in Serum or Plasma',
+    metricType: 'hdl_cholesterol',
+    synonyms: ['hdl', 'hdl cholesterol', 'hdl c', 'colesterol hdl', 'cholesterol hdl', 'hdl cholesterin'],
+  },
+  {
+    code: '2571-8',
+    display: 'Triglyceride [Mass/volume] in Serum or Plasma',
+    metricType: 'triglycerides',
+    synonyms: ['triglycerides', 'triglyceride', 'trigliceridos', 'triglyzeride', 'trigliceride'],
+  },
+
+  // Vitamins
+  {
+    code: '62292-8',
+    display: '25-Hydroxyvitamin D2+D3 [Mass/volume] in Serum or Plasma',
+    metricType: 'vitamin_d',
+    synonyms: ['vitamin d', 'vitamin d3', 'vitamin d 25 hydroxy', '25 hydroxyvitamin d', '25 hydroxy vitamin d', '25 oh vitamin d', 'vitamina d', '25 oh vitamina d', 'vitamine d', '25 oh vitamine d'],
+  },
+  {
+    code: '2132-9',
+    display: 'Cobalamin (Vitamin B12) [Mass/volume] in Serum or Plasma',
+    metricType: 'vitamin_b12',
+    synonyms: ['vitamin b12', 'vitamin b 12', 'cobalamin', 'vitamina b12', 'vitamine b12', 'cobalamina', 'cobalamine'],
+  },
+  {
+    code: '2284-8',
+    display: 'Folate [Mass/volume] in Serum or Plasma',
+    metricType: 'folate',
+    synonyms: ['folate', 'folic acid', 'acido folico', 'folates', 'acide folique', 'folsaure', 'acid folic'],
+  },
+  {
+    code: '1903-4',
+    display: 'Ascorbate [Mass/volume] in Serum or Plasma',
+    metricType: 'vitamin_c',
+    synonyms: ['vitamin c', 'ascorbic acid', 'vitamina c', 'vitamine c', 'acido ascorbico', 'acide ascorbique'],
+  },
+
+  // Blood count
+  {
+    code: '718-7',
+    display: 'Hemoglobin [Mass/volume] in Blood',
+    metricType: 'hemoglobin',
+    synonyms: ['hemoglobin', 'haemoglobin', 'hgb', 'hb', 'hemoglobina', 'hemoglobine', 'hamoglobin'],
+  },
+  {
+    code: '4544-3',
+    display: 'Hematocrit [Volume Fraction] of Blood by Automated count',
+    metricType: 'hematocrit',
+    synonyms: ['hematocrit', 'haematocrit', 'hct', 'hematocrito', 'hematocrite', 'hamatokrit'],
+  },
+  {
+    code: '6690-2',
+    display: 'Leukocytes [#/volume] in Blood by Automated count',
+    metricType: 'wbc',
+    synonyms: ['wbc', 'white blood cells', 'white blood cell', 'white cell', 'leukocytes', 'leucocitos', 'leucocytes', 'leukozyten', 'leucocite'],
+  },
+  {
+    code: '789-8',
+    display: 'Erythrocytes [#/volume] in Blood by Automated count',
+    metricType: 'rbc',
+    synonyms: ['rbc', 'red blood cells', 'red blood cell', 'red cell', 'erythrocytes', 'eritrocitos', 'erythrozyten', 'eritrocite', 'hematii'],
+  },
+  {
+    code: '777-3',
+    display: 'Platelets [#/volume] in Blood by Automated count',
+    metricType: 'platelets',
+    synonyms: ['platelets', 'platelet', 'plt', 'thrombocytes', 'plaquetas', 'plaquettes', 'thrombozyten', 'trombocite'],
+  },
+  {
+    code: '787-2',
+    display: 'MCV [Entitic volume] by Automated count',
+    metricType: 'mcv',
+    synonyms: ['mcv', 'mean corpuscular volume', 'vcm', 'volumen corpuscular medio', 'volume globulaire moyen', 'vgm'],
+  },
+  {
+    code: '785-6',
+    display: 'MCH [Entitic mass] by Automated count',
+    metricType: 'mch',
+    synonyms: ['mch', 'mean corpuscular hemoglobin', 'hcm', 'tcmh', 'hemoglobina corpuscular media'],
+  },
+  {
+    code: '786-4',
+    display: 'MCHC [Mass/volume] by Automated count',
+    metricType: 'mchc',
+    synonyms: ['mchc', 'mean corpuscular hemoglobin concentration', 'chcm', 'ccmh'],
+  },
+
+  // Vital signs
+  {
+    code: '85354-9',
+    display: 'Blood pressure panel with all children optional',
+    metricType: 'blood_pressure',
+    synonyms: ['blood pressure', 'bp', 'ta', 'presion arterial', 'tension arterial', 'tension arterielle', 'blutdruck', 'tensiune arteriala'],
+    components: ['8480-6', '8462-4'],
+  },
+  {
+    code: '8480-6',
+    display: 'Systolic blood pressure',
+    metricType: 'blood_pressure_systolic',
+    synonyms: ['systolic', 'systolic blood pressure', 'sbp', 'presion arterial sistolica', 'tension arterielle systolique', 'systolischer blutdruck', 'tensiune arteriala sistolica'],
+  },
+  {
+    code: '8462-4',
+    display: 'Diastolic blood pressure',
+    metricType: 'blood_pressure_diastolic',
+    synonyms: ['diastolic', 'diastolic blood pressure', 'dbp', 'presion arterial diastolica', 'tension arterielle diastolique', 'diastolischer blutdruck', 'tensiune arteriala diastolica'],
+  },
+  {
+    code: '8867-4',
+    display: 'Heart rate',
+    metricType: 'heart_rate',
+    synonyms: ['heart rate', 'pulse', 'hr', 'pulse rate', 'frecuencia cardiaca', 'pulso', 'frequence cardiaque', 'herzfrequenz', 'puls', 'frecventa cardiaca'],
+  },
+  {
+    code: '29463-7',
+    display: 'Body weight',
+    metricType: 'weight',
+    synonyms: ['weight', 'body weight', 'peso', 'poids', 'gewicht', 'korpergewicht', 'greutate'],
+  },
+  {
+    code: '8302-2',
+    display: 'Body height',
+    metricType: 'height',
+    synonyms: ['height', 'body height', 'estatura', 'talla', 'taille', 'korpergrosse', 'inaltime'],
+  },
+  {
+    code: '39156-5',
+    display: 'Body mass index (BMI) [Ratio]',
+    metricType: 'bmi',
+    synonyms: ['bmi', 'body mass index', 'imc', 'indice de masa corporal', 'indice de masse corporelle', 'korpermasseindex'],
+  },
+  {
+    code: '8310-5',
+    display: 'Body temperature',
+    metricType: 'temperature',
+    synonyms: ['temperature', 'body temperature', 'temp', 'temperatura', 'korpertemperatur'],
+  },
+  {
+    code: '9279-1',
+    display: 'Respiratory rate',
+    metricType: 'respiratory_rate',
+    synonyms: ['respiratory rate', 'respiration rate', 'rr', 'frecuencia respiratoria', 'frequence respiratoire', 'atemfrequenz'],
+  },
+  {
+    code: '59408-5',
+    display: 'Oxygen saturation in Arterial blood by Pulse oximetry',
+    metricType: 'oxygen_saturation',
+    synonyms: ['oxygen saturation', 'spo2', 'o2 saturation', 'o2 sat', 'sat o2', 'pulse oximetry', 'saturacion de oxigeno', 'saturation en oxygene', 'sauerstoffsattigung'],
+  },
+  {
+    code: '3150-0',
+    display: 'Inhaled oxygen concentration',
+    metricType: 'fio2',
+    synonyms: ['fio2', 'inspired oxygen', 'inhaled oxygen concentration', 'fraction of inspired oxygen', 'fraccion inspirada de oxigeno'],
+  },
+
+  // Kidney function
+  {
+    code: '2160-0',
+    display: 'Creatinine [Mass/volume] in Serum or Plasma',
+    metricType: 'creatinine',
+    synonyms: ['creatinine', 'creat', 'creatinina', 'kreatinin', 'creatinina serica'],
+  },
+  {
+    code: '3094-0',
+    display: 'Urea nitrogen [Mass/volume] in Serum or Plasma',
+    metricType: 'bun',
+    synonyms: ['bun', 'blood urea nitrogen', 'urea nitrogen', 'nitrogeno ureico', 'azote ureique', 'harnstoff stickstoff'],
+  },
+  {
+    code: '33914-3',
+    display: 'Glomerular filtration rate/1.73 sq M.predicted by Creatinine-based formula (MDRD)',
+    metricType: 'egfr',
+    synonyms: ['egfr', 'gfr', 'estimated gfr', 'glomerular filtration rate', 'tfg', 'dfg', 'filtrado glomerular', 'debit de filtration glomerulaire', 'rata de filtrare glomerulara'],
+  },
+  {
+    code: '3084-1',
+    display: 'Urate [Mass/volume] in Serum or Plasma',
+    metricType: 'uric_acid',
+    synonyms: ['uric acid', 'urate', 'acido urico', 'acide urique', 'harnsaure', 'acid uric'],
+  },
+
+  // Liver function
+  {
+    code: '1742-6',
+    display: 'Alanine aminotransferase [Enzymatic activity/volume] in Serum or Plasma',
+    metricType: 'alt',
+    synonyms: ['alt', 'sgpt', 'alt sgpt', 'alanine aminotransferase', 'alanine transaminase', 'gpt', 'alat', 'tgp', 'alanina aminotransferasa'],
+  },
+  {
+    code: '1920-8',
+    display: 'Aspartate aminotransferase [Enzymatic activity/volume] in Serum or Plasma',
+    metricType: 'ast',
+    synonyms: ['ast', 'sgot', 'ast sgot', 'aspartate aminotransferase', 'aspartate transaminase', 'got', 'asat', 'tgo', 'aspartato aminotransferasa'],
+  },
+  {
+    code: '1975-2',
+    display: 'Bilirubin.total [Mass/volume] in Serum or Plasma',
+    metricType: 'bilirubin',
+    synonyms: ['bilirubin', 'total bilirubin', 'bilirubin total', 'bilirrubina total', 'bilirubine totale', 'gesamtbilirubin', 'bilirubina totala'],
+  },
+  {
+    code: '1968-7',
+    display: 'Bilirubin.direct [Mass/volume] in Serum or Plasma',
+    metricType: 'bilirubin_direct',
+    synonyms: ['direct bilirubin', 'bilirubin direct', 'conjugated bilirubin', 'bilirrubina directa', 'bilirubine directe', 'direktes bilirubin', 'bilirubina directa'],
+  },
+  {
+    code: '6768-6',
+    display: 'Alkaline phosphatase [Enzymatic activity/volume] in Serum or Plasma',
+    metricType: 'alkaline_phosphatase',
+    synonyms: ['alkaline phosphatase', 'alp', 'alk phos', 'fosfatasa alcalina', 'phosphatase alcaline', 'pal', 'alkalische phosphatase', 'fosfataza alcalina'],
+  },
+  {
+    code: '2324-2',
+    display: 'Gamma glutamyl transferase [Enzymatic activity/volume] in Serum or Plasma',
+    metricType: 'ggt',
+    synonyms: ['ggt', 'gamma gt', 'gamma glutamyl transferase', 'gamma glutamyltransferase', 'ggtp'],
+  },
+
+  // Thyroid
+  {
+    code: '3016-3',
+    display: 'Thyrotropin [Units/volume] in Serum or Plasma',
+    metricType: 'tsh',
+    synonyms: ['tsh', 'thyroid stimulating hormone', 'thyrotropin', 'tirotropina', 'thyreotropin', 'hormona estimulante de la tiroides'],
+  },
+  {
+    code: '3024-7',
+    display: 'Thyroxine (T4) free [Mass/volume] in Serum or Plasma',
+    metricType: 'free_t4',
+    synonyms: ['free t4', 'ft4', 't4 free', 'free thyroxine', 't4 libre', 'tiroxina libre', 'thyroxine libre', 'freies t4', 't4 liber'],
+  },
+  {
+    code: '3051-0',
+    display: 'Triiodothyronine (T3) free [Mass/volume] in Serum or Plasma',
+    metricType: 'free_t3',
+    synonyms: ['free t3', 'ft3', 't3 free', 'free triiodothyronine', 't3 libre', 'freies t3', 't3 liber'],
+  },
+  {
+    code: '3026-2',
+    display: 'Thyroxine (T4) [Mass/volume] in Serum or Plasma',
+    metricType: 't4',
+    synonyms: ['t4', 'total t4', 't4 total', 'thyroxine', 'tiroxina'],
+  },
+  {
+    code: '3053-6',
+    display: 'Triiodothyronine (T3) [Mass/volume] in Serum or Plasma',
+    metricType: 't3',
+    synonyms: ['t3', 'total t3', 't3 total', 'triiodothyronine', 'triyodotironina'],
+  },
+
+  // Minerals and electrolytes
+  {
+    code: '2498-4',
+    display: 'Iron [Mass/volume] in Serum or Plasma',
+    metricType: 'iron',
+    synonyms: ['iron', 'serum iron', 'fe', 'hierro', 'fer', 'eisen', 'fier', 'sideremie'],
+  },
+  {
+    code: '2500-7',
+    display: 'Iron binding capacity [Mass/volume] in Serum or Plasma',
+    metricType: 'tibc',
+    synonyms: ['tibc', 'total iron binding capacity', 'iron binding capacity', 'capacidad total de fijacion de hierro', 'capacite totale de fixation du fer'],
+  },
+  {
+    code: '2276-4',
+    display: 'Ferritin [Mass/volume] in Serum or Plasma',
+    metricType: 'ferritin',
+    synonyms: ['ferritin', 'ferritina', 'ferritine', 'feritina'],
+  },
+  {
+    code: '17861-6',
+    display: 'Calcium [Mass/volume] in Serum or Plasma',
+    metricType: 'calcium',
+    synonyms: ['calcium', 'total calcium', 'calcio', 'kalzium', 'calciu'],
+  },
+  {
+    code: '19123-9',
+    display: 'Magnesium [Mass/volume] in Serum or Plasma',
+    metricType: 'magnesium',
+    synonyms: ['magnesium', 'mg', 'magnesio', 'magneziu'],
+  },
+  {
+    code: '2777-1',
+    display: 'Phosphate [Mass/volume] in Serum or Plasma',
+    metricType: 'phosphorus',
+    synonyms: ['phosphorus', 'phosphate', 'inorganic phosphorus', 'fosforo', 'phosphore', 'phosphat', 'fosfor'],
+  },
+  {
+    code: '2823-3',
+    display: 'Potassium [Moles/volume] in Serum or Plasma',
+    metricType: 'potassium',
+    synonyms: ['potassium', 'k', 'potasio', 'kalium', 'potasiu'],
+  },
+  {
+    code: '2951-2',
+    display: 'Sodium [Moles/volume] in Serum or Plasma',
+    metricType: 'sodium',
+    synonyms: ['sodium', 'na', 'sodio', 'natrium', 'sodiu'],
+  },
+  {
+    code: '2075-0',
+    display: 'Chloride [Moles/volume] in Serum or Plasma',
+    metricType: 'chloride',
+    synonyms: ['chloride', 'cl', 'cloruro', 'chlorure', 'chlorid', 'clor'],
+  },
+
+  // Hormones
+  {
+    code: '2986-8',
+    display: 'Testosterone [Mass/volume] in Serum or Plasma',
+    metricType: 'testosterone',
+    synonyms: ['testosterone', 'total testosterone', 'testosterona', 'testosteron'],
+  },
+  {
+    code: '2243-4',
+    display: 'Estradiol (E2) [Mass/volume] in Serum or Plasma',
+    metricType: 'estradiol',
+    synonyms: ['estradiol', 'oestradiol', 'e2', 'ostradiol'],
+  },
+  {
+    code: '2143-6',
+    display: 'Cortisol [Mass/volume] in Serum or Plasma',
+    metricType: 'cortisol',
+    synonyms: ['cortisol', 'kortisol', 'cortizol'],
+  },
+  {
+    code: '20448-7',
+    display: 'Insulin [Units/volume] in Serum or Plasma',
+    metricType: 'insulin',
+    synonyms: ['insulin', 'insulina', 'insuline'],
+  },
+
+  // Inflammation
+  {
+    code: '1988-5',
+    display: 'C reactive protein [Mass/volume] in Serum or Plasma',
+    metricType: 'crp',
+    synonyms: ['crp', 'c reactive protein', 'proteina c reactiva', 'proteine c reactive', 'c reaktives protein'],
+  },
+  {
+    code: '4537-7',
+    display: 'Erythrocyte sedimentation rate by Westergren method',
+    metricType: 'esr',
+    synonyms: ['esr', 'sed rate', 'erythrocyte sedimentation rate', 'vsg', 'vsh', 'velocidad de sedimentacion', 'vitesse de sedimentation', 'blutsenkung', 'bsg'],
+  },
+
+  // Heavy metals
+  {
+    code: '5685-3',
+    display: 'Mercury [Mass/volume] in Blood',
+    metricType: 'mercury',
+    synonyms: ['mercury', 'mercurio', 'mercure', 'quecksilber', 'mercur', 'hg'],
+  },
+  {
+    code: '5671-3',
+    display: 'Lead [Mass/volume] in Blood',
+    metricType: 'lead',
+    synonyms: ['lead', 'plomo', 'plomb', 'blei', 'plumb', 'pb'],
+  },
+  {
+    code: '5609-1',
+    display: 'Cadmium [Mass/volume] in Blood',
+    metricType: 'cadmium',
+    synonyms: ['cadmium', 'cadmio', 'kadmium', 'cadmiu', 'cd'],
+  },
+  {
+    code: '5586-1',
+    display: 'Arsenic [Mass/volume] in Blood',
+    metricType: 'arsenic',
+    synonyms: ['arsenic', 'arsenico', 'arsen'],
+  },
+];
+
+// Lowercase, strip accents and punctuation, and drop plural "s" so spellings compare as token sets
+function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(token => token !== '')
+    .map(token => (token.length > 3 && token.endsWith('s') ? token.slice(0, -1) : token));
+}
+
+const TERM_INDEX = LOINC_TERMS.flatMap(term =>
+  term.synonyms.map(synonym => ({ term, tokens: tokenize(synonym) }))
+);
+
+// Stable metric type for tests that are not in the table, e.g. "Anti-TPO Ab" -> "anti_tpo_ab"
+export function slugifyTestName(testName: string): string {
+  return tokenize(testName).join('_');
+}
+
+/**
+ * Scores every synonym against the test name and returns the best LOINC term.
+ * A synonym only counts when all of its words appear as whole words in the
+ * name; its score is the share of the name's meaningful words it covers, so
+ * "Iron binding capacity" resolves to TIBC rather than iron. A name with a
+ * qualifier such as "non" or "ratio" only matches synonyms that have it.
+ * Names that no synonym covers well enough, or that two different terms
+ * cover equally, come back unmapped.
+ */
+export function matchTestName(testName: string): TerminologyMatch {
+  const nameTokens = tokenize(testName);
+  const meaningful = nameTokens.filter(token => !NOISE_TOKENS.has(token));
+  const candidates = meaningful.length > 0 ? meaningful : nameTokens;
+  const unmapped = (reason: 'no_match' | 'ambiguous', score: number): TerminologyMatch => ({
+    mapped: false,
+    metricType: slugifyTestName(testName),
+    score: Math.round(score * 100) / 100,
+    reason,
+  });
+
+  if (candidates.length === 0) {
+    return unmapped('no_match', 0);
+  }
+
+  const qualifiers = candidates.filter(token => QUALIFIER_TOKENS.has(token));
+  const bestByCode = new Map<string, { term: LoincTerm; score: number }>();
+  for (const { term, tokens } of TERM_INDEX) {
+    const significant = tokens.filter(token => !NOISE_TOKENS.has(token));
+    if (significant.length === 0 || !significant.every(token => candidates.includes(token))) continue;
+    if (!qualifiers.every(token => significant.includes(token))) continue;
+
+    const score = Math.min(1, significant.length / candidates.length);
+    const best = bestByCode.get(term.code);
+    if (!best || score > best.score) {
+      bestByCode.set(term.code, { term, score });
+    }
+  }
+
+  const ranked = [...bestByCode.values()].sort((a, b) => b.score - a.score);
+  const [top, runnerUp] = ranked;
+  if (!top || top.score < MIN_MATCH_SCORE) {
+    return unmapped('no_match', top?.score ?? 0);
+  }
+  if (runnerUp && runnerUp.score === top.score && runnerUp.term.metricType !== top.term.metricType) {
+    return unmapped('ambiguous', top.score);
+  }
+
+  return {
+    mapped: true,
+    loincCode: top.term.code,
+    display: top.term.display,
+    metricType: top.term.metricType,
+    score: Math.round(top.score * 100) / 100,
+  };
+}
+
+export function getLoincTerm(code: string): LoincTerm | undefined {
+  return LOINC_TERMS.find(term => term.code === code);
+}
+
+// Default LOINC code for a metric type, used when the user picks the metric type by hand
+export function getLoincCodeForMetricType(metricType: string): string | null {
+  return LOINC_TERMS.find(term => term.metricType === metricType)?.code ?? null;
+}
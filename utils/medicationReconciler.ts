@@ -0,0 +1,165 @@
+import { Medication, NormalizedHealthData } from '@/types/health';
+
+export type ExtractedMedication = NonNullable<NormalizedHealthData['medications']>[number];
+
+export type MedicationEntry = Omit<Medication, 'id' | 'createdAt' | 'updatedAt'>;
+
+// The document the medications were read from
+export interface MedicationSource {
+  date: string;
+  provider?: string;
+  documentId?: string;
+  documentHash?: string;
+}
+
+export interface MedicationReconciliation {
+  // New and changed entries, ready to upsert
+  entries: MedicationEntry[];
+  added: number;
+  updated: number;
+  unchanged: number;
+}
+
+const STRENGTH_PATTERN = /\d+(?:[.,]\d+)?\s*(?:mg|mcg|µg|ug|g|ml|ui|iu|units?|%)(?:\s*\/\s*(?:ml|\d*\s*h|dose|doza))?/gi;
+
+// Dosage forms and release types printed after the name, in English and Romanian
+const FORM_WORDS = new Set([
+  'tablet', 'tablets', 'tab', 'tabs', 'capsule', 'capsules', 'caps', 'cap', 'film', 'coated', 'filmcoated',
+  'oral', 'solution', 'suspension', 'syrup', 'drops', 'injection', 'injectable', 'cream', 'ointment', 'gel',
+  'spray', 'inhaler', 'patch', 'sachet', 'sachets', 'powder', 'er', 'xr', 'sr', 'cr', 'retard', 'mr',
+  'comprimate', 'comprimat', 'cpr', 'cp', 'filmate', 'sirop', 'picaturi', 'unguent', 'crema',
+  'fiole', 'plic', 'plicuri', 'pulbere', 'solutie',
+]);
+
+/**
+ * The key that identifies a medication across documents: lowercase, without
+ * accents, strength ("500 mg"), dosage form ("film-coated tablets") or
+ * punctuation. "Metformin 500mg tablets" and "METFORMIN" share a key.
+ * Brand and generic names of the same drug are not matched.
+ */
+export function normalizeMedicationName(name: string): string {
+  const words = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(STRENGTH_PATTERN, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(word => word && !FORM_WORDS.has(word) && !/^\d+$/.test(word));
+
+  return words.length > 0 ? words.join(' ') : name.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// The date part of an extracted date, or undefined when it cannot be read
+export function toCalendarDate(value: string | undefined): string | undefined {
+  const isoDate = value?.match(/^\d{4}-\d{2}-\d{2}/);
+  if (isoDate) return isoDate[0];
+
+  const parsed = value ? new Date(value) : null;
+  return parsed && !isNaN(parsed.getTime()) ? parsed.toISOString().slice(0, 10) : undefined;
+}
+
+// A document's date, or today when it has none that can be read
+export function toDocumentDate(value: string | undefined): string {
+  return toCalendarDate(value) ?? new Date().toISOString().slice(0, 10);
+}
+
+function valueOrUndefined(value: string | undefined): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+function sameEntry(a: MedicationEntry, b: MedicationEntry): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as (keyof MedicationEntry)[]);
+  return Array.from(keys).every(key => a[key] === b[key]);
+}
+
+/**
+ * Merges the medications of one document into the stored list. A medication
+ * already on the list keeps one entry: its start date moves back to the
+ * earliest document, while dosage, frequency and provider follow the latest
+ * document, with an older document only filling in what is missing. A
+ * stopped medication that a later document lists again becomes active, with
+ * that document's date as its new start date.
+ * Medications listed twice in the same document are taken once.
+ */
+export function reconcileMedications(
+  existing: Medication[],
+  extracted: ExtractedMedication[],
+  userId: string,
+  source: MedicationSource
+): MedicationReconciliation {
+  const result: MedicationReconciliation = { entries: [], added: 0, updated: 0, unchanged: 0 };
+  const stored = new Map(existing.map(medication => [medication.normalizedName, medication]));
+  const seen = new Set<string>();
+
+  extracted.forEach(item => {
+    const name = item.name?.trim();
+    if (!name) return;
+
+    const normalizedName = normalizeMedicationName(name);
+    if (seen.has(normalizedName)) return;
+    seen.add(normalizedName);
+
+    const dosage = valueOrUndefined(item.dosage);
+    const frequency = valueOrUndefined(item.frequency);
+    const provider = valueOrUndefined(source.provider);
+    const current = stored.get(normalizedName);
+
+    if (!current) {
+      result.added++;
+      result.entries.push({
+        userId,
+        name,
+        normalizedName,
+        dosage,
+        frequency,
+        startDate: source.date,
+        lastSeenDate: source.date,
+        provider,
+        documentId: source.documentId,
+        documentHash: source.documentHash,
+        status: 'active',
+        stoppedDate: undefined,
+      });
+      return;
+    }
+
+    const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...before } = current;
+    const isLatest = !current.lastSeenDate || source.date >= current.lastSeenDate;
+    const restarted = current.status === 'stopped' && (!current.stoppedDate || source.date > current.stoppedDate);
+    const after: MedicationEntry = {
+      ...before,
+      startDate: !restarted && current.startDate && current.startDate < source.date ? current.startDate : source.date,
+      ...(isLatest
+        ? {
+          name,
+          dosage: dosage ?? current.dosage,
+          frequency: frequency ?? current.frequency,
+          provider: provider ?? current.provider,
+          lastSeenDate: source.date,
+          documentId: source.documentId ?? current.documentId,
+          documentHash: source.documentHash ?? current.documentHash,
+        }
+        : {
+          dosage: current.dosage ?? dosage,
+          frequency: current.frequency ?? frequency,
+          provider: current.provider ?? provider,
+        }),
+      ...(restarted && { status: 'active' as const, stoppedDate: undefined }),
+    };
+
+    if (sameEntry(before, after)) {
+      result.unchanged++;
+      return;
+    }
+    if (restarted) {
+      console.log(`💊 ${name} is listed again on ${source.date}; marking it active`);
+    }
+    result.updated++;
+    result.entries.push(after);
+  });
+
+  return result;
+}
@@ -0,0 +1,339 @@
+import { decodePDFRawStream, PDFArray, PDFDict, PDFDocument, PDFName, PDFPage, PDFRawStream } from 'pdf-lib';
+
+interface FontDecoder {
+  bytesPerCode: 1 | 2;
+  // Character codes to text, from the font's ToUnicode CMap
+  toUnicode: Map<number, string>;
+}
+
+type Operand = string | number | { name: string } | Operand[];
+
+// A TJ adjustment larger than this, in thousandths of an em, is read as a space between words
+const WORD_GAP = 250;
+
+// Forms drawn inside forms are followed this deep, which also stops a form that draws itself
+const MAX_FORM_DEPTH = 8;
+
+const LATIN1_FONT: FontDecoder = { bytesPerCode: 1, toUnicode: new Map() };
+
+function bytesToLatin1(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    result += String.fromCharCode(...Array.from(bytes.subarray(i, i + 8192)));
+  }
+  return result;
+}
+
+function decodeUtf16Hex(hex: string): string {
+  let result = '';
+  for (let i = 0; i + 4 <= hex.length; i += 4) {
+    result += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+  }
+  return result;
+}
+
+function parseToUnicodeCMap(cmap: string): FontDecoder {
+  const toUnicode = new Map<number, string>();
+  const codeSpace = cmap.match(/begincodespacerange\s*<([0-9a-fA-F]+)>/);
+  const bytesPerCode = codeSpace && codeSpace[1].length > 2 ? 2 : 1;
+
+  for (const [, block] of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const [, source, target] of block.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      toUnicode.set(parseInt(source, 16), decodeUtf16Hex(target));
+    }
+  }
+
+  for (const [, block] of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const [, low, high, target] of block.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)) {
+      const start = parseInt(low, 16);
+      const end = parseInt(high, 16);
+      if (target.startsWith('[')) {
+        const targets = [...target.matchAll(/<([0-9a-fA-F]*)>/g)].map(match => decodeUtf16Hex(match[1]));
+        targets.forEach((text, offset) => toUnicode.set(start + offset, text));
+      } else {
+        // The last character of the target counts up through the range
+        const first = decodeUtf16Hex(target.slice(1, -1));
+        for (let code = start; code <= end && code - start < 65536; code++) {
+          toUnicode.set(code, first.slice(0, -1) + String.fromCharCode(first.charCodeAt(first.length - 1) + code - start));
+        }
+      }
+    }
+  }
+
+  return { bytesPerCode, toUnicode };
+}
+
+function readFonts(resources: PDFDict | undefined): Map<string, FontDecoder> {
+  const decoders = new Map<string, FontDecoder>();
+  const fonts = resources?.lookupMaybe(PDFName.of('Font'), PDFDict);
+  fonts?.entries().forEach(([name]) => {
+    const font = fonts.lookupMaybe(name, PDFDict);
+    if (!font) return;
+
+    const isComposite = font.lookupMaybe(PDFName.of('Subtype'), PDFName) === PDFName.of('Type0');
+    const toUnicode = font.lookup(PDFName.of('ToUnicode'));
+    const decoder = toUnicode instanceof PDFRawStream
+      ? parseToUnicodeCMap(bytesToLatin1(decodePDFRawStream(toUnicode).decode()))
+      : { bytesPerCode: isComposite ? 2 : 1, toUnicode: new Map<number, string>() } as FontDecoder;
+    decoders.set(name.decodeText(), decoder);
+  });
+  return decoders;
+}
+
+function readContentStream(page: PDFPage): string {
+  const contents = page.node.Contents();
+  const streams = contents instanceof PDFArray
+    ? contents.asArray().map(ref => page.doc.context.lookup(ref))
+    : [contents];
+  return streams
+    .filter((stream): stream is PDFRawStream => stream instanceof PDFRawStream)
+    .map(stream => bytesToLatin1(decodePDFRawStream(stream).decode()))
+    .join('\n');
+}
+
+// A form XObject is a content stream of its own, drawn by the Do operator; images are not read
+function readForm(resources: PDFDict | undefined, name: string): PDFRawStream | undefined {
+  const xObject = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict)?.lookup(PDFName.of(name));
+  if (!(xObject instanceof PDFRawStream)) return undefined;
+  return xObject.dict.lookupMaybe(PDFName.of('Subtype'), PDFName) === PDFName.of('Form') ? xObject : undefined;
+}
+
+function findName(operands: Operand[]): string | undefined {
+  return operands.find((operand): operand is { name: string } => typeof operand === 'object' && 'name' in operand)?.name;
+}
+
+// Codes without a ToUnicode entry are read as Latin-1 from simple fonts and dropped from composite ones
+function decodeString(bytes: string, font: FontDecoder): string {
+  let text = '';
+  for (let i = 0; i + font.bytesPerCode <= bytes.length; i += font.bytesPerCode) {
+    const code = font.bytesPerCode === 2 ? (bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1) : bytes.charCodeAt(i);
+    const mapped = font.toUnicode.get(code);
+    if (mapped !== undefined) {
+      text += mapped;
+    } else if (font.bytesPerCode === 1 && code >= 32) {
+      text += String.fromCharCode(code);
+    }
+  }
+  return text;
+}
+
+const LITERAL_ESCAPES: { [escape: string]: string } = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+// Sticky patterns read a token where the tokenizer stands without copying the rest of the stream
+const NAME_PATTERN = /[^\s/[\]()<>{}%]*/y;
+const NUMBER_PATTERN = /[-+]?\d*\.?\d*/y;
+const OPERATOR_PATTERN = /[^\s/[\]()<>{}%]+/y;
+const INLINE_IMAGE_END_PATTERN = /\sEI(\s|$)/g;
+
+function matchAt(pattern: RegExp, content: string, index: number): string {
+  pattern.lastIndex = index;
+  return pattern.exec(content)?.[0] ?? '';
+}
+
+/**
+ * Splits a content stream into operands and operators. Only what text
+ * extraction needs is parsed: dictionaries are skipped and inline image data
+ * is jumped over.
+ */
+function* tokenize(content: string): Generator<{ operator: string; operands: Operand[] }> {
+  let operands: Operand[] = [];
+  const arrays: Operand[][] = [];
+  const push = (operand: Operand) => (arrays.length > 0 ? arrays[arrays.length - 1] : operands).push(operand);
+  let i = 0;
+
+  while (i < content.length) {
+    const char = content[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '%') {
+      while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++;
+    } else if (char === '(') {
+      let depth = 1;
+      let value = '';
+      i++;
+      while (i < content.length && depth > 0) {
+        const current = content[i];
+        if (current === '\\') {
+          const next = content[i + 1];
+          if (/[0-7]/.test(next)) {
+            const octal = content.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0];
+            value += String.fromCharCode(parseInt(octal, 8) & 0xff);
+            i += 1 + octal.length;
+            continue;
+          }
+          if (next === '\r' || next === '\n') {
+            i += next === '\r' && content[i + 2] === '\n' ? 3 : 2;
+            continue;
+          }
+          value += LITERAL_ESCAPES[next] ?? next;
+          i += 2;
+          continue;
+        }
+        if (current === '(') depth++;
+        if (current === ')') depth--;
+        if (depth > 0) value += current;
+        i++;
+      }
+      push(value);
+    } else if (char === '<' && content[i + 1] === '<') {
+      i += 2;
+    } else if (char === '>' && content[i + 1] === '>') {
+      i += 2;
+    } else if (char === '<') {
+      const end = content.indexOf('>', i);
+      const hex = content.slice(i + 1, end < 0 ? content.length : end).replace(/\s+/g, '');
+      const padded = hex.length % 2 === 0 ? hex : `${hex}0`;
+      let value = '';
+      for (let j = 0; j < padded.length; j += 2) {
+        value += String.fromCharCode(parseInt(padded.slice(j, j + 2), 16));
+      }
+      push(value);
+      i = end < 0 ? content.length : end + 1;
+    } else if (char === '[') {
+      arrays.push([]);
+      i++;
+    } else if (char === ']') {
+      const array = arrays.pop();
+      if (array) push(array);
+      i++;
+    } else if (char === '/') {
+      const match = matchAt(NAME_PATTERN, content, i + 1);
+      push({ name: match });
+      i += 1 + match.length;
+    } else if (/[-+.\d]/.test(char)) {
+      const match = matchAt(NUMBER_PATTERN, content, i);
+      push(Number(match) || 0);
+      i += Math.max(match.length, 1);
+    } else {
+      const operator = matchAt(OPERATOR_PATTERN, content, i) || char;
+      i += operator.length;
+      if (arrays.length === 0) {
+        yield { operator, operands };
+        operands = [];
+      }
+      // Inline image data is binary and ends at the first EI on its own
+      if (operator === 'ID') {
+        INLINE_IMAGE_END_PATTERN.lastIndex = i;
+        const end = INLINE_IMAGE_END_PATTERN.exec(content);
+        i = end ? end.index + 3 : content.length;
+      }
+    }
+  }
+}
+
+/**
+ * The text of a page, read from its content stream in drawing order, with a
+ * line break wherever the text moves to a new line. Text in forms, such as
+ * templates and stamps, is read where the form is drawn. Text drawn as images,
+ * as in scans and photos, is not found; fonts without a ToUnicode map may come
+ * out garbled.
+ */
+function extractPageText(page: PDFPage): string {
+  let font = LATIN1_FONT;
+  let leading = 0;
+  let y = 0;
+  let lastShownY: number | null = null;
+  let moved = false;
+  let text = '';
+
+  const show = (shown: string) => {
+    if (!shown) return;
+    if (lastShownY !== null && Math.abs(y - lastShownY) > 0.5) {
+      text += '\n';
+    } else if (moved && text && !text.endsWith(' ')) {
+      text += ' ';
+    }
+    text += shown;
+    lastShownY = y;
+    moved = false;
+  };
+  const nextLine = () => {
+    y -= leading || 1;
+    moved = true;
+  };
+
+  const read = (content: string, resources: PDFDict | undefined, depth: number) => {
+    const fonts = readFonts(resources);
+    for (const { operator, operands } of tokenize(content)) {
+      const numbers = operands.filter((operand): operand is number => typeof operand === 'number');
+      switch (operator) {
+        case 'BT':
+          y = 0;
+          moved = true;
+          break;
+        case 'Tf': {
+          const name = findName(operands);
+          font = (name && fonts.get(name)) || LATIN1_FONT;
+          break;
+        }
+        case 'TL':
+          leading = numbers[0] ?? 0;
+          break;
+        case 'Td':
+        case 'TD':
+          if (operator === 'TD') leading = -(numbers[1] ?? 0);
+          y += numbers[1] ?? 0;
+          moved = true;
+          break;
+        case 'Tm':
+          y = numbers[5] ?? 0;
+          moved = true;
+          break;
+        case 'T*':
+          nextLine();
+          break;
+        case 'Tj':
+          show(typeof operands[0] === 'string' ? decodeString(operands[0], font) : '');
+          break;
+        case "'":
+        case '"':
+          nextLine();
+          show(typeof operands[operands.length - 1] === 'string' ? decodeString(operands[operands.length - 1] as string, font) : '');
+          break;
+        case 'TJ': {
+          const parts = Array.isArray(operands[0]) ? operands[0] : [];
+          show(parts.map(part => {
+            if (typeof part === 'string') return decodeString(part, font);
+            return typeof part === 'number' && part < -WORD_GAP ? ' ' : '';
+          }).join(''));
+          break;
+        }
+        case 'Do': {
+          const name = findName(operands);
+          const form = name && depth < MAX_FORM_DEPTH ? readForm(resources, name) : undefined;
+          if (!form) break;
+          // The form's text state does not carry over to the content after it
+          const [savedFont, savedLeading] = [font, leading];
+          read(
+            bytesToLatin1(decodePDFRawStream(form).decode()),
+            form.dict.lookupMaybe(PDFName.of('Resources'), PDFDict) ?? resources,
+            depth + 1
+          );
+          font = savedFont;
+          leading = savedLeading;
+          break;
+        }
+      }
+    }
+  };
+  read(readContentStream(page), page.node.Resources(), 0);
+
+  return text
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+// One string per page; empty for pages with no text layer
+export function extractPDFText(document: PDFDocument): string[] {
+  return document.getPages().map(page => {
+    try {
+      return extractPageText(page);
+    } catch (error) {
+      console.warn('⚠️ Could not read the text of a PDF page:', error);
+      return '';
+    }
+  });
+}
@@ -0,0 +1,214 @@
+import { PersonalDataKind, Redaction } from '@/types/redaction';
+
+// Letters of the Latin scripts in use, including Romanian diacritics; used for word boundaries
+const LETTER = 'A-Za-z0-9\\u00C0-\\u024F';
+
+// Labels are only recognised when followed by ":" or "#"
+const LABELLED_FIELDS: { kind: PersonalDataKind; labels: string[] }[] = [
+  { kind: 'name', labels: ['patient name', 'full name', 'first name', 'last name', 'surname', 'name', 'patient', 'nume pacient', 'nume', 'prenume', 'pacient'] },
+  { kind: 'date_of_birth', labels: ['date of birth', 'birth date', 'dob', 'born', 'data nașterii', 'data nasterii'] },
+  { kind: 'national_id', labels: ['cnp', 'ssn', 'social security number', 'national id', 'personal id', 'id number', 'id no', 'nhs number'] },
+  { kind: 'record_number', labels: ['medical record number', 'record number', 'mrn', 'patient id', 'chart number', 'foaie de observație', 'foaie de observatie'] },
+  { kind: 'insurance_number', labels: ['insurance number', 'insurance no', 'insurance id', 'policy number', 'policy no', 'member id', 'insurance', 'nr. asigurat', 'cod asigurat'] },
+  { kind: 'address', labels: ['home address', 'address', 'street', 'adresa', 'adresă', 'domiciliu', 'domiciliul'] },
+  { kind: 'phone', labels: ['telephone', 'phone', 'mobile', 'tel', 'telefon'] },
+  { kind: 'email', labels: ['e-mail', 'email'] },
+];
+
+// Labels that end the value of a field before them on the same line; their own values are kept
+const OTHER_LABELS = [
+  'sex', 'gender', 'age', 'sexul', 'sex pacient', 'vârsta', 'varsta', 'date', 'data', 'doctor', 'physician',
+  'medic', 'referring', 'collected', 'received', 'reported', 'sample', 'specimen', 'ward', 'secția', 'sectia',
+];
+
+// A plain "Name" label after another word names something else, as in "Test Name" or "Product Name"
+const GENERIC_NAME_LABELS = ['name', 'nume'];
+
+// Column headers and terms of lab reports, which a name label on a table header line would capture
+const LAB_REPORT_TERMS = new Set([
+  'test', 'tests', 'result', 'results', 'value', 'values', 'unit', 'units', 'reference', 'range', 'ranges',
+  'interval', 'flag', 'flags', 'analyte', 'parameter', 'method', 'specimen', 'sample', 'status', 'comment',
+  'comments', 'normal', 'abnormal', 'high', 'low', 'negative', 'positive', 'pending', 'analiza', 'analize',
+  'rezultat', 'rezultate', 'valoare', 'valori', 'unitate', 'referinta', 'metoda', 'proba', 'observatii',
+]);
+
+const PLACEHOLDER_PREFIXES: { [kind in PersonalDataKind]: string } = {
+  name: 'NAME',
+  date_of_birth: 'DOB',
+  national_id: 'ID',
+  record_number: 'RECORD',
+  insurance_number: 'INSURANCE',
+  address: 'ADDRESS',
+  phone: 'PHONE',
+  email: 'EMAIL',
+  iban: 'IBAN',
+  custom: 'REDACTED',
+};
+
+// Identifiers recognised by their shape wherever they appear, with a check that rules out look-alikes.
+// Phone numbers are only taken with a country prefix here: a bare run of digits may be a lab or specimen ID.
+const PATTERNS: { kind: PersonalDataKind; pattern: RegExp; isValid?: (match: string) => boolean }[] = [
+  { kind: 'email', pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+  { kind: 'national_id', pattern: /\b[1-8]\d{12}\b/g, isValid: isValidCNP },
+  { kind: 'national_id', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  { kind: 'iban', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){3,7}(?: ?[A-Z0-9]{1,3})?\b/g, isValid: isValidIBAN },
+  {
+    kind: 'phone',
+    pattern: /\+\d{1,3}[\s.-]?\d{2,4}[\s.-]?\d{3}[\s.-]?\d{3,4}\b/g,
+    isValid: match => {
+      const digits = match.replace(/\D/g, '').length;
+      return digits >= 9 && digits <= 13;
+    },
+  },
+];
+
+// Romanian personal numeric code: 13 digits with a weighted checksum
+function isValidCNP(value: string): boolean {
+  const weights = '279146358279';
+  const sum = weights.split('').reduce((total, weight, i) => total + Number(weight) * Number(value[i]), 0);
+  const check = sum % 11 === 10 ? 1 : sum % 11;
+  return check === Number(value[12]);
+}
+
+function isValidIBAN(value: string): boolean {
+  const compact = value.replace(/\s+/g, '');
+  const rearranged = compact.slice(4) + compact.slice(0, 4);
+  const digits = rearranged.replace(/[A-Z]/g, letter => String(letter.charCodeAt(0) - 55));
+  let remainder = 0;
+  for (const digit of digits) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function normalize(value: string): string {
+  return value.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+// Matches the value as a whole word, ignoring case and differences in spacing
+function wordPattern(value: string): RegExp {
+  const body = value.trim().split(/\s+/).map(escapeRegExp).join('\\s+');
+  return new RegExp(`(^|[^${LETTER}])(${body})(?![${LETTER}])`, 'gi');
+}
+
+const labelPattern = (() => {
+  const labels = [
+    ...LABELLED_FIELDS.flatMap(field => field.labels),
+    ...OTHER_LABELS,
+  ].sort((a, b) => b.length - a.length);
+  return new RegExp(`(^|[^${LETTER}])(${labels.map(escapeRegExp).join('|')})\\s*[:#]`, 'gi');
+})();
+
+function kindOfLabel(label: string): PersonalDataKind | null {
+  const lower = label.toLowerCase();
+  return LABELLED_FIELDS.find(field => field.labels.includes(lower))?.kind ?? null;
+}
+
+// One to five capitalised words of letters, none of them a lab report term
+function looksLikeName(value: string): boolean {
+  const words = value.split(/[\s,]+/).filter(Boolean);
+  return words.length >= 1 && words.length <= 5 && words.every(word => {
+    const first = word[0];
+    const plain = word.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    return first !== first.toLowerCase()
+      && /^[A-Za-zÀ-ɏ'’.-]+$/.test(word)
+      && !LAB_REPORT_TERMS.has(plain.replace(/[.'’]/g, ''));
+  });
+}
+
+interface Finding {
+  kind: PersonalDataKind;
+  value: string;
+  start: number;
+  end: number;
+}
+
+// Values of labelled fields, up to the next label on the line or its end
+function findLabelledValues(text: string): Finding[] {
+  const found: Finding[] = [];
+  let offset = 0;
+  text.split('\n').forEach(line => {
+    const labels = [...line.matchAll(labelPattern)].map(match => ({
+      label: match[2].toLowerCase(),
+      kind: kindOfLabel(match[2]),
+      start: match.index! + match[1].length,
+      end: match.index! + match[0].length,
+    }));
+    labels.forEach((label, i) => {
+      if (!label.kind) return;
+      if (GENERIC_NAME_LABELS.includes(label.label) && new RegExp(`[${LETTER}]\\s+$`).test(line.slice(0, label.start))) return;
+
+      const rest = line.slice(label.end, labels[i + 1]?.start ?? line.length);
+      const value = rest.trim().replace(/^[:#\s]+|[,;\s]+$/g, '');
+      if (!/[A-Za-z0-9À-ɏ]/.test(value) || /^\[[A-Z]+_\d+\]$/.test(value)) return;
+      if (label.kind === 'name' && !looksLikeName(value)) return;
+
+      const start = offset + label.end + rest.indexOf(value);
+      found.push({ kind: label.kind, value, start, end: start + value.length });
+    });
+    offset += line.length + 1;
+  });
+  return found;
+}
+
+function findPatternValues(text: string): Finding[] {
+  return PATTERNS.flatMap(({ kind, pattern, isValid }) =>
+    [...text.matchAll(pattern)]
+      .filter(match => !isValid || isValid(match[0]))
+      .map(match => ({ kind, value: match[0], start: match.index!, end: match.index! + match[0].length }))
+  );
+}
+
+function findCustomTerms(text: string, customTerms: string[]): Finding[] {
+  return customTerms.filter(term => term.trim()).flatMap(term =>
+    [...text.matchAll(wordPattern(term))].map(match => {
+      const start = match.index! + match[1].length;
+      return { kind: 'custom' as PersonalDataKind, value: match[2], start, end: start + match[2].length };
+    })
+  );
+}
+
+/**
+ * Replaces personal identifiers in a document's text with placeholders such
+ * as [NAME_1]: the values of labelled fields (name, date of birth, ID,
+ * insurance and record numbers, address, contacts), e-mail addresses, phone
+ * numbers with a country prefix, Romanian CNPs, US SSNs, IBANs, and the given
+ * custom terms. Labelled values are masked where they are labelled, so a
+ * misread label cannot mask a word all through the report; only custom terms
+ * are searched for everywhere. The same value always gets the same placeholder.
+ * Anything not recognised is sent as is.
+ */
+export function redactPersonalData(text: string, customTerms: string[] = []): { text: string; redactions: Redaction[] } {
+  // Where findings overlap, the one starting first wins, and the longer of two starting together
+  const findings = [
+    ...findCustomTerms(text, customTerms),
+    ...findLabelledValues(text),
+    ...findPatternValues(text),
+  ].sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const redactions: Redaction[] = [];
+  const counters: { [kind in PersonalDataKind]?: number } = {};
+  const byValue = new Map<string, Redaction>();
+  let redacted = '';
+  let position = 0;
+  findings.forEach(({ kind, value, start, end }) => {
+    if (start < position) return;
+    const key = normalize(value);
+    let redaction = byValue.get(key);
+    if (!redaction) {
+      counters[kind] = (counters[kind] ?? 0) + 1;
+      redaction = { placeholder: `[${PLACEHOLDER_PREFIXES[kind]}_${counters[kind]}]`, kind, value: value.trim(), occurrences: 0 };
+      byValue.set(key, redaction);
+      redactions.push(redaction);
+    }
+    redaction.occurrences++;
+    redacted += text.slice(position, start) + redaction.placeholder;
+    position = end;
+  });
+
+  return { text: redacted + text.slice(position), redactions };
+}
@@ -0,0 +1,394 @@
+import { DocumentType } from '@/types/health';
+import { PromptId, PromptProvenance, PromptTemplate } from '@/types/prompt';
+
+export const DEFAULT_PROMPT_LANGUAGE = 'en';
+
+// Rules shared by the extraction templates. Changing one changes every
+// extract_health_data template that uses it, so bump each of their versions.
+const EXTRACTION_RULES = `
+    Only include fields that have actual data. Be precise with numbers and units.
+    Fill "patient" only from what the document states; leave out anything it does not.
+    For every item, set "confidence" to a number from 0 to 1 for how sure you are that it was read correctly.
+    Lower it for handwritten, blurry, cut-off or ambiguous values; do not default everything to 1.`;
+
+const MEASUREMENT_RULES = `
+    For vitals read as a pair, such as blood pressure, give "value" as a string like "120/80".
+    Copy "value" and "referenceRange" exactly as printed, including "<", ">" and any sex- or age-specific ranges.
+    For vitals and lab results, set "page" to the page of this file the item is on (1 for the first page),
+    and "sourceText" to the line it was read from, copied as printed.`;
+
+/**
+ * Every prompt the app sends to a model. Bump a template's version whenever its
+ * text changes, so output stored from the earlier text shows up as outdated.
+ * The notes appended to the extraction prompt are recorded under the
+ * extraction prompt, so bump extract_health_data when changing them too.
+ *
+ * Documents are classified first; extract_health_data has a template for each
+ * type with its own structure, and the one without a type serves the rest.
+ */
+const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'classify_document',
+    version: 1,
+    language: 'en',
+    variables: [],
+    text: `
+    You are a medical document classifier. Look at this document and decide which kind of document it is.
+    Do not extract any values from it.
+
+    Return a JSON object with the following structure:
+    {"documentType": "", "confidence": 0.0, "reason": "one short sentence"}
+
+    Use one of these values for "documentType":
+    - "lab_report": laboratory test results, such as blood, urine or microbiology panels
+    - "prescription": a prescription or medication order
+    - "imaging_report": a report on an X-ray, CT, MRI, ultrasound or other imaging study
+    - "discharge_summary": a hospital discharge summary or discharge letter
+    - "vaccination_record": a vaccination card, certificate or immunization history
+    - "invoice": a medical bill, receipt or an insurer's explanation of benefits
+    - "medical_record": any other clinical document, such as a visit note, referral or specialist letter
+    - "not_medical": anything that is not about a person's health or health care, such as a utility bill, a contract or a photo of something else
+
+    When a document combines several kinds, such as a discharge summary with lab tables, pick the one that describes it as a whole.
+    Only a long document's first pages may be attached; classify it by them.
+    Use "not_medical" only when nothing in the document relates to health or health care.
+    Set "confidence" to a number from 0 to 1 for how sure you are of the type.
+    Return only the JSON object, with no explanation.
+  `,
+  },
+  {
+    id: 'extract_health_data',
+    version: 2,
+    language: 'en',
+    variables: [],
+    text: `
+    You are a medical data extraction assistant. Extract all health-related information from this document and normalize it into a structured format.
+
+    Return a JSON object with the following structure:
+    {
+      "documentType": "lab_report" | "prescription" | "imaging_report" | "discharge_summary" | "vaccination_record" | "invoice" | "medical_record" | "other",
+      "date": "ISO date string",
+      "provider": "provider name if available",
+      "patient": {"sex": "male" | "female", "age": 0},
+      "medications": [{"name": "", "dosage": "", "frequency": "", "confidence": 0.0}],
+      "vitals": [{"type": "", "value": 0, "unit": "", "date": "ISO date", "page": 1, "sourceText": "", "confidence": 0.0}],
+      "diagnoses": [{"condition": "", "date": "ISO date", "notes": "", "confidence": 0.0}],
+      "labResults": [{"test": "", "value": "", "unit": "", "referenceRange": "", "date": "ISO date", "page": 1, "sourceText": "", "confidence": 0.0}],
+      "notes": "any additional relevant information"
+    }
+${EXTRACTION_RULES}
+${MEASUREMENT_RULES}
+  `,
+  },
+  {
+    id: 'extract_health_data',
+    version: 1,
+    language: 'en',
+    documentType: 'lab_report',
+    variables: [],
+    text: `
+    You are a medical data extraction assistant. This document is a laboratory report. Extract every test result on it and normalize it into a structured format.
+
+    Return a JSON object with the following structure:
+    {
+      "documentType": "lab_report",
+      "date": "ISO date the sample was collected, or the report date",
+      "provider": "laboratory or ordering clinician, if available",
+      "patient": {"sex": "male" | "female", "age": 0},
+      "labResults": [{"test": "", "value": "", "unit": "", "referenceRange": "", "date": "ISO date", "page": 1, "sourceText": "", "confidence": 0.0}],
+      "vitals": [{"type": "", "value": 0, "unit": "", "date": "ISO date", "page": 1, "sourceText": "", "confidence": 0.0}],
+      "diagnoses": [{"condition": "", "date": "ISO date", "notes": "", "confidence": 0.0}],
+      "notes": "interpretive comments printed by the laboratory"
+    }
+${EXTRACTION_RULES}
+${MEASUREMENT_RULES}
+    Give each test in a panel its own item, named as printed; do not add the panel name unless the test name alone is ambiguous.
+    Put a result reported in two units, such as mmol/L and mg/dL, in one item, in the unit its reference range is printed in.
+    Only include vitals, such as weight or blood pressure, and diagnoses when the report prints them.
+  `,
+  },
+  {
+    id: 'extract_health_data',
+    version: 1,
+    language: 'en',
+    documentType: 'prescription',
+    variables: [],
+    text: `
+    You are a medical data extraction assistant. This document is a prescription. Extract the prescribed medications and normalize them into a structured format.
+
+    Return a JSON object with the following structure:
+    {
+      "documentType": "prescription",
+      "date": "ISO date the prescription was written",
+      "provider": "prescribing clinician or clinic",
+      "patient": {"sex": "male" | "female", "age": 0},
+      "medications": [{"name": "", "dosage": "", "frequency": "", "confidence": 0.0}],
+      "diagnoses": [{"condition": "", "date": "ISO date", "notes": "", "confidence": 0.0}],
+      "notes": "treatment duration, quantity dispensed, refills and instructions"
+    }
+${EXTRACTION_RULES}
+    Give each medication its own item. Put the name, with any brand name as printed, in "name";
+    the strength and amount per dose, e.g. "500 mg, 1 tablet", in "dosage"; and how often it is taken in "frequency".
+    Copy schedules such as "1-0-1" as printed and add their meaning, e.g. "1-0-1 (morning and evening)".
+    Add the diagnoses the prescription is for, with any ICD-10 code printed next to them, e.g. "E11 Type 2 diabetes".
+  `,
+  },
+  {
+    id: 'extract_health_data',
+    version: 1,
+    language: 'en',
+    documentType: 'imaging_report',
+    variables: [],
+    text: `
+    You are a medical data extraction assistant. This document is an imaging report. Extract the studies it reports on and normalize them into a structured format.
+
+    Return a JSON object with the following structure:
+    {
+      "documentType": "imaging_report",
+      "date": "ISO date the study was performed",
+      "provider": "imaging center or reporting radiologist",
+      "patient": {"sex": "male" | "female", "age": 0},
+      "imaging": [{"study": "", "modality": "", "bodyPart": "", "findings": "", "impression": "", "date": "ISO date", "page": 1, "sourceText": "", "confidence": 0.0}],
+      "diagnoses": [{"condition": "", "date": "ISO date", "notes": "", "confidence": 0.0}],
+      "notes": "technique, contrast used, comparison with earlier studies and recommendations"
+    }
+${EXTRACTION_RULES}
+    Give each study its own item, e.g. "Chest X-ray, PA and lateral". Set "modality" to one of "X-ray", "CT", "MRI",
+    "ultrasound", "mammography", "PET", "DEXA" or "other", and "bodyPart" to the region examined.
+    Put the findings section in "findings", keeping every measurement and its unit as printed; shorten it only by leaving out normal boilerplate.
+    Copy the impression or conclusion in "impression" as printed, without interpreting it further.
+    Set "page" to the page of this file the study is reported on and "sourceText" to the first line of its impression.
+    Add a diagnosis only for a condition the impression names, not for incidental wording such as "cannot be excluded".
+  `,
+  },
+  {
+    id: 'extract_health_data',
+    version: 1,
+    language: 'en',
+    documentType: 'discharge_summary',
+    variables: [],
+    text: `
+    You are a medical data extraction assistant. This document is a hospital discharge summary. Extract the health information in it and normalize it into a structured format.
+
+    Return a JSON object with the following structure:
+    {
+      "documentType": "discharge_summary",
+      "date": "ISO date of discharge",
+      "provider": "hospital and department",
+      "patient": {"sex": "male" | "female", "age": 0},
+      "diagnoses": [{"condition": "", "date": "ISO date", "notes": "", "confidence": 0.0}],
+      "medications": [{"name": "", "dosage": "", "frequency": "", "confidence": 0.0}],
+      "labResults": [{"test": "", "value": "", "unit": "", "referenceRange": "", "date": "ISO date", "page": 1, "sourceText": "", "confidence": 0.0}],
+      "vitals": [{"type": "", "value": 0, "unit": "", "date": "ISO date", "page": 1, "sourceText": "", "confidence": 0.0}],
+      "notes": "admission date and reason, procedures, a short hospital course and the follow-up instructions"
+    }
+${EXTRACTION_RULES}
+${MEASUREMENT_RULES}
+    Include the discharge diagnoses, with any ICD-10 code printed next to them, e.g. "I21.4 NSTEMI".
+    Say in a diagnosis's "notes" whether it is the main diagnosis, a secondary one or a complication.
+    Only list the medications the patient is discharged on; mention those stopped during the stay in "notes".
+    Give lab results and vitals the date they were taken, not the date of discharge; leave out results printed without a value.
+  `,
+  },
+  {
+    id: 'extract_health_data',
+    version: 1,
+    language: 'en',
+    documentType: 'vaccination_record',
+    variables: [],
+    text: `
+    You are a medical data extraction assistant. This document is a vaccination record. Extract every vaccine dose on it and normalize it into a structured format.
+
+    Return a JSON object with the following structure:
+    {
+      "documentType": "vaccination_record",
+      "date": "ISO date of the latest dose, or the date the record was issued",
+      "provider": "issuing clinic or authority",
+      "patient": {"sex": "male" | "female", "age": 0},
+      "vaccinations": [{"vaccine": "", "date": "ISO date", "doseNumber": 1, "lotNumber": "", "manufacturer": "", "site": "", "page": 1, "sourceText": "", "confidence": 0.0}],
+      "notes": "doses due later and any reactions recorded"
+    }
+${EXTRACTION_RULES}
+    Give each dose given its own item, with the vaccine or product name as printed, e.g. "Comirnaty" or "Tdap (Boostrix)".
+    Copy "lotNumber" character by character: lot numbers mix letters and digits, so do not correct "O" to "0" or "I" to "1".
+    Lower the confidence of a lot number that is handwritten or partly covered by a sticker or stamp.
+    Set "doseNumber" only when the record numbers the dose, and "site" to the injection site when printed.
+    Set "page" to the page of this file the dose is on and "sourceText" to the line it was read from.
+    Do not add doses that are only scheduled; mention them in "notes".
+  `,
+  },
+  {
+    id: 'extract_health_data',
+    version: 1,
+    language: 'en',
+    documentType: 'invoice',
+    variables: [],
+    text: `
+    You are a medical data extraction assistant. This document is a medical bill, receipt or explanation of benefits. Extract the billed services and normalize them into a structured format.
+
+    Return a JSON object with the following structure:
+    {
+      "documentType": "invoice",
+      "date": "ISO date of the bill or statement",
+      "provider": "billing provider",
+      "charges": [{"description": "", "code": "", "amount": 0, "currency": "", "patientAmount": 0, "date": "ISO date of service", "confidence": 0.0}],
+      "diagnoses": [{"condition": "", "date": "ISO date", "notes": "", "confidence": 0.0}],
+      "notes": "insurer, totals, amounts already paid and the payment due date"
+    }
+${EXTRACTION_RULES}
+    Give each billed service its own item, with the code printed next to it, e.g. a CPT code, in "code".
+    Give "amount" and "patientAmount" as JSON numbers without currency symbols or thousands separators, and "currency" as an ISO 4217 code such as "USD" or "RON".
+    On an explanation of benefits, "amount" is the amount billed and "patientAmount" what the patient may owe.
+    Do not add lab results for billed tests: a bill does not report their values.
+    Only add diagnoses whose codes the bill prints, e.g. "J06.9 Acute upper respiratory infection".
+  `,
+  },
+  {
+    id: 'photo_pages_note',
+    version: 1,
+    language: 'en',
+    variables: ['pageCount'],
+    text: `
+    The document is provided as {{pageCount}} photo(s) of paper pages, in page order.
+    Treat them as a single document. Pages may be slightly skewed or poorly lit; read values carefully and do not guess digits you cannot see.
+  `,
+  },
+  {
+    id: 'pdf_chunk_note',
+    version: 1,
+    language: 'en',
+    variables: ['startPage', 'endPage', 'pageCount'],
+    text: `
+    This file contains pages {{startPage}}-{{endPage}} of a {{pageCount}}-page document that is being processed in parts.
+    Extract only what appears on these pages. For "documentType", "date" and "provider", use what these pages show or imply about the whole document.
+  `,
+  },
+  {
+    id: 'redacted_text_note',
+    version: 1,
+    language: 'en',
+    variables: ['documentText'],
+    text: `
+    The document is not attached. Instead, its text was read on the user's device and is given below, with a "--- Page N ---" line before each page.
+    Personal identifiers were replaced with placeholders such as [NAME_1] or [ID_2]. Copy a placeholder as it is where it is needed, and never try to guess what it stands for.
+    The layout of tables may be lost: match each value with its test, unit and reference range by reading the lines carefully.
+
+Document text:
+{{documentText}}`,
+  },
+  {
+    id: 'repair_health_data',
+    version: 1,
+    language: 'en',
+    variables: ['errors'],
+    text: `
+    The JSON you returned does not match the required structure. These fields are invalid:
+
+    {{errors}}
+
+    Return the complete corrected JSON object using the same structure as before.
+    Numbers must be JSON numbers, dates must be ISO date strings, and "documentType" must be one of the listed values.
+    Return only the JSON object, with no explanation.
+  `,
+  },
+  {
+    id: 'daily_summary',
+    version: 2,
+    language: 'en',
+    variables: ['healthData'],
+    text: `
+    You are a health insights assistant. Based on the following health data from the past 24 hours, provide a concise daily summary.
+
+    Include:
+    1. Key health metrics and trends
+    2. Any notable changes or patterns
+    3. Actionable insights or recommendations
+    4. Areas that might need attention
+
+    Be encouraging but factual. Keep the summary under 300 words.
+    Metrics with a rangeFlag of "low", "high" or "critical" are outside the reference range of the report they came from;
+    mention them, and treat "critical" ones as needing prompt attention from a clinician.
+    "conditions" is the patient's problem list with ICD-10 codes. Use the active conditions as context when
+    interpreting the metrics, e.g. glucose readings for someone with diabetes, but do not suggest new diagnoses.
+
+    Format the response as JSON:
+    {
+      "summaryText": "main summary text",
+      "keyInsights": [
+        {"category": "category name", "insight": "specific insight", "severity": "low|medium|high"}
+      ]
+    }
+
+Health Data:
+{{healthData}}`,
+  },
+];
+
+// Identifies a template variant independently of its version, e.g. "extract_health_data:any:en"
+export function promptKey(template: Pick<PromptTemplate, 'id' | 'documentType' | 'language'>): string {
+  return `${template.id}:${template.documentType ?? 'any'}:${template.language}`;
+}
+
+function latestVersion(candidates: PromptTemplate[]): PromptTemplate | undefined {
+  return candidates.reduce<PromptTemplate | undefined>(
+    (latest, template) => (!latest || template.version > latest.version ? template : latest),
+    undefined
+  );
+}
+
+/**
+ * The newest template for a prompt, preferring one written for the document
+ * type and language. Falls back to the default language, then to the template
+ * for any document type.
+ */
+export function getPromptTemplate(
+  id: PromptId,
+  options: { documentType?: DocumentType; language?: string } = {}
+): PromptTemplate {
+  const language = options.language ?? DEFAULT_PROMPT_LANGUAGE;
+  const lookups: Array<Pick<PromptTemplate, 'documentType' | 'language'>> = [
+    ...(options.documentType
+      ? [
+          { documentType: options.documentType, language },
+          { documentType: options.documentType, language: DEFAULT_PROMPT_LANGUAGE },
+        ]
+      : []),
+    { language },
+    { language: DEFAULT_PROMPT_LANGUAGE },
+  ];
+
+  for (const lookup of lookups) {
+    const template = latestVersion(
+      PROMPT_TEMPLATES.filter(candidate =>
+        candidate.id === id &&
+        candidate.documentType === lookup.documentType &&
+        candidate.language === lookup.language
+      )
+    );
+    if (template) return template;
+  }
+  throw new Error(`No prompt template registered for ${id}`);
+}
+
+export function renderPrompt(template: PromptTemplate, variables: Record<string, string | number> = {}): string {
+  const missing = template.variables.filter(name => variables[name] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Prompt ${promptKey(template)} is missing variables: ${missing.join(', ')}`);
+  }
+  return template.text.replace(/{{(\w+)}}/g, (placeholder, name: string) =>
+    variables[name] !== undefined ? String(variables[name]) : placeholder
+  );
+}
+
+/**
+ * Output with no provenance predates prompt tracking and is treated as
+ * outdated. Given the model the task now runs on, output from another model
+ * is outdated as well.
+ */
+export function isPromptOutdated(provenance: Partial<PromptProvenance>, currentModel?: string | null): boolean {
+  if (!provenance.promptId || provenance.promptVersion === undefined) return true;
+  if (currentModel && provenance.model !== currentModel) return true;
+
+  const current = latestVersion(PROMPT_TEMPLATES.filter(template => promptKey(template) === provenance.promptId));
+  return !current || current.version > provenance.promptVersion;
+}
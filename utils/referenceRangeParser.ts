@@ -0,0 +1,221 @@
+import { LabValue, PatientContext, PatientSex, RangeFlag } from '@/types/health';
+import { parseLocaleNumber } from '@/utils/labValueParser';
+import { normalizeMeasurement } from '@/utils/unitRegistry';
+
+// One population's bounds from a reference range; either bound may be open
+export interface ReferenceRange {
+  low?: number;
+  high?: number;
+  sex?: PatientSex;
+  minAge?: number;
+  maxAge?: number;
+}
+
+// Commonly used critical (panic) limits, in the canonical unit of each metric type
+// (see utils/unitRegistry.ts). They apply whether or not the report prints a range.
+const CRITICAL_LIMITS: { [metricType: string]: { low?: number; high?: number } } = {
+  blood_glucose: { low: 40, high: 500 },
+  potassium: { low: 2.5, high: 6.5 },
+  sodium: { low: 120, high: 160 },
+  calcium: { low: 6, high: 13 },
+  magnesium: { low: 1, high: 4.7 },
+  hemoglobin: { low: 7, high: 20 },
+  platelets: { low: 20, high: 1000 },
+  wbc: { low: 2, high: 30 },
+  creatinine: { high: 7.4 },
+  blood_pressure_systolic: { low: 70, high: 180 },
+  blood_pressure_diastolic: { high: 120 },
+  heart_rate: { low: 40, high: 150 },
+  oxygen_saturation: { low: 88 },
+  temperature: { low: 34, high: 41 },
+};
+
+const NUM = String.raw`\d+(?:[.,]\d+)*`;
+// Bounds may be signed, as for base excess ("-2 - 2"). A sign never follows a digit,
+// so the dash in "3-5" stays the range dash.
+const SIGNED_NUM = String.raw`(?:^|[^\d.,])([-−+]?${NUM})`;
+const AGE_UNIT = String.raw`(?:y|yr|yrs|years?|ans|anos|jahre|ani)`;
+
+const SEX_PATTERNS: [RegExp, PatientSex][] = [
+  [/\b(f|female|females|women|woman|mujer|mujeres|femme|femmes|frauen|femei|femenino|feminin)\b/, 'female'],
+  [/\b(m|male|males|men|man|hombre|hombres|varon|varones|homme|hommes|manner|barbati|masculino|masculin)\b/, 'male'],
+];
+
+// Range text is split into one segment per population, without splitting "3,5-5,0"
+function splitSegments(text: string): string[] {
+  return text
+    .split(/[;\n|]|\s\/\s|,\s+(?=[a-z])/)
+    .map(segment => segment.trim())
+    .filter(segment => segment !== '');
+}
+
+function parseAgeQualifier(segment: string): { minAge?: number; maxAge?: number; rest: string } {
+  const between = segment.match(new RegExp(`(\\d+)\\s*(?:-|–|to)\\s*(\\d+)\\s*${AGE_UNIT}\\b`));
+  if (between) {
+    return { minAge: Number(between[1]), maxAge: Number(between[2]), rest: segment.replace(between[0], ' ') };
+  }
+  const over = segment.match(new RegExp(`(?:>=?|≥|over|above)\\s*(\\d+)\\s*${AGE_UNIT}\\b|(\\d+)\\s*\\+\\s*${AGE_UNIT}\\b`));
+  if (over) {
+    return { minAge: Number(over[1] ?? over[2]), rest: segment.replace(over[0], ' ') };
+  }
+  const under = segment.match(new RegExp(`(?:<|under|below)\\s*(\\d+)\\s*${AGE_UNIT}\\b`));
+  if (under) {
+    return { maxAge: Number(under[1]) - 1, rest: segment.replace(under[0], ' ') };
+  }
+  if (/\b(adults?|adultos?|adultes?|erwachsene|adulti)\b/.test(segment)) {
+    return { minAge: 18, rest: segment };
+  }
+  if (/\b(child|children|kids|ninos|enfants|kinder|copii)\b/.test(segment)) {
+    return { maxAge: 17, rest: segment };
+  }
+  return { rest: segment };
+}
+
+function parseSignedNumber(text: string): number | null {
+  return parseLocaleNumber(text.replace('−', '-'));
+}
+
+function parseBounds(segment: string): { low?: number; high?: number } | null {
+  const between = segment.match(new RegExp(`${SIGNED_NUM}\\s*(?:-|–|—|to|a|bis)\\s*([-−+]?${NUM})`));
+  if (between) {
+    const low = parseSignedNumber(between[1]);
+    const high = parseSignedNumber(between[2]);
+    if (low !== null && high !== null && high >= low) return { low, high };
+  }
+
+  const upper = segment.match(new RegExp(`(?:<=?|≤|up to|less than|below|under|hasta|jusqu'a|bis)\\s*(${NUM})`));
+  if (upper) {
+    const high = parseLocaleNumber(upper[1]);
+    if (high !== null) return { high };
+  }
+
+  const lower = segment.match(new RegExp(`(?:>=?|≥|greater than|above|over|more than|mayor de|superieur a)\\s*(${NUM})`));
+  if (lower) {
+    const low = parseLocaleNumber(lower[1]);
+    if (low !== null) return { low };
+  }
+
+  return null;
+}
+
+/**
+ * Parses reference range text as printed on a report ("70-100", "<200",
+ * "M: 13.5-17.5; F: 12.0-15.5", "Adults 0.5-1.2 / Children 0.3-0.7") into
+ * one range per population. Bounds are treated as inclusive.
+ */
+export function parseReferenceRanges(text: string | undefined | null): ReferenceRange[] {
+  if (!text) return [];
+
+  const normalized = text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+  const ranges: ReferenceRange[] = [];
+
+  splitSegments(normalized).forEach(segment => {
+    const { minAge, maxAge, rest } = parseAgeQualifier(segment);
+    const sex = SEX_PATTERNS.find(([pattern]) => pattern.test(rest))?.[1];
+    const bounds = parseBounds(rest.replace(/^[^\d<>≤≥]*?:/, ' '));
+    if (bounds) {
+      ranges.push({ ...bounds, sex, minAge, maxAge });
+    }
+  });
+
+  return ranges;
+}
+
+/**
+ * Picks the range that applies to the patient. Without a known sex, ranges
+ * for different sexes are combined so only values outside all of them are
+ * flagged; without a known age, adult ranges are used.
+ */
+export function selectReferenceRange(ranges: ReferenceRange[], patient: PatientContext = {}): ReferenceRange | null {
+  let candidates = ranges.filter(range => !patient.sex || !range.sex || range.sex === patient.sex);
+
+  if (patient.age !== undefined) {
+    const age = patient.age;
+    candidates = candidates.filter(range => (range.minAge ?? 0) <= age && age <= (range.maxAge ?? Infinity));
+  } else {
+    const adult = candidates.filter(range => (range.maxAge ?? Infinity) >= 18);
+    candidates = adult.length > 0 ? adult : candidates;
+  }
+
+  if (candidates.length === 0) return null;
+  if (candidates.length === 1) return candidates[0];
+
+  const lows = candidates.map(range => range.low);
+  const highs = candidates.map(range => range.high);
+  return {
+    low: lows.every(low => low !== undefined) ? Math.min(...(lows as number[])) : undefined,
+    high: highs.every(high => high !== undefined) ? Math.max(...(highs as number[])) : undefined,
+  };
+}
+
+export function parseReferenceRange(text: string | undefined | null, patient?: PatientContext): ReferenceRange | null {
+  return selectReferenceRange(parseReferenceRanges(text), patient);
+}
+
+function compareExact(value: number, low: number | undefined, high: number | undefined): RangeFlag {
+  if (low !== undefined && value < low) return 'low';
+  if (high !== undefined && value > high) return 'high';
+  return 'normal';
+}
+
+// A censored value is only flagged when every value it could stand for falls on the same side
+function compareCensored(
+  labValue: Extract<LabValue, { kind: 'censored' }>,
+  rangeLow: number | undefined,
+  high: number | undefined
+): RangeFlag | null {
+  // A lower bound of 0 ("0-5") does not constrain anything
+  const low = rangeLow !== undefined && rangeLow > 0 ? rangeLow : undefined;
+  const below = labValue.comparator === '<' || labValue.comparator === '<=';
+  if (below) {
+    if (low !== undefined && labValue.value <= low) return 'low';
+    if (low === undefined && high !== undefined && labValue.value <= high) return 'normal';
+    return null;
+  }
+  if (high !== undefined && labValue.value >= high) return 'high';
+  if (high === undefined && low !== undefined && labValue.value >= low) return 'normal';
+  return null;
+}
+
+export interface RangeAssessment {
+  flag: RangeFlag | null;
+  // Reference bounds converted to the unit the value is stored in
+  low?: number;
+  high?: number;
+}
+
+/**
+ * Flags a result against its reference range, both taken in the unit the
+ * report uses. Values are compared in the canonical unit of the metric type
+ * so the critical limits apply too. Qualitative results, titers and ranges
+ * are not flagged.
+ */
+export function assessResult(
+  metricType: string,
+  labValue: LabValue,
+  unit: string,
+  range: ReferenceRange | null
+): RangeAssessment {
+  const toCanonical = (value: number | undefined) =>
+    value === undefined ? undefined : normalizeMeasurement(metricType, value, unit).value;
+  const low = toCanonical(range?.low);
+  const high = toCanonical(range?.high);
+
+  if (labValue.kind !== 'numeric' && labValue.kind !== 'censored') {
+    return { flag: null, low, high };
+  }
+
+  const value = toCanonical(labValue.value)!;
+  const critical = CRITICAL_LIMITS[metricType];
+  if (labValue.kind === 'numeric' && critical && compareExact(value, critical.low, critical.high) !== 'normal') {
+    return { flag: 'critical', low, high };
+  }
+  if (!range) {
+    return { flag: null, low, high };
+  }
+
+  const flag = labValue.kind === 'numeric'
+    ? compareExact(value, low, high)
+    : compareCensored({ ...labValue, value }, low, high);
+  return { flag, low, high };
+}
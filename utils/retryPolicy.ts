@@ -0,0 +1,30 @@
+import {
+  EXTRACTION_RETRY_BASE_DELAY_MS,
+  EXTRACTION_RETRY_MAX_DELAY_MS,
+} from '@/utils/constants';
+
+/**
+ * Whether a failed request is worth repeating: rate limits (429), server
+ * errors (5xx) and network failures. Other client errors, such as an invalid
+ * API key, fail the same way every time.
+ */
+export function isRetryableError(error: unknown): boolean {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') {
+    return status === 429 || status >= 500;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (/\b(429|5\d\d)\b/.test(message)) return true;
+  return /network request failed|failed to fetch|fetch failed|network|timed? ?out|ECONNRESET|ENOTFOUND/i.test(message);
+}
+
+// Exponential backoff with jitter, so retries from several jobs do not line up
+export function getRetryDelay(attempt: number): number {
+  const ceiling = Math.min(EXTRACTION_RETRY_BASE_DELAY_MS * 2 ** Math.max(attempt - 1, 0), EXTRACTION_RETRY_MAX_DELAY_MS);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+export function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
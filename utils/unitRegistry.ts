@@ -0,0 +1,269 @@
+// Canonical unit symbols, keyed by the lowercased, space-free spellings found on lab reports
+const UNIT_ALIASES: { [spelling: string]: string } = {
+  // Mass concentration
+  'mg/dl': 'mg/dL',
+  'mg%': 'mg/dL',
+  'mgdl': 'mg/dL',
+  'mg/100ml': 'mg/dL',
+  'g/dl': 'g/dL',
+  'g%': 'g/dL',
+  'g/l': 'g/L',
+  'mg/l': 'mg/L',
+  'µg/dl': 'µg/dL',
+  'ug/dl': 'µg/dL',
+  'mcg/dl': 'µg/dL',
+  'µg/l': 'µg/L',
+  'ug/l': 'µg/L',
+  'mcg/l': 'µg/L',
+  'ng/ml': 'ng/mL',
+  'ng/dl': 'ng/dL',
+  'pg/ml': 'pg/mL',
+
+  // Molar concentration
+  'mmol/l': 'mmol/L',
+  'mmol': 'mmol/L',
+  'µmol/l': 'µmol/L',
+  'umol/l': 'µmol/L',
+  'nmol/l': 'nmol/L',
+  'pmol/l': 'pmol/L',
+  'meq/l': 'mEq/L',
+
+  // Enzyme and hormone activity
+  'u/l': 'U/L',
+  'iu/l': 'U/L',
+  'ui/l': 'U/L',
+  'miu/l': 'mIU/L',
+  'mu/l': 'mIU/L',
+  'mui/l': 'mIU/L',
+  'µiu/ml': 'µIU/mL',
+  'uiu/ml': 'µIU/mL',
+  'µu/ml': 'µIU/mL',
+  'uu/ml': 'µIU/mL',
+
+  // Cell counts
+  'x10^9/l': '10^9/L',
+  '10^9/l': '10^9/L',
+  '10*9/l': '10^9/L',
+  '10^3/µl': '10^9/L',
+  '10^3/ul': '10^9/L',
+  'x10^3/µl': '10^9/L',
+  'x10^3/ul': '10^9/L',
+  'k/µl': '10^9/L',
+  'k/ul': '10^9/L',
+  'thou/ul': '10^9/L',
+  'x10^12/l': '10^12/L',
+  '10^12/l': '10^12/L',
+  '10*12/l': '10^12/L',
+  '10^6/µl': '10^12/L',
+  '10^6/ul': '10^12/L',
+  'm/µl': '10^12/L',
+  'm/ul': '10^12/L',
+
+  // Other lab units
+  '%': '%',
+  'l/l': 'L/L',
+  'fl': 'fL',
+  'pg': 'pg',
+  'ml/min/1.73m2': 'mL/min/1.73m²',
+  'ml/min/1.73m²': 'mL/min/1.73m²',
+  'mm/h': 'mm/h',
+  'mm/hr': 'mm/h',
+
+  // Vitals
+  'mmhg': 'mmHg',
+  'cmhg': 'cmHg',
+  'bpm': 'bpm',
+  '/min': 'bpm',
+  'beats/min': 'bpm',
+  'breaths/min': 'breaths/min',
+  'kg': 'kg',
+  'kgs': 'kg',
+  'g': 'g',
+  'lb': 'lb',
+  'lbs': 'lb',
+  'cm': 'cm',
+  'm': 'm',
+  'in': 'in',
+  '°c': '°C',
+  'c': '°C',
+  'degc': '°C',
+  '°f': '°F',
+  'f': '°F',
+  'degf': '°F',
+  'kg/m2': 'kg/m²',
+  'kg/m²': 'kg/m²',
+};
+
+// Grams per litre for one of each mass-concentration unit
+const MASS_FACTORS: { [unit: string]: number } = {
+  'g/L': 1,
+  'g/dL': 10,
+  'mg/dL': 0.01,
+  'mg/L': 0.001,
+  'µg/dL': 1e-5,
+  'µg/L': 1e-6,
+  'ng/mL': 1e-6,
+  'ng/dL': 1e-8,
+  'pg/mL': 1e-9,
+};
+
+// Moles per litre for one of each molar-concentration unit
+const MOLAR_FACTORS: { [unit: string]: number } = {
+  'mmol/L': 1e-3,
+  'µmol/L': 1e-6,
+  'nmol/L': 1e-9,
+  'pmol/L': 1e-12,
+};
+
+// Milli-international units per litre for one of each activity unit
+const ACTIVITY_FACTORS: { [unit: string]: number } = {
+  'U/L': 1000,
+  'mIU/L': 1,
+  'µIU/mL': 1,
+};
+
+const COUNT_FACTORS: { [unit: string]: number } = {
+  '10^9/L': 1e9,
+  '10^12/L': 1e12,
+};
+
+interface AnalyteUnits {
+  canonicalUnit: string;
+  // g/mol, enables mass <-> molar conversion for this analyte
+  molarMass?: number;
+  // Charge of the ion, enables mEq/L <-> mmol/L
+  valence?: number;
+  // Analyte-specific factors into the canonical unit, for units with no generic path
+  factors?: { [unit: string]: number };
+}
+
+/**
+ * Canonical unit per metric type, with the analyte constants needed to convert
+ * into it. Metric types missing here are stored with their unit spelling cleaned up.
+ */
+export const ANALYTE_UNITS: { [metricType: string]: AnalyteUnits } = {
+  blood_glucose: { canonicalUnit: 'mg/dL', molarMass: 180.16 },
+  total_cholesterol: { canonicalUnit: 'mg/dL', molarMass: 386.65 },
+  ldl_cholesterol: { canonicalUnit: 'mg/dL', molarMass: 386.65 },
+  hdl_cholesterol: { canonicalUnit: 'mg/dL', molarMass: 386.65 },
+  triglycerides: { canonicalUnit: 'mg/dL', molarMass: 885.7 },
+  vitamin_d: { canonicalUnit: 'ng/mL', molarMass: 400.64 },
+  vitamin_b12: { canonicalUnit: 'pg/mL', molarMass: 1355.37 },
+  folate: { canonicalUnit: 'ng/mL', molarMass: 441.4 },
+  creatinine: { canonicalUnit: 'mg/dL', molarMass: 113.12 },
+  bun: { canonicalUnit: 'mg/dL', molarMass: 28.014 },
+  bilirubin: { canonicalUnit: 'mg/dL', molarMass: 584.66 },
+  calcium: { canonicalUnit: 'mg/dL', molarMass: 40.08, valence: 2 },
+  magnesium: { canonicalUnit: 'mg/dL', molarMass: 24.305, valence: 2 },
+  phosphorus: { canonicalUnit: 'mg/dL', molarMass: 30.97 },
+  iron: { canonicalUnit: 'µg/dL', molarMass: 55.845 },
+  ferritin: { canonicalUnit: 'ng/mL', factors: { 'pmol/L': 1 / 2.247 } },
+  testosterone: { canonicalUnit: 'ng/dL', molarMass: 288.42 },
+  cortisol: { canonicalUnit: 'µg/dL', molarMass: 362.46 },
+  insulin: { canonicalUnit: 'µIU/mL', factors: { 'pmol/L': 1 / 6 } },
+  hemoglobin: { canonicalUnit: 'g/dL', molarMass: 16114.5 },
+  sodium: { canonicalUnit: 'mmol/L', valence: 1 },
+  potassium: { canonicalUnit: 'mmol/L', valence: 1 },
+  chloride: { canonicalUnit: 'mmol/L', valence: 1 },
+  hematocrit: { canonicalUnit: '%', factors: { 'L/L': 100 } },
+  tsh: { canonicalUnit: 'mIU/L' },
+  free_t4: { canonicalUnit: 'ng/dL', molarMass: 776.87 },
+  free_t3: { canonicalUnit: 'pg/mL', molarMass: 650.98 },
+  wbc: { canonicalUnit: '10^9/L' },
+  rbc: { canonicalUnit: '10^12/L' },
+  platelets: { canonicalUnit: '10^9/L' },
+  heart_rate: { canonicalUnit: 'bpm' },
+  blood_pressure_systolic: { canonicalUnit: 'mmHg', factors: { cmHg: 10 } },
+  blood_pressure_diastolic: { canonicalUnit: 'mmHg', factors: { cmHg: 10 } },
+  weight: { canonicalUnit: 'kg', factors: { lb: 0.45359237, g: 0.001 } },
+  temperature: { canonicalUnit: '°C' },
+};
+
+export interface NormalizedMeasurement {
+  value: number;
+  unit: string;
+  originalValue: number;
+  originalUnit: string;
+  // False when the unit was unknown or there is no conversion path to the canonical unit
+  normalized: boolean;
+}
+
+function roundValue(value: number): number {
+  return Number(value.toPrecision(4));
+}
+
+/**
+ * Maps a unit as written on a report ("mg/dl", "mg%", "umol/L") to its
+ * canonical symbol, or null when the unit is not recognized.
+ */
+export function parseUnit(raw: string | undefined | null): string | null {
+  if (!raw) return null;
+  const key = raw.toLowerCase().replace(/\s+/g, '').replace(/μ/g, 'µ').replace(/×/g, 'x');
+  return UNIT_ALIASES[key] ?? null;
+}
+
+function convert(value: number, from: string, to: string, analyte: AnalyteUnits): number | null {
+  if (from === to) return value;
+
+  if (analyte.factors?.[from] !== undefined) {
+    return value * analyte.factors[from];
+  }
+
+  if (from === '°F' && to === '°C') return (value - 32) * 5 / 9;
+  if (from === '°C' && to === '°F') return value * 9 / 5 + 32;
+
+  if (MASS_FACTORS[from] !== undefined && MASS_FACTORS[to] !== undefined) {
+    return value * MASS_FACTORS[from] / MASS_FACTORS[to];
+  }
+  if (MOLAR_FACTORS[from] !== undefined && MOLAR_FACTORS[to] !== undefined) {
+    return value * MOLAR_FACTORS[from] / MOLAR_FACTORS[to];
+  }
+  if (ACTIVITY_FACTORS[from] !== undefined && ACTIVITY_FACTORS[to] !== undefined) {
+    return value * ACTIVITY_FACTORS[from] / ACTIVITY_FACTORS[to];
+  }
+  if (COUNT_FACTORS[from] !== undefined && COUNT_FACTORS[to] !== undefined) {
+    return value * COUNT_FACTORS[from] / COUNT_FACTORS[to];
+  }
+
+  // mEq/L -> mmol/L needs the ion's charge
+  if (from === 'mEq/L' && analyte.valence) {
+    return convert(value / analyte.valence, 'mmol/L', to, analyte);
+  }
+
+  // Mass <-> molar needs the analyte's molar mass
+  if (analyte.molarMass) {
+    if (MOLAR_FACTORS[from] !== undefined && MASS_FACTORS[to] !== undefined) {
+      return value * MOLAR_FACTORS[from] * analyte.molarMass / MASS_FACTORS[to];
+    }
+    if (MASS_FACTORS[from] !== undefined && MOLAR_FACTORS[to] !== undefined) {
+      return value * MASS_FACTORS[from] / analyte.molarMass / MOLAR_FACTORS[to];
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Converts a measurement into the canonical unit for its metric type, keeping
+ * the value and unit as reported alongside it.
+ */
+export function normalizeMeasurement(metricType: string, value: number, rawUnit: string): NormalizedMeasurement {
+  const parsedUnit = parseUnit(rawUnit);
+  const original = { originalValue: value, originalUnit: rawUnit };
+  const analyte = ANALYTE_UNITS[metricType];
+
+  if (!parsedUnit) {
+    return { value, unit: rawUnit.trim(), ...original, normalized: false };
+  }
+  if (!analyte) {
+    return { value, unit: parsedUnit, ...original, normalized: true };
+  }
+
+  const converted = convert(value, parsedUnit, analyte.canonicalUnit, analyte);
+  if (converted === null) {
+    console.log(`⚠️ No conversion from ${parsedUnit} to ${analyte.canonicalUnit} for ${metricType}`);
+    return { value, unit: parsedUnit, ...original, normalized: false };
+  }
+
+  return { value: roundValue(converted), unit: analyte.canonicalUnit, ...original, normalized: true };
+}
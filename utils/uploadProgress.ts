@@ -0,0 +1,42 @@
+import { UploadProgress, UploadStage } from '@/types/document';
+
+// The part of the overall percentage each stage covers. Each response is
+// validated as soon as it arrives, so a PDF extracted in several parts moves
+// back and forth between extracting and validating within one span.
+const STAGE_SPANS: { [stage in UploadStage]: [number, number] } = {
+  reading: [0, 10],
+  extracting: [10, 75],
+  validating: [10, 75],
+  uploading: [75, 90],
+  saving: [90, 100],
+};
+
+export const UPLOAD_STAGE_LABELS: { [stage in UploadStage]: string } = {
+  reading: 'Reading file',
+  extracting: 'Extracting health data',
+  validating: 'Checking the extracted data',
+  uploading: 'Uploading original',
+  saving: 'Saving metrics',
+};
+
+/**
+ * Progress at a stage, `fraction` (0 to 1) of the way through the stage's
+ * span. Percentages are estimates: a model call gives no progress of its own.
+ */
+export function stageProgress(stage: UploadStage, fraction = 0, message?: string): UploadProgress {
+  const [start, end] = STAGE_SPANS[stage];
+  const clamped = Math.min(Math.max(fraction, 0), 1);
+  return {
+    stage,
+    percentage: Math.round(start + (end - start) * clamped),
+    status: stage === 'reading' || stage === 'uploading' ? 'uploading' : 'processing',
+    message,
+  };
+}
+
+// For the steps between requests, which have no request of their own to abort
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new Error('Processing was cancelled');
+  }
+}